@@ -0,0 +1,281 @@
+import { randomUUID } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import path from 'node:path';
+import type { Plugin } from 'vite';
+
+// Local stand-in for the Flask analysis service. It replays a recorded agent
+// pipeline over SSE and serves a recorded report, so the frontend can be
+// developed and demoed offline (`npm run dev:mock`).
+//
+// Failure scenarios can be chosen with MOCK_SCENARIO or switched at runtime
+// with GET /__mock/scenario?set=<scenario>.
+
+export type MockScenario = 'success' | 'agent-error' | 'drop-stream' | 'no-sse' | 'report-500' | 'backend-down';
+
+const SCENARIOS: MockScenario[] = ['success', 'agent-error', 'drop-stream', 'no-sse', 'report-500', 'backend-down'];
+
+const isScenario = (value: string): value is MockScenario => (SCENARIOS as string[]).includes(value);
+
+// A typo in MOCK_SCENARIO stops the dev server instead of running another scenario
+const scenarioFromEnv = (): MockScenario | undefined => {
+  const value = process.env.MOCK_SCENARIO;
+  if (!value) return undefined;
+  if (!isScenario(value)) throw new Error(`Unknown MOCK_SCENARIO '${value}', expected one of: ${SCENARIOS.join(', ')}`);
+  return value;
+};
+
+export interface MockBackendOptions {
+  // Recorded report served for every analysis (relative to the project root)
+  reportFixture?: string;
+  // Recorded SSE pipeline (relative to the project root)
+  pipelineFixture?: string;
+  scenario?: MockScenario;
+  // Playback speed multiplier: 2 replays twice as fast
+  speed?: number;
+}
+
+interface RecordedEvent {
+  at_ms: number;
+  event: Record<string, unknown>;
+}
+
+interface MockAnalysis {
+  id: string;
+  code: string;
+  scenario: MockScenario;
+  startedAt: number;
+  events: RecordedEvent[];
+  // drop-stream only cuts the first connection, the pipeline keeps running
+  dropped: boolean;
+  cancelled: boolean;
+  // Open SSE connections, closed when the analysis is cancelled
+  streams: Set<() => void>;
+}
+
+// Which part of the report each agent's artifact carries
+const AGENT_SLICES: Record<string, string[]> = {
+  parser: ['ast'],
+  analyzer: ['control_structures', 'algorithmic_patterns'],
+  complexity: ['complexity', 'cases', 'recurrence'],
+  validator: ['validation'],
+  diagram: ['artifacts'],
+  explainer: ['explanation', 'hints', 'invariant_or_rule', 'pseudocode_normalized', 'pseudocode_with_costs'],
+};
+
+const DROP_AFTER_MS = 2400;
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req: IncomingMessage) =>
+  new Promise<string>((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+
+const withAgentError = (events: RecordedEvent[]): RecordedEvent[] => {
+  const failAt = events.findIndex(e => e.event.agent === 'validator' && e.event.state === 'started');
+  if (failAt < 0) return events;
+  const at = events[failAt].at_ms;
+  return [
+    ...events.slice(0, failAt + 1),
+    { at_ms: at + 400, event: { agent: 'validator', state: 'error', summary: 'Simulated failure: validator crashed', duration_ms: 400 } },
+    { at_ms: at + 450, event: { agent: 'pipeline', state: 'error', summary: 'Pipeline abortado' } },
+  ];
+};
+
+export const mockBackend = (options: MockBackendOptions = {}): Plugin => ({
+  name: 'mock-analysis-backend',
+  apply: 'serve',
+
+  configureServer(server) {
+    const root = server.config.root;
+    const load = (file: string) => JSON.parse(readFileSync(path.resolve(root, file), 'utf-8'));
+    const recordedReport = load(options.reportFixture ?? 'temp_report.json');
+    const recordedPipeline: RecordedEvent[] = load(options.pipelineFixture ?? 'mock/fixtures/pipeline.json');
+    const speed = options.speed ?? (Number(process.env.MOCK_SPEED) || 1);
+
+    let scenario: MockScenario = options.scenario ?? scenarioFromEnv() ?? 'success';
+    const analyses = new Map<string, MockAnalysis>();
+
+    const reportFor = (analysis: MockAnalysis) => ({
+      ...recordedReport,
+      analysis_id: analysis.id,
+      data: { ...recordedReport.data, analysis_id: analysis.id },
+    });
+
+    const agentArtifact = (analysis: MockAnalysis, agent: string) => {
+      const report = reportFor(analysis);
+      if (agent === 'report') return report;
+      const keys = AGENT_SLICES[agent];
+      if (!keys) return null;
+      const data = Object.fromEntries(keys.map(key => [key, report.data[key]]));
+      return { agent, analysis_id: analysis.id, artifact_type: 'json', data, status: 'success' };
+    };
+
+    // Finished agents announce where their artifact can be fetched
+    const decorate = (analysis: MockAnalysis, event: Record<string, unknown>) => {
+      const agent = String(event.agent);
+      if (event.state !== 'finished' || !(agent in AGENT_SLICES || agent === 'report')) return event;
+      return { ...event, artifacts: { json: `/api/analysis/${analysis.id}/agent/${agent}/json` } };
+    };
+
+    // Events already emitted on the pipeline timeline
+    const emittedEvents = (analysis: MockAnalysis) => {
+      if (analysis.cancelled) return [];
+      const elapsed = Date.now() - analysis.startedAt;
+      return analysis.events.filter(recorded => recorded.at_ms / speed <= elapsed);
+    };
+
+    const snapshot = (analysis: MockAnalysis, after: number) => {
+      const emitted = emittedEvents(analysis);
+      const last = emitted[emitted.length - 1]?.event;
+      const status = analysis.cancelled
+        ? 'cancelled'
+        : last?.agent === 'pipeline' && (last.state === 'finished' || last.state === 'error')
+          ? (last.state === 'finished' ? 'completed' : 'error')
+          : 'running';
+      return {
+        analysis_id: analysis.id,
+        status,
+        events: emitted
+          .map((recorded, index) => ({ id: String(index), data: decorate(analysis, recorded.event) }))
+          .slice(after + 1),
+      };
+    };
+
+    // `lastEventId` resumes a dropped stream without replaying earlier events
+    const streamStatus = (analysis: MockAnalysis, res: ServerResponse, lastEventId: number) => {
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+      });
+
+      const timers: ReturnType<typeof setTimeout>[] = [];
+      const elapsed = Date.now() - analysis.startedAt;
+      const closeStream = () => {
+        timers.forEach(clearTimeout);
+        analysis.streams.delete(closeStream);
+        res.end();
+      };
+      if (analysis.cancelled) return closeStream();
+      analysis.streams.add(closeStream);
+
+      analysis.events.forEach((recorded, index) => {
+        if (index <= lastEventId) {
+          if (index === analysis.events.length - 1) closeStream();
+          return;
+        }
+        const due = Math.max(0, recorded.at_ms / speed - elapsed);
+        timers.push(setTimeout(() => {
+          res.write(`id: ${index}\ndata: ${JSON.stringify(decorate(analysis, recorded.event))}\n\n`);
+          if (index === analysis.events.length - 1) closeStream();
+        }, due));
+      });
+
+      if (analysis.scenario === 'drop-stream' && !analysis.dropped) {
+        timers.push(setTimeout(() => {
+          analysis.dropped = true;
+          timers.forEach(clearTimeout);
+          res.destroy();
+        }, Math.max(0, DROP_AFTER_MS / speed - elapsed)));
+      }
+
+      res.on('close', () => {
+        timers.forEach(clearTimeout);
+        analysis.streams.delete(closeStream);
+      });
+    };
+
+    server.middlewares.use(async (req, res, next) => {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      const route = url.pathname;
+
+      if (route === '/__mock/scenario') {
+        const requested = url.searchParams.get('set');
+        if (requested !== null && !isScenario(requested)) {
+          return sendJson(res, 400, { error: `Unknown scenario '${requested}'`, scenario, available: SCENARIOS });
+        }
+        if (requested) scenario = requested;
+        return sendJson(res, 200, { scenario, available: SCENARIOS });
+      }
+
+      if (!route.startsWith('/api/')) return next();
+
+      if (scenario === 'backend-down') {
+        return sendJson(res, 503, { error: 'Simulated failure: backend unavailable' });
+      }
+
+      if (route === '/api/analyze' && req.method === 'POST') {
+        let code = '';
+        try {
+          code = JSON.parse((await readBody(req)) || '{}').code ?? '';
+        } catch {
+          return sendJson(res, 400, { error: 'Invalid JSON body' });
+        }
+        if (!code.trim()) return sendJson(res, 400, { error: 'Missing code' });
+
+        const id = randomUUID();
+        analyses.set(id, {
+          id,
+          code,
+          scenario,
+          startedAt: Date.now(),
+          events: scenario === 'agent-error' ? withAgentError(recordedPipeline) : recordedPipeline,
+          dropped: false,
+          cancelled: false,
+          streams: new Set(),
+        });
+        return sendJson(res, 202, { analysis_id: id, status: 'started' });
+      }
+
+      if (route === '/api/status') {
+        const analysis = analyses.get(url.searchParams.get('analysis_id') ?? '');
+        if (!analysis) return sendJson(res, 404, { error: 'Unknown analysis_id' });
+        if (analysis.scenario === 'no-sse') return sendJson(res, 501, { error: 'Simulated failure: SSE not supported' });
+        const lastEventId = Number(req.headers['last-event-id'] ?? -1);
+        return streamStatus(analysis, res, Number.isNaN(lastEventId) ? -1 : lastEventId);
+      }
+
+      const statusMatch = route.match(/^\/api\/analysis\/([^/]+)\/status$/);
+      if (statusMatch) {
+        const analysis = analyses.get(statusMatch[1]);
+        if (!analysis) return sendJson(res, 404, { error: 'Unknown analysis_id' });
+        return sendJson(res, 200, snapshot(analysis, Number(url.searchParams.get('after') ?? -1)));
+      }
+
+      const cancelMatch = route.match(/^\/api\/analysis\/([^/]+)\/cancel$/);
+      if (cancelMatch && req.method === 'POST') {
+        const analysis = analyses.get(cancelMatch[1]);
+        if (!analysis) return sendJson(res, 404, { error: 'Unknown analysis_id' });
+        analysis.cancelled = true;
+        analysis.streams.forEach(close => close());
+        return sendJson(res, 200, { analysis_id: analysis.id, status: 'cancelled' });
+      }
+
+      const artifactMatch = route.match(/^\/api\/analysis\/([^/]+)\/agent\/([^/]+)\/json$/);
+      const reportMatch = route.match(/^\/api\/report\/([^/]+)$/);
+      const analysis = analyses.get((artifactMatch ?? reportMatch)?.[1] ?? '');
+      const agent = artifactMatch ? artifactMatch[2] : 'report';
+
+      if ((artifactMatch || reportMatch) && analysis) {
+        if (agent === 'report' && analysis.scenario === 'report-500') {
+          return sendJson(res, 500, { error: 'Simulated failure: report generation crashed' });
+        }
+        const artifact = agentArtifact(analysis, agent);
+        return artifact ? sendJson(res, 200, artifact) : sendJson(res, 404, { error: `No artifact for agent '${agent}'` });
+      }
+
+      return sendJson(res, 404, { error: `Mock backend has no route for ${req.method} ${route}` });
+    });
+
+    server.config.logger.info(`  ➜  Mock analysis backend enabled (scenario: ${scenario})`);
+  },
+});
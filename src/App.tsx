@@ -1,8 +1,32 @@
+import { useEffect, useState } from 'react';
 import { ComplexityAnalyzer } from './components/ComplexityAnalyzer';
+import { LangGraphViewer } from './components/LangGraphViewer';
+import { PatternGuide } from './components/PatternGuide';
+
+const currentRoute = () => window.location.hash.replace(/^#/, '') || '/';
 
 function App() {
+  const [route, setRoute] = useState(currentRoute);
+
+  useEffect(() => {
+    const onHashChange = () => setRoute(currentRoute());
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, []);
+
+  const explorer = route === '/explorer';
+  const patterns = route === '/patterns' || route.startsWith('/patterns/');
+
+  // The analyzer stays mounted behind the other pages so its report, a run
+  // in flight or a batch survive a visit to the explorer or the guide
   return (
-    <ComplexityAnalyzer />
+    <>
+      <div className={explorer || patterns ? 'hidden' : undefined}>
+        <ComplexityAnalyzer />
+      </div>
+      {explorer && <LangGraphViewer />}
+      {patterns && <PatternGuide selected={route.split('/')[2]} />}
+    </>
   );
 }
 
@@ -0,0 +1,71 @@
+import { ApiError } from './errors';
+import { readJson, request } from './http';
+import { parseAnalysisReport, startAnalysisResponse, unwrapReport } from './schema';
+import { DEFAULT_STREAM_OPTIONS, streamProgress as streamPipeline } from './stream';
+import type { StreamHandlers, StreamOptions, StreamResult } from './stream';
+import type { AnalysisReport } from './types';
+
+export interface AnalysisClient {
+  startAnalysis: (code: string, signal?: AbortSignal) => Promise<string>;
+  streamProgress: (analysisId: string, handlers: StreamHandlers) => Promise<StreamResult>;
+  fetchReport: (analysisId: string, reportUrl?: string | null, signal?: AbortSignal) => Promise<AnalysisReport>;
+  fetchAgentArtifact: (analysisId: string, agent: string, artifactUrl?: string, signal?: AbortSignal) => Promise<Record<string, unknown>>;
+  cancelAnalysis: (analysisId: string) => Promise<void>;
+}
+
+export const createAnalysisClient = (
+  baseUrl = '/api',
+  streamOptions: StreamOptions = DEFAULT_STREAM_OPTIONS
+): AnalysisClient => {
+  const startAnalysis = async (code: string, signal?: AbortSignal): Promise<string> => {
+    const response = await request(`${baseUrl}/analyze`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ code }),
+      signal,
+    });
+    if (!response.ok) {
+      throw new ApiError(`Failed to start analysis: ${response.status} ${response.statusText}`, response.status);
+    }
+    return startAnalysisResponse(await readJson(response), '$').analysis_id;
+  };
+
+  const streamProgress = (analysisId: string, handlers: StreamHandlers) =>
+    streamPipeline(baseUrl, analysisId, handlers, streamOptions);
+
+  const fetchReport = async (analysisId: string, reportUrl?: string | null, signal?: AbortSignal): Promise<AnalysisReport> => {
+    const primaryUrl = reportUrl || `${baseUrl}/analysis/${analysisId}/agent/report/json`;
+    let response = await request(primaryUrl, { signal });
+
+    if (!response.ok) {
+      console.warn('Failed to fetch artifact report, trying default endpoint...');
+      response = await request(`${baseUrl}/report/${analysisId}`, { signal });
+      if (!response.ok) {
+        throw new ApiError(`Failed to fetch report: ${response.status} ${response.statusText}`, response.status);
+      }
+    }
+
+    return parseAnalysisReport(await readJson(response), analysisId);
+  };
+
+  // Raw output of a single agent, unwrapped from its { data } envelope
+  const fetchAgentArtifact = async (analysisId: string, agent: string, artifactUrl?: string, signal?: AbortSignal) => {
+    const response = await request(artifactUrl || `${baseUrl}/analysis/${analysisId}/agent/${agent}/json`, { signal });
+    if (!response.ok) {
+      throw new ApiError(`Failed to fetch ${agent} artifact: ${response.status} ${response.statusText}`, response.status);
+    }
+    return unwrapReport(await readJson(response));
+  };
+
+  // Asks the backend to stop the pipeline of an analysis
+  const cancelAnalysis = async (analysisId: string) => {
+    const response = await request(`${baseUrl}/analysis/${analysisId}/cancel`, { method: 'POST' });
+    if (!response.ok && response.status !== 404) {
+      throw new ApiError(`Failed to cancel analysis: ${response.status} ${response.statusText}`, response.status);
+    }
+  };
+
+  return { startAnalysis, streamProgress, fetchReport, fetchAgentArtifact, cancelAnalysis };
+};
+
+export const analysisClient = createAnalysisClient();
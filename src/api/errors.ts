@@ -0,0 +1,46 @@
+// Error types raised by the analysis API client
+
+export class ApiError extends Error {
+  readonly status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+// The backend could not be reached (network failure, proxy/gateway error)
+export class BackendUnavailableError extends ApiError {
+  constructor(message = 'El backend de análisis no está disponible', status?: number) {
+    super(message, status);
+    this.name = 'BackendUnavailableError';
+  }
+}
+
+// The backend answered, but the payload does not match the report schema
+export class MalformedReportError extends ApiError {
+  readonly path: string;
+
+  constructor(path: string, message: string) {
+    super(`Reporte mal formado en '${path}': ${message}`);
+    this.name = 'MalformedReportError';
+    this.path = path;
+  }
+}
+
+// A required field of the report is absent
+export class MissingFieldError extends MalformedReportError {
+  constructor(path: string) {
+    super(path, 'campo requerido ausente');
+    this.name = 'MissingFieldError';
+  }
+}
+
+export const isAbortError = (err: unknown): boolean =>
+  err instanceof DOMException && err.name === 'AbortError';
+
+export const describeError = (err: unknown): string => {
+  if (err instanceof Error) return err.message;
+  return String(err);
+};
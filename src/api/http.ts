@@ -0,0 +1,41 @@
+import { BackendUnavailableError, MalformedReportError, isAbortError } from './errors';
+
+export const UNAVAILABLE_STATUSES = new Set([502, 503, 504]);
+
+// fetch() that reports network failures and gateway errors as BackendUnavailableError
+export const request = async (url: string, init?: RequestInit): Promise<Response> => {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    throw new BackendUnavailableError();
+  }
+  if (UNAVAILABLE_STATUSES.has(response.status)) {
+    throw new BackendUnavailableError(`El backend no respondió (${response.status} ${response.statusText})`, response.status);
+  }
+  return response;
+};
+
+export const readJson = async (response: Response): Promise<unknown> => {
+  try {
+    return await response.json();
+  } catch {
+    throw new MalformedReportError('$', 'la respuesta no es JSON válido');
+  }
+};
+
+// Resolves after `ms`, or rejects with an AbortError as soon as `signal` aborts
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
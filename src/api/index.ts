@@ -0,0 +1,7 @@
+export { analysisClient, createAnalysisClient } from './client';
+export type { AnalysisClient } from './client';
+export { DEFAULT_STREAM_OPTIONS, isFailureEvent, isTerminalEvent, parsePipelineEvent } from './stream';
+export type { StreamHandlers, StreamOptions, StreamResult } from './stream';
+export { ApiError, BackendUnavailableError, MalformedReportError, MissingFieldError, describeError, isAbortError } from './errors';
+export { parseAnalysisReport } from './schema';
+export type * from './types';
@@ -0,0 +1,104 @@
+// Parses the Python literal reprs the backend sometimes sends instead of JSON,
+// e.g. "{'arith': [{'type': 'Expr', 'value': {'var': 'n'}}, 1]}".
+// Returns the raw text when it is not a literal (e.g. an already readable "n - 1").
+
+class PyLiteralError extends Error {}
+
+export const parsePythonLiteral = (text: string): unknown => {
+  let pos = 0;
+
+  const skipSpace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+  };
+
+  const expect = (char: string) => {
+    skipSpace();
+    if (text[pos] !== char) throw new PyLiteralError(`expected '${char}' at ${pos}`);
+    pos++;
+  };
+
+  const parseString = (): string => {
+    const quote = text[pos++];
+    let result = '';
+    while (pos < text.length && text[pos] !== quote) {
+      if (text[pos] === '\\') {
+        const next = text[++pos];
+        result += next === 'n' ? '\n' : next === 't' ? '\t' : next;
+      } else {
+        result += text[pos];
+      }
+      pos++;
+    }
+    if (text[pos] !== quote) throw new PyLiteralError('unterminated string');
+    pos++;
+    return result;
+  };
+
+  const parseSequence = (close: string): unknown[] => {
+    const items: unknown[] = [];
+    pos++;
+    skipSpace();
+    while (text[pos] !== close) {
+      items.push(parseValue());
+      skipSpace();
+      if (text[pos] === ',') pos++;
+      else if (text[pos] !== close) throw new PyLiteralError(`expected ',' or '${close}' at ${pos}`);
+      skipSpace();
+    }
+    pos++;
+    return items;
+  };
+
+  const parseDict = (): Record<string, unknown> => {
+    const result: Record<string, unknown> = {};
+    pos++;
+    skipSpace();
+    while (text[pos] !== '}') {
+      const key = parseValue();
+      expect(':');
+      result[String(key)] = parseValue();
+      skipSpace();
+      if (text[pos] === ',') pos++;
+      else if (text[pos] !== '}') throw new PyLiteralError(`expected ',' or '}' at ${pos}`);
+      skipSpace();
+    }
+    pos++;
+    return result;
+  };
+
+  const parseValue = (): unknown => {
+    skipSpace();
+    const char = text[pos];
+    if (char === '{') return parseDict();
+    if (char === '[') return parseSequence(']');
+    if (char === '(') return parseSequence(')');
+    if (char === "'" || char === '"') return parseString();
+
+    const word = /^(-?\d+(\.\d+)?|True|False|None|true|false|null)/.exec(text.slice(pos));
+    if (!word) throw new PyLiteralError(`unexpected '${char}' at ${pos}`);
+    pos += word[0].length;
+    switch (word[0]) {
+      case 'True':
+      case 'true':
+        return true;
+      case 'False':
+      case 'false':
+        return false;
+      case 'None':
+      case 'null':
+        return null;
+      default:
+        return Number(word[0]);
+    }
+  };
+
+  try {
+    const value = parseValue();
+    skipSpace();
+    if (pos !== text.length) throw new PyLiteralError('trailing characters');
+    return value;
+  } catch (err) {
+    if (err instanceof PyLiteralError) return text;
+    throw err;
+  }
+};
@@ -0,0 +1,309 @@
+import { MalformedReportError, MissingFieldError } from './errors';
+import { parsePythonLiteral } from './pyLiteral';
+import type {
+  AlgorithmicPattern,
+  AnalysisReport,
+  AnalysisStatusSnapshot,
+  Artifact,
+  AstNode,
+  CaseAnalysis,
+  ComplexityMetric,
+  ConditionalInfo,
+  ControlStructures,
+  DiagramData,
+  Hint,
+  Invariant,
+  LlmComparison,
+  LoopInfo,
+  Recurrence,
+  RecursionInfo,
+  Spec,
+  StartAnalysisResponse,
+  Validation,
+  ValidationIssue,
+} from './types';
+
+// Minimal runtime schema: each validator checks a value at `path` and
+// returns it typed, or throws MalformedReportError / MissingFieldError.
+export type Validator<T> = (value: unknown, path: string) => T;
+
+type Shape<T> = { [K in keyof T]-?: Validator<T[K]> };
+
+const typeOf = (value: unknown) => (Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value);
+
+const isAbsent = (value: unknown) => value === undefined || value === null;
+
+export const string: Validator<string> = (value, path) => {
+  if (isAbsent(value)) throw new MissingFieldError(path);
+  if (typeof value === 'number') return String(value);
+  if (typeof value !== 'string') throw new MalformedReportError(path, `se esperaba string, llegó ${typeOf(value)}`);
+  return value;
+};
+
+export const number: Validator<number> = (value, path) => {
+  if (isAbsent(value)) throw new MissingFieldError(path);
+  if (typeof value !== 'number' || Number.isNaN(value)) {
+    throw new MalformedReportError(path, `se esperaba number, llegó ${typeOf(value)}`);
+  }
+  return value;
+};
+
+export const boolean: Validator<boolean> = (value, path) => {
+  if (isAbsent(value)) throw new MissingFieldError(path);
+  if (typeof value !== 'boolean') throw new MalformedReportError(path, `se esperaba boolean, llegó ${typeOf(value)}`);
+  return value;
+};
+
+export const unknownValue: Validator<unknown> = (value) => value;
+
+export const optional = <T>(validator: Validator<T>): Validator<T | undefined> => (value, path) =>
+  isAbsent(value) ? undefined : validator(value, path);
+
+export const withDefault = <T>(validator: Validator<T>, fallback: T): Validator<T> => (value, path) =>
+  isAbsent(value) ? fallback : validator(value, path);
+
+export const array = <T>(item: Validator<T>): Validator<T[]> => (value, path) => {
+  if (isAbsent(value)) throw new MissingFieldError(path);
+  if (!Array.isArray(value)) throw new MalformedReportError(path, `se esperaba array, llegó ${typeOf(value)}`);
+  return value.map((v, i) => item(v, `${path}[${i}]`));
+};
+
+const asRecord = (value: unknown, path: string): Record<string, unknown> => {
+  if (isAbsent(value)) throw new MissingFieldError(path);
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new MalformedReportError(path, `se esperaba object, llegó ${typeOf(value)}`);
+  }
+  return value as Record<string, unknown>;
+};
+
+export const object = <T>(shape: Shape<T>): Validator<T> => (value, path) => {
+  const record = asRecord(value, path);
+  const result = {} as T;
+  for (const key of Object.keys(shape) as Array<keyof T & string>) {
+    const parsed = shape[key](record[key], `${path}.${key}`);
+    if (parsed !== undefined) result[key] = parsed;
+  }
+  return result;
+};
+
+export const record = <T>(item: Validator<T>): Validator<Record<string, T>> => (value, path) => {
+  const source = asRecord(value, path);
+  const result: Record<string, T> = {};
+  for (const [key, v] of Object.entries(source)) result[key] = item(v, `${path}.${key}`);
+  return result;
+};
+
+export const oneOf = <A, B>(first: Validator<A>, second: Validator<B>): Validator<A | B> => (value, path) => {
+  try {
+    return first(value, path);
+  } catch {
+    return second(value, path);
+  }
+};
+
+// --- Report schema ---------------------------------------------------------
+
+const complexityMetric = object<ComplexityMetric>({
+  big_o: string,
+  omega: optional(string),
+  theta: optional(string),
+});
+
+const caseAnalysis = object<CaseAnalysis>({
+  description: withDefault(string, ''),
+  complexity: string,
+  input_characteristics: optional(string),
+  model_assumptions: optional(string),
+});
+
+// Steps arrive either as a list or as a "- step" per line string
+const solutionSteps: Validator<string[]> = oneOf(array(string), (value, path) =>
+  string(value, path)
+    .split('\n')
+    .map(step => step.replace(/^- /, '').trim())
+    .filter(Boolean)
+);
+
+const recurrence = object<Recurrence>({
+  relation: string,
+  closed_form: withDefault(string, ''),
+  base_case: optional(string),
+  solution_steps: optional(solutionSteps),
+});
+
+const artifact = object<Artifact>({
+  artifact_type: string,
+  content: withDefault(string, ''),
+  metadata: optional(record(unknownValue)),
+});
+
+const diagramData = object<DiagramData>({
+  type: withDefault(string, 'diagram'),
+  name: withDefault(string, ''),
+  description: withDefault(string, ''),
+  mermaid: withDefault(string, ''),
+  syntax_valid: withDefault(boolean, true),
+});
+
+const validationIssue = object<ValidationIssue>({
+  code: optional(string),
+  severity: withDefault(string, 'INFO'),
+  message: string,
+});
+
+const llmComparison = object<LlmComparison>({
+  task: optional(string),
+  deterministic_result: optional(string),
+  ml_pattern: optional(string),
+  ml_confidence: optional(number),
+  concordance: optional(boolean),
+  analysis: optional(string),
+});
+
+const validation = object<Validation>({
+  status: string,
+  confidence: withDefault(number, 0),
+  bound_strength: optional(string),
+  consistency_checks: optional(record(unknownValue)),
+  issues: optional(array(validationIssue)),
+  llm_comparison: optional(llmComparison),
+});
+
+const hint = object<Hint>({
+  type: withDefault(string, 'hint'),
+  suggestion: string,
+  details: withDefault(string, ''),
+  priority: optional(string),
+});
+
+const algorithmicPattern = object<AlgorithmicPattern>({
+  pattern: string,
+  confidence: withDefault(number, 0),
+  description: withDefault(string, ''),
+  source: optional(string),
+});
+
+const spec = object<Spec>({
+  inputs: withDefault(array(string), []),
+  outputs: withDefault(array(string), []),
+  description: withDefault(string, ''),
+  preconditions: optional(array(string)),
+  postconditions: optional(array(string)),
+});
+
+const invariant = oneOf(
+  string,
+  object<Invariant>({
+    invariant: string,
+    confidence: optional(number),
+    validation: optional(string),
+  })
+);
+
+// Only the root is checked: the tree itself is walked defensively by the UI
+const astNode: Validator<AstNode> = (value, path) => {
+  const node = asRecord(value, path);
+  string(node.type, `${path}.type`);
+  return node as AstNode;
+};
+
+// Expressions arrive as trees or as their Python repr; empty means absent
+const expression: Validator<unknown> = (value) => {
+  if (typeof value !== 'string') return isAbsent(value) ? undefined : value;
+  return value.trim() === '' ? undefined : parsePythonLiteral(value);
+};
+
+const loopInfo = object<LoopInfo>({
+  type: withDefault(string, 'For'),
+  variable: withDefault(string, ''),
+  start: expression,
+  end: expression,
+  step: expression,
+  advance_type: withDefault(string, 'unknown'),
+  depth: withDefault(number, 0),
+  parent: optional(string),
+});
+
+const conditionalInfo = object<ConditionalInfo>({
+  type: withDefault(string, 'If'),
+  condition: expression,
+  depth: withDefault(number, 0),
+  has_else: withDefault(boolean, false),
+});
+
+const recursionInfo = object<RecursionInfo>({
+  is_recursive: withDefault(boolean, false),
+  calls: withDefault(array(expression), []),
+});
+
+const controlStructures = object<ControlStructures>({
+  loops: withDefault(array(loopInfo), []),
+  conditionals: withDefault(array(conditionalInfo), []),
+  max_nesting_depth: withDefault(number, 0),
+  recursion_info: optional(recursionInfo),
+});
+
+export const startAnalysisResponse = object<StartAnalysisResponse>({
+  analysis_id: string,
+});
+
+export const statusSnapshot = object<AnalysisStatusSnapshot>({
+  analysis_id: string,
+  status: string,
+  events: withDefault(array(object<AnalysisStatusSnapshot['events'][number]>({
+    id: string,
+    data: unknownValue,
+  })), []),
+});
+
+// The report endpoints wrap the payload as { data }, { report } or return it
+// bare, and the complexity block may be nested under complexity_analysis.
+export const unwrapReport = (body: unknown): Record<string, unknown> => {
+  const root = asRecord(body, '$');
+  const inner = root.data ?? root.report;
+  return inner && typeof inner === 'object' && !Array.isArray(inner)
+    ? (inner as Record<string, unknown>)
+    : root;
+};
+
+export const parseAnalysisReport = (body: unknown, fallbackId?: string): AnalysisReport => {
+  const root = asRecord(body, '$');
+  const payload = unwrapReport(body);
+  const nested = payload.complexity_analysis;
+  const complexitySource =
+    nested && typeof nested === 'object' && !Array.isArray(nested) ? (nested as Record<string, unknown>) : payload;
+  const base = nested ? '$.complexity_analysis' : '$';
+
+  const analysisId = payload.analysis_id ?? root.analysis_id ?? fallbackId;
+
+  return {
+    analysis_id: string(analysisId, '$.analysis_id'),
+    complexity_analysis: {
+      complexity: object<AnalysisReport['complexity_analysis']['complexity']>({
+        time: complexityMetric,
+        space: complexityMetric,
+      })(complexitySource.complexity ?? payload.complexity, `${base}.complexity`),
+      cases: optional(object<NonNullable<AnalysisReport['complexity_analysis']['cases']>>({
+        best: optional(caseAnalysis),
+        worst: optional(caseAnalysis),
+        average: optional(caseAnalysis),
+      }))(complexitySource.cases ?? payload.cases, `${base}.cases`),
+      recurrence: optional(recurrence)(complexitySource.recurrence ?? payload.recurrence, `${base}.recurrence`),
+    },
+    explanation: withDefault(string, '')(payload.explanation, '$.explanation'),
+    artifacts: optional(record(artifact))(payload.artifacts, '$.artifacts'),
+    diagram: optional(object<NonNullable<AnalysisReport['diagram']>>({
+      diagram: optional(diagramData),
+      diagrams: optional(array(diagramData)),
+    }))(payload.diagram, '$.diagram'),
+    validation: optional(validation)(payload.validation, '$.validation'),
+    hints: optional(array(hint))(payload.hints, '$.hints'),
+    spec: optional(spec)(payload.spec, '$.spec'),
+    pseudocode_normalized: optional(string)(payload.pseudocode_normalized, '$.pseudocode_normalized'),
+    pseudocode_with_costs: optional(string)(payload.pseudocode_with_costs, '$.pseudocode_with_costs'),
+    invariant_or_rule: optional(invariant)(payload.invariant_or_rule, '$.invariant_or_rule'),
+    ast: optional(astNode)(payload.ast, '$.ast'),
+    control_structures: optional(controlStructures)(payload.control_structures, '$.control_structures'),
+    algorithmic_patterns: optional(array(algorithmicPattern))(payload.algorithmic_patterns, '$.algorithmic_patterns'),
+  };
+};
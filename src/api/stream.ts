@@ -0,0 +1,321 @@
+import { fetchEventSource } from '@microsoft/fetch-event-source';
+import { ApiError, BackendUnavailableError, isAbortError } from './errors';
+import { UNAVAILABLE_STATUSES, readJson, request, sleep } from './http';
+import { statusSnapshot } from './schema';
+import type { PipelineEvent } from './types';
+
+// Messages longer than this (or that look like source code) are backend
+// debug output leaking into the stream and are dropped.
+const MAX_EVENT_LENGTH = 1000;
+
+// Status codes meaning "this server has no SSE endpoint": poll instead
+const SSE_UNSUPPORTED_STATUSES = new Set([404, 405, 501]);
+
+export interface StreamHandlers {
+  signal?: AbortSignal;
+  // Called on every successful connection; `resumedFrom` is the last event id
+  // when the stream is resumed after a reconnect.
+  onOpen?: (resumedFrom?: string) => void;
+  onEvent: (event: PipelineEvent) => void;
+  onClose?: () => void;
+  // The connection dropped; attempt number `attempt` follows in `delayMs`
+  onReconnecting?: (attempt: number, delayMs: number) => void;
+  // SSE is unusable, progress is now polled from /analysis/{id}/status
+  onFallback?: (reason: string) => void;
+}
+
+export interface StreamOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  pollIntervalMs: number;
+  // Silence after which the stream is suspected of being buffered by a proxy
+  stallTimeoutMs: number;
+}
+
+export const DEFAULT_STREAM_OPTIONS: StreamOptions = {
+  maxRetries: 5,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  pollIntervalMs: 1500,
+  stallTimeoutMs: 15000,
+};
+
+export interface StreamResult {
+  // Report artifact URL announced by the pipeline, if any
+  reportUrl: string | null;
+}
+
+class SseUnsupportedError extends Error {}
+
+type ConnectionOutcome =
+  | { type: 'terminal' }
+  | { type: 'closed'; received: number }
+  | { type: 'failed'; error: unknown }
+  | { type: 'fallback'; reason: string };
+
+const looksLikeLeakedCode = (data: string) =>
+  data.includes('from typing import') ||
+  (data.includes('class ') && data.includes('def ')) ||
+  data.includes('"""') ||
+  data.length > MAX_EVENT_LENGTH;
+
+// Typed event from an already-decoded payload; null means "ignore".
+export const toPipelineEvent = (data: unknown): PipelineEvent | null => {
+  if (data === null || data === undefined) return null;
+  if (typeof data !== 'object') return { kind: 'message', message: String(data) };
+  const record = data as Record<string, unknown>;
+
+  if (typeof record.agent === 'string') {
+    return {
+      kind: 'agent',
+      agent: record.agent,
+      state: typeof record.state === 'string' ? record.state : undefined,
+      summary: typeof record.summary === 'string' ? record.summary : undefined,
+      duration_ms: typeof record.duration_ms === 'number' ? record.duration_ms : undefined,
+      complexity: record.complexity,
+      artifacts:
+        record.artifacts && typeof record.artifacts === 'object'
+          ? (record.artifacts as Record<string, string>)
+          : undefined,
+    };
+  }
+  if (typeof record.status === 'string') {
+    return { kind: 'status', status: record.status, message: typeof record.message === 'string' ? record.message : undefined };
+  }
+  if (typeof record.message === 'string') return { kind: 'message', message: record.message };
+  if (typeof record.progress === 'number') return { kind: 'progress', progress: record.progress };
+  return null;
+};
+
+// Turns one raw SSE payload into a typed event; null means "ignore".
+export const parsePipelineEvent = (raw: string): PipelineEvent | null => {
+  if (!raw || raw.trim() === '') return null;
+  if (looksLikeLeakedCode(raw)) {
+    console.warn('Filtered large/code message from SSE');
+    return null;
+  }
+
+  try {
+    return toPipelineEvent(JSON.parse(raw));
+  } catch {
+    // Plain text message
+    const message = raw.trim();
+    return message.length < 500 ? { kind: 'message', message } : null;
+  }
+};
+
+export const isTerminalEvent = (event: PipelineEvent): boolean => {
+  switch (event.kind) {
+    case 'agent':
+      return (event.agent === 'pipeline' || event.agent === 'report') && event.state === 'finished';
+    case 'status':
+      return event.status === 'completed' || event.status === 'finished';
+    case 'message': {
+      const text = event.message.toLowerCase();
+      return text.includes('analysis complete') || text.includes('pipeline finished');
+    }
+    default:
+      return false;
+  }
+};
+
+// The pipeline as a whole gave up; no report will follow
+export const isFailureEvent = (event: PipelineEvent): boolean =>
+  (event.kind === 'agent' && event.agent === 'pipeline' && event.state === 'error') ||
+  (event.kind === 'status' && event.status === 'error');
+
+// Network drops, gateway errors and 5xx are worth another attempt; 4xx are not
+const isRetriable = (err: unknown) =>
+  !(err instanceof ApiError) || err instanceof BackendUnavailableError || (err.status ?? 0) >= 500;
+
+const backoffDelay = (attempt: number, { baseDelayMs, maxDelayMs }: StreamOptions) =>
+  Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1)) + Math.round(Math.random() * baseDelayMs);
+
+export const streamProgress = async (
+  baseUrl: string,
+  analysisId: string,
+  handlers: StreamHandlers,
+  options: StreamOptions = DEFAULT_STREAM_OPTIONS
+): Promise<StreamResult> => {
+  const { signal, onOpen, onEvent, onClose, onReconnecting, onFallback } = handlers;
+  const result: StreamResult = { reportUrl: null };
+  const seenIds = new Set<string>();
+  let lastEventId: string | undefined;
+  let delivered = 0;
+  let failure: PipelineEvent | null = null;
+
+  // Delivers one event unless it was already seen; true once the stream is done
+  const deliver = (id: string | undefined, event: PipelineEvent | null): boolean => {
+    if (id) {
+      if (seenIds.has(id)) return false;
+      seenIds.add(id);
+      lastEventId = id;
+    }
+    if (!event) return false;
+    delivered++;
+    onEvent(event);
+
+    // The report agent's artifact wins over earlier ones
+    if (event.kind === 'agent' && event.artifacts?.json) {
+      if (event.agent === 'report' || !result.reportUrl) result.reportUrl = event.artifacts.json;
+    }
+
+    if (isFailureEvent(event)) failure = event;
+    return failure !== null || isTerminalEvent(event);
+  };
+
+  const finish = (): StreamResult => {
+    if (failure) {
+      const summary = failure.kind === 'agent' ? failure.summary : failure.kind === 'status' ? failure.message : undefined;
+      throw new ApiError(`El pipeline terminó con error${summary ? `: ${summary}` : ''}`);
+    }
+    return result;
+  };
+
+  const fetchSnapshot = async () => {
+    const after = lastEventId ? `?after=${encodeURIComponent(lastEventId)}` : '';
+    const response = await request(`${baseUrl}/analysis/${encodeURIComponent(analysisId)}/status${after}`, { signal });
+    if (!response.ok) {
+      throw new ApiError(`Failed to poll analysis status: ${response.status} ${response.statusText}`, response.status);
+    }
+    return statusSnapshot(await readJson(response), '$');
+  };
+
+  const connectOnce = () =>
+    new Promise<ConnectionOutcome>((resolve, reject) => {
+      const ctrl = new AbortController();
+      const deliveredBefore = delivered;
+      let settled = false;
+      let stallTimer: ReturnType<typeof setTimeout> | undefined;
+
+      const settle = (outcome: ConnectionOutcome) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(stallTimer);
+        signal?.removeEventListener('abort', onAbort);
+        ctrl.abort();
+        resolve(outcome);
+      };
+      const onAbort = () => {
+        settled = true;
+        clearTimeout(stallTimer);
+        ctrl.abort();
+        reject(new DOMException('Analysis stream aborted', 'AbortError'));
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      // A proxy buffering the stream looks like silence while the analysis
+      // actually progresses: confirm by polling before switching over.
+      const armStallTimer = () => {
+        clearTimeout(stallTimer);
+        stallTimer = setTimeout(async () => {
+          try {
+            if ((await fetchSnapshot()).events.length > 0) {
+              return settle({ type: 'fallback', reason: 'el stream SSE no entrega eventos (¿proxy con buffer?)' });
+            }
+          } catch {
+            // Inconclusive, keep waiting on the stream
+          }
+          if (!settled) armStallTimer();
+        }, options.stallTimeoutMs);
+      };
+
+      fetchEventSource(`${baseUrl}/status?analysis_id=${encodeURIComponent(analysisId)}`, {
+        method: 'GET',
+        signal: ctrl.signal,
+        headers: lastEventId ? { 'Last-Event-ID': lastEventId } : {},
+        openWhenHidden: true,
+
+        async onopen(response) {
+          const contentType = response.headers.get('content-type') ?? '';
+          if (response.ok && contentType.startsWith('text/event-stream')) {
+            onOpen?.(lastEventId);
+            armStallTimer();
+            return;
+          }
+          if (SSE_UNSUPPORTED_STATUSES.has(response.status) || response.ok) {
+            throw new SseUnsupportedError(`el endpoint SSE respondió ${response.status} ${contentType || ''}`.trim());
+          }
+          if (UNAVAILABLE_STATUSES.has(response.status)) {
+            throw new BackendUnavailableError(`Failed to connect to SSE: ${response.status}`, response.status);
+          }
+          throw new ApiError(`Failed to connect to SSE: ${response.statusText}`, response.status);
+        },
+
+        onmessage(msg) {
+          armStallTimer();
+          if (deliver(msg.id || undefined, parsePipelineEvent(msg.data))) settle({ type: 'terminal' });
+        },
+
+        onerror(err) {
+          // Rethrowing stops fetchEventSource from retrying on its own;
+          // reconnection is handled below with backoff and resume.
+          throw err;
+        },
+
+        onclose() {
+          settle({ type: 'closed', received: delivered - deliveredBefore });
+        },
+      })
+        .then(() => settle({ type: 'closed', received: delivered - deliveredBefore }))
+        .catch(error =>
+          settle(error instanceof SseUnsupportedError ? { type: 'fallback', reason: error.message } : { type: 'failed', error })
+        );
+    });
+
+  const poll = async (): Promise<StreamResult> => {
+    let failures = 0;
+    for (;;) {
+      let delay = options.pollIntervalMs;
+      try {
+        const snapshot = await fetchSnapshot();
+        failures = 0;
+        for (const entry of snapshot.events) {
+          if (deliver(entry.id, toPipelineEvent(entry.data))) return finish();
+        }
+        const status = snapshot.status.toLowerCase();
+        if (status === 'completed' || status === 'finished') return finish();
+        if (status === 'error' || status === 'cancelled') {
+          throw new ApiError(`El análisis terminó con estado ${snapshot.status}`);
+        }
+      } catch (err) {
+        if (isAbortError(err) || !isRetriable(err) || ++failures > options.maxRetries) throw err;
+        delay = backoffDelay(failures, options);
+        onReconnecting?.(failures, delay);
+      }
+      await sleep(delay, signal);
+    }
+  };
+
+  let attempt = 0;
+  for (;;) {
+    const outcome = await connectOnce();
+
+    if (outcome.type === 'terminal') {
+      onClose?.();
+      return finish();
+    }
+    if (outcome.type === 'fallback') {
+      onFallback?.(outcome.reason);
+      return poll();
+    }
+    // A clean close that brought nothing new means the server has no more events
+    if (outcome.type === 'closed' && outcome.received === 0) {
+      onClose?.();
+      return finish();
+    }
+    if (outcome.type === 'closed') attempt = 0;
+
+    if (outcome.type === 'failed' && !isRetriable(outcome.error)) throw outcome.error;
+
+    attempt++;
+    if (attempt > options.maxRetries) {
+      onFallback?.('no fue posible reconectar el stream SSE');
+      return poll();
+    }
+    const delay = backoffDelay(attempt, options);
+    onReconnecting?.(attempt, delay);
+    await sleep(delay, signal);
+  }
+};
@@ -0,0 +1,205 @@
+// Shapes exchanged with the analysis backend
+
+export interface ComplexityMetric {
+  big_o: string;
+  omega?: string;
+  theta?: string;
+}
+
+export interface Artifact {
+  artifact_type: string;
+  content: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface CaseAnalysis {
+  description: string;
+  complexity: string;
+  input_characteristics?: string;
+  model_assumptions?: string;
+}
+
+export interface Recurrence {
+  relation: string;
+  closed_form: string;
+  base_case?: string;
+  solution_steps?: string[];
+}
+
+export interface DiagramData {
+  type: string;
+  name: string;
+  description: string;
+  mermaid: string;
+  syntax_valid: boolean;
+}
+
+export interface ValidationIssue {
+  code?: string;
+  severity: string;
+  message: string;
+}
+
+export interface LlmComparison {
+  task?: string;
+  deterministic_result?: string;
+  ml_pattern?: string;
+  ml_confidence?: number;
+  concordance?: boolean;
+  analysis?: string;
+}
+
+export interface Validation {
+  status: string;
+  confidence: number;
+  bound_strength?: string;
+  consistency_checks?: Record<string, unknown>;
+  issues?: ValidationIssue[];
+  llm_comparison?: LlmComparison;
+}
+
+export interface AlgorithmicPattern {
+  pattern: string;
+  confidence: number;
+  description: string;
+  // "ml_model" for the classifier; absent for the rule-based detector
+  source?: string;
+}
+
+export interface Hint {
+  type: string;
+  suggestion: string;
+  details: string;
+  priority?: string;
+}
+
+export interface Spec {
+  inputs: string[];
+  outputs: string[];
+  description: string;
+  preconditions?: string[];
+  postconditions?: string[];
+}
+
+export interface Invariant {
+  invariant: string;
+  confidence?: number;
+  validation?: string;
+}
+
+// Parser output. Nodes are tagged by `type` (Program, Function, Block, For,
+// While, If, Assign, Return, Call, Expr, ArrayAccess); expression values nest
+// as { var }, { arith: [...] } or { cmp: [lhs, op, rhs] }.
+export interface AstNode {
+  type: string;
+  [field: string]: unknown;
+}
+
+// Analyzer output. Bounds and conditions are expression trees (see AstNode);
+// the backend sends them as Python reprs, which the schema decodes.
+export interface LoopInfo {
+  type: string;
+  variable: string;
+  start?: unknown;
+  end?: unknown;
+  step?: unknown;
+  // linear, multiplicative, divisive, …
+  advance_type: string;
+  depth: number;
+  parent?: string;
+}
+
+export interface ConditionalInfo {
+  type: string;
+  condition?: unknown;
+  depth: number;
+  has_else: boolean;
+}
+
+export interface RecursionInfo {
+  is_recursive: boolean;
+  calls: unknown[];
+}
+
+export interface ControlStructures {
+  loops: LoopInfo[];
+  conditionals: ConditionalInfo[];
+  max_nesting_depth: number;
+  recursion_info?: RecursionInfo;
+}
+
+export interface AnalysisReport {
+  analysis_id: string;
+  complexity_analysis: {
+    complexity: {
+      time: ComplexityMetric;
+      space: ComplexityMetric;
+    };
+    cases?: {
+      best?: CaseAnalysis;
+      worst?: CaseAnalysis;
+      average?: CaseAnalysis;
+    };
+    recurrence?: Recurrence;
+  };
+  explanation: string;
+  artifacts?: {
+    [key: string]: Artifact;
+  };
+  diagram?: {
+    diagram?: DiagramData;
+    diagrams?: DiagramData[];
+  };
+  validation?: Validation;
+  hints?: Hint[];
+  spec?: Spec;
+  pseudocode_normalized?: string;
+  pseudocode_with_costs?: string;
+  invariant_or_rule?: string | Invariant;
+  ast?: AstNode;
+  control_structures?: ControlStructures;
+  algorithmic_patterns?: AlgorithmicPattern[];
+}
+
+export type AgentState = 'started' | 'running' | 'finished' | 'error' | 'skipped';
+
+// One message of the /api/status SSE stream
+export interface AgentEvent {
+  kind: 'agent';
+  agent: string;
+  state?: AgentState | string;
+  summary?: string;
+  duration_ms?: number;
+  complexity?: unknown;
+  artifacts?: Record<string, string>;
+}
+
+export interface StatusEvent {
+  kind: 'status';
+  status: string;
+  message?: string;
+}
+
+export interface MessageEvent {
+  kind: 'message';
+  message: string;
+}
+
+export interface ProgressEvent {
+  kind: 'progress';
+  progress: number;
+}
+
+export type PipelineEvent = AgentEvent | StatusEvent | MessageEvent | ProgressEvent;
+
+export interface StartAnalysisResponse {
+  analysis_id: string;
+}
+
+// GET /analysis/{id}/status: polling fallback for the SSE stream.
+// `events` holds the stream events after the requested event id.
+export interface AnalysisStatusSnapshot {
+  analysis_id: string;
+  status: string;
+  events: Array<{ id: string; data: unknown }>;
+}
@@ -0,0 +1,72 @@
+import React from 'react';
+import { BookOpen, Puzzle } from 'lucide-react';
+import type { AlgorithmicPattern } from '../api';
+import { findPattern, patternHref, patternLabel } from '../lib/patterns';
+import { TeX } from './TeX';
+
+interface AlgorithmicPatternsPanelProps {
+  patterns: AlgorithmicPattern[];
+}
+
+const sourceBadge = (source?: string) =>
+  source === 'ml_model'
+    ? { label: 'Modelo ML', color: 'bg-purple-900 text-purple-300' }
+    : !source || source === 'rules' || source === 'rule_based'
+      ? { label: 'Reglas', color: 'bg-blue-900 text-blue-300' }
+      : { label: source.replace(/_/g, ' '), color: 'bg-gray-700 text-gray-300' };
+
+export const AlgorithmicPatternsPanel: React.FC<AlgorithmicPatternsPanelProps> = ({ patterns }) => {
+  const sorted = [...patterns].sort((a, b) => b.confidence - a.confidence);
+
+  return (
+    <div className="bg-gray-900 rounded-xl p-6 border border-gray-800 shadow-xl">
+      <div className="flex items-center justify-between mb-4 border-b border-gray-800 pb-2">
+        <h2 className="text-lg font-semibold text-gray-300 flex items-center gap-2">
+          <Puzzle className="w-5 h-5" /> Patrones Algorítmicos
+        </h2>
+        <a href="#/patterns" className="text-xs text-gray-500 hover:text-gray-300 transition-colors">
+          Catálogo de patrones →
+        </a>
+      </div>
+
+      <ul className="space-y-4">
+        {sorted.map((pattern, i) => {
+          const reference = findPattern(pattern.pattern);
+          const badge = sourceBadge(pattern.source);
+          return (
+            <li key={i}>
+              <div className="flex items-center gap-2">
+                <span className="text-gray-200 font-medium">{patternLabel(pattern.pattern)}</span>
+                <span className="font-mono text-xs text-gray-600">{pattern.pattern}</span>
+                <span className={`text-[10px] px-1.5 rounded shrink-0 ${badge.color}`}>{badge.label}</span>
+                {reference && (
+                  <span className="ml-auto text-sm text-gray-400 [&_p]:inline">
+                    <TeX tex={reference.complexity} />
+                  </span>
+                )}
+              </div>
+              <div className="mt-1 flex items-center gap-2">
+                <div className="h-1.5 flex-1 bg-gray-800 rounded-full overflow-hidden">
+                  <div
+                    className={`h-full ${pattern.source === 'ml_model' ? 'bg-purple-500' : 'bg-blue-500'}`}
+                    style={{ width: `${Math.min(1, Math.max(0, pattern.confidence)) * 100}%` }}
+                  />
+                </div>
+                <span className="text-xs text-gray-400 w-12 text-right">{(pattern.confidence * 100).toFixed(1)}%</span>
+              </div>
+              {pattern.description && <p className="mt-1 text-sm text-gray-400">{pattern.description}</p>}
+              {reference && (
+                <a
+                  href={patternHref(pattern.pattern)}
+                  className="mt-1 inline-flex items-center gap-1 text-xs text-blue-400 hover:text-blue-300 transition-colors"
+                >
+                  <BookOpen className="w-3 h-3" /> Ver referencia: {reference.name}
+                </a>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,149 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, GitBranch } from 'lucide-react';
+import type { AstNode } from '../api';
+import { UNKNOWN_OP, childrenOf, diffAst, expressionFields, formatExpr, mapAstToLines, nodeLabel, resolveOperators } from '../lib/ast';
+import type { LineRange } from '../lib/ast';
+
+interface AstExplorerProps {
+  ast: AstNode;
+  // Source the AST is matched against to locate and complete statements
+  source: string;
+  // Client-side parse of the same source, compared against the backend tree
+  localAst?: AstNode | null;
+  selected: AstNode | null;
+  onSelect: (node: AstNode | null, lines: LineRange | null) => void;
+}
+
+const TYPE_COLORS: Record<string, string> = {
+  Program: 'bg-gray-700 text-gray-300',
+  Function: 'bg-blue-900 text-blue-300',
+  Block: 'bg-gray-800 text-gray-400',
+  For: 'bg-green-900 text-green-300',
+  While: 'bg-green-900 text-green-300',
+  If: 'bg-yellow-900 text-yellow-300',
+  Assign: 'bg-purple-900 text-purple-300',
+  Return: 'bg-pink-900 text-pink-300',
+  Call: 'bg-orange-900 text-orange-300',
+};
+
+interface TreeNodeProps {
+  node: AstNode;
+  edge?: string;
+  depth: number;
+  ranges: Map<AstNode, LineRange>;
+  lines: string[];
+  selected: AstNode | null;
+  onSelect: AstExplorerProps['onSelect'];
+}
+
+const TreeNode: React.FC<TreeNodeProps> = ({ node, edge, depth, ranges, lines, selected, onSelect }) => {
+  // Blocks are noise at depth; keep the outer levels open by default
+  const [open, setOpen] = useState(depth < 6);
+  const [showFields, setShowFields] = useState(false);
+  const children = childrenOf(node);
+  const range = ranges.get(node);
+  const sourceLine = range ? lines[range.start] : undefined;
+  const fields = expressionFields(node);
+  const isSelected = selected === node;
+
+  return (
+    <li>
+      <div
+        className={`flex items-center gap-1 rounded px-1 py-0.5 cursor-pointer ${isSelected ? 'bg-blue-900/50' : 'hover:bg-gray-800'}`}
+        onClick={() => onSelect(isSelected ? null : node, isSelected ? null : range ?? null)}
+      >
+        <button
+          className="w-4 h-4 flex items-center justify-center text-gray-500 shrink-0"
+          onClick={(e) => {
+            e.stopPropagation();
+            setOpen(!open);
+          }}
+          disabled={children.length === 0}
+        >
+          {children.length > 0 && (open ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />)}
+        </button>
+        {edge && <span className="text-[10px] text-gray-500 font-bold">{edge}</span>}
+        <span className={`text-[10px] px-1.5 rounded ${TYPE_COLORS[node.type] ?? 'bg-gray-700 text-gray-300'}`}>{node.type}</span>
+        <span className="font-mono text-gray-300 truncate">{node.type === 'Block' || node.type === 'Program' ? '' : nodeLabel(node, sourceLine)}</span>
+        {range && (
+          <span className="ml-auto text-[10px] text-gray-600 shrink-0">
+            L{range.start + 1}{range.end > range.start ? `–${range.end + 1}` : ''}
+          </span>
+        )}
+        {fields.length > 0 && (
+          <button
+            className={`text-[10px] shrink-0 ${range ? 'ml-1' : 'ml-auto'} text-gray-500 hover:text-gray-300`}
+            onClick={(e) => {
+              e.stopPropagation();
+              setShowFields(!showFields);
+            }}
+            title="Ver expresiones"
+          >
+            {'{…}'}
+          </button>
+        )}
+      </div>
+
+      {showFields && (
+        <dl className="ml-10 my-1 text-[11px] font-mono grid grid-cols-[auto_1fr] gap-x-2">
+          {fields.map(([key, value]) => (
+            <React.Fragment key={key}>
+              <dt className="text-gray-500">{key}</dt>
+              <dd className="text-gray-300" title={JSON.stringify(value)}>{resolveOperators(formatExpr(value), sourceLine)}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+      )}
+
+      {open && children.length > 0 && (
+        <ul className="ml-4 border-l border-gray-800 pl-1">
+          {children.map((child, i) => (
+            <TreeNode
+              key={i}
+              node={child.node}
+              edge={child.label}
+              depth={depth + 1}
+              ranges={ranges}
+              lines={lines}
+              selected={selected}
+              onSelect={onSelect}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+export const AstExplorer: React.FC<AstExplorerProps> = ({ ast, source, localAst, selected, onSelect }) => {
+  const ranges = useMemo(() => mapAstToLines(ast, source), [ast, source]);
+  const lines = useMemo(() => source.split('\n'), [source]);
+  const differences = useMemo(() => (localAst ? diffAst(localAst, ast) : null), [localAst, ast]);
+
+  return (
+    <div className="bg-gray-900 rounded-xl p-6 border border-gray-800 shadow-xl">
+      <div className="flex items-center justify-between mb-4 border-b border-gray-800 pb-2">
+        <h2 className="text-lg font-semibold text-gray-300 flex items-center gap-2">
+          <GitBranch className="w-5 h-5" /> Abstract Syntax Tree
+        </h2>
+        <span className="text-xs text-gray-500">Selecciona un nodo para resaltarlo en el código</span>
+      </div>
+      {differences && (
+        <div
+          className={`mb-3 text-xs ${differences.length === 0 ? 'text-green-500' : 'text-yellow-400'}`}
+          title={differences.join('\n') || undefined}
+        >
+          {differences.length === 0
+            ? '✓ Coincide con el parser local'
+            : `⚠ Difiere del parser local en ${differences.length}${differences.length >= 20 ? '+' : ''} punto(s), p. ej. ${differences[0]}`}
+        </div>
+      )}
+      <ul className="text-xs max-h-[28rem] overflow-y-auto">
+        <TreeNode node={ast} depth={0} ranges={ranges} lines={lines} selected={selected} onSelect={onSelect} />
+      </ul>
+      <p className="mt-3 text-[10px] text-gray-600">
+        {UNKNOWN_OP} marca un operador que el AST no conserva y no se pudo recuperar del código fuente.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,290 @@
+import React, { useRef, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import { CheckCircle, FileJson, FileSpreadsheet, Layers, Loader2, Play, Square, X, XCircle } from 'lucide-react';
+import { batchRow, batchToCsv, batchToJson, queueBatch, runBatch } from '../lib/batch';
+import type { BatchItem, BatchStatus } from '../lib/batch';
+import { downloadFile } from '../lib/download';
+import { PREDEFINED_ALGORITHMS } from '../lib/presets';
+import { checkExpectations } from '../lib/regression';
+
+interface BatchRunnerProps {
+  // Shows a finished run in the report panel
+  onOpen: (item: BatchItem) => void;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<BatchStatus, { label: string; color: string }> = {
+  queued: { label: 'en cola', color: 'bg-gray-800 text-gray-400' },
+  running: { label: 'analizando', color: 'bg-blue-900 text-blue-200 animate-pulse' },
+  done: { label: 'listo', color: 'bg-green-900 text-green-300' },
+  error: { label: 'error', color: 'bg-red-900 text-red-300' },
+  cancelled: { label: 'cancelado', color: 'bg-yellow-900 text-yellow-300' },
+};
+
+const VALIDATION_COLORS: Record<string, string> = {
+  APPROVED: 'text-green-400',
+  WEAK: 'text-yellow-400',
+  REJECTED: 'text-red-400',
+};
+
+const MAX_CONCURRENCY = 8;
+
+const Bound: React.FC<{ value: string }> = ({ value }) =>
+  value ? (
+    <ReactMarkdown remarkPlugins={[remarkMath]} rehypePlugins={[rehypeKatex]}>
+      {`$${value}$`}
+    </ReactMarkdown>
+  ) : (
+    <span className="text-gray-600">—</span>
+  );
+
+// Runs the preset catalogue (or a subset) against the backend and tabulates
+// the results; the main smoke test after a backend update
+export const BatchRunner: React.FC<BatchRunnerProps> = ({ onOpen, onClose }) => {
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(PREDEFINED_ALGORITHMS.map(p => p.name)));
+  const [concurrency, setConcurrency] = useState(2);
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [running, setRunning] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const toggle = (name: string) =>
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(name)) next.delete(name);
+      else next.add(name);
+      return next;
+    });
+
+  const handleRun = async () => {
+    const queue = queueBatch(PREDEFINED_ALGORITHMS.filter(p => selected.has(p.name)));
+    if (queue.length === 0) return;
+    const ctrl = new AbortController();
+    abortRef.current = ctrl;
+    setItems(queue);
+    setRunning(true);
+    await runBatch(queue, {
+      concurrency,
+      signal: ctrl.signal,
+      onUpdate: (index, patch) => setItems(prev => prev.map((item, i) => (i === index ? { ...item, ...patch } : item))),
+    });
+    setRunning(false);
+  };
+
+  const finished = items.filter(item => item.status !== 'queued' && item.status !== 'running').length;
+  const rows = items.map(batchRow);
+  const passed = rows.filter(row => row.regression === 'pass').length;
+  const failed = items.filter((_, i) => rows[i].regression === 'fail');
+  const stamp = () => new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+
+  return (
+    <div className="bg-gray-900 rounded-xl p-6 border border-gray-800 shadow-xl">
+      <div className="flex items-center justify-between mb-4 border-b border-gray-800 pb-2">
+        <h2 className="text-lg font-semibold text-gray-300 flex items-center gap-2">
+          <Layers className="w-5 h-5" /> Análisis por lotes
+        </h2>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-300" title="Cerrar el análisis por lotes">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-sm text-gray-500 uppercase tracking-wider font-bold">
+          Algoritmos ({selected.size}/{PREDEFINED_ALGORITHMS.length})
+        </span>
+        <div className="flex gap-3 text-xs">
+          <button
+            onClick={() => setSelected(new Set(PREDEFINED_ALGORITHMS.map(p => p.name)))}
+            disabled={running}
+            className="text-gray-400 hover:text-white disabled:opacity-50"
+          >
+            Todos
+          </button>
+          <button onClick={() => setSelected(new Set())} disabled={running} className="text-gray-400 hover:text-white disabled:opacity-50">
+            Ninguno
+          </button>
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-1 mb-4 text-sm">
+        {PREDEFINED_ALGORITHMS.map(preset => (
+          <label key={preset.name} className="flex items-center gap-2 text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={selected.has(preset.name)}
+              onChange={() => toggle(preset.name)}
+              disabled={running}
+              className="accent-blue-500"
+            />
+            {preset.name}
+          </label>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-4 mb-6">
+        <label className="flex items-center gap-2 text-sm text-gray-400">
+          Concurrencia
+          <input
+            type="number"
+            min={1}
+            max={MAX_CONCURRENCY}
+            value={concurrency}
+            onChange={e => setConcurrency(Math.min(MAX_CONCURRENCY, Math.max(1, Number(e.target.value) || 1)))}
+            disabled={running}
+            className="w-16 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-gray-200"
+          />
+        </label>
+        {running ? (
+          <button
+            onClick={() => abortRef.current?.abort()}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-red-600 hover:bg-red-700 text-white text-sm font-medium transition-colors"
+          >
+            <Square className="w-4 h-4" /> Cancelar
+          </button>
+        ) : (
+          <button
+            onClick={handleRun}
+            disabled={selected.size === 0}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 disabled:bg-gray-700 disabled:text-gray-500 text-white text-sm font-medium transition-colors"
+          >
+            <Play className="w-4 h-4" /> Analizar {selected.size}
+          </button>
+        )}
+        {items.length > 0 && (
+          <span className="flex items-center gap-2 text-sm text-gray-400">
+            {running && <Loader2 className="w-4 h-4 animate-spin" />}
+            {finished}/{items.length}
+          </span>
+        )}
+        {items.length > 0 && !running && (
+          <div className="ml-auto flex gap-2">
+            <button
+              onClick={() => downloadFile(`lote-analisis-${stamp()}.csv`, batchToCsv(items), 'text/csv')}
+              className="flex items-center gap-1 text-xs text-gray-400 hover:text-white transition-colors"
+            >
+              <FileSpreadsheet className="w-4 h-4" /> CSV
+            </button>
+            <button
+              onClick={() => downloadFile(`lote-analisis-${stamp()}.json`, batchToJson(items), 'application/json')}
+              className="flex items-center gap-1 text-xs text-gray-400 hover:text-white transition-colors"
+            >
+              <FileJson className="w-4 h-4" /> JSON
+            </button>
+          </div>
+        )}
+      </div>
+
+      {items.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs [&_p]:inline">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-800">
+                <th className="py-1 pr-3 font-medium">Algoritmo</th>
+                <th className="py-1 pr-3 font-medium">Estado</th>
+                <th className="py-1 pr-3 font-medium">Tiempo</th>
+                <th className="py-1 pr-3 font-medium">Espacio</th>
+                <th className="py-1 pr-3 font-medium">Mejor</th>
+                <th className="py-1 pr-3 font-medium">Promedio</th>
+                <th className="py-1 pr-3 font-medium">Peor</th>
+                <th className="py-1 pr-3 font-medium">Validación</th>
+                <th className="py-1 pr-3 font-medium text-right">Confianza</th>
+                <th className="py-1 pr-3 font-medium">Regresión</th>
+                <th className="py-1 font-medium text-right">Duración</th>
+              </tr>
+            </thead>
+            <tbody>
+              {items.map((item, i) => {
+                const row = rows[i];
+                return (
+                  <tr
+                    key={item.name}
+                    onClick={() => item.report && onOpen(item)}
+                    className={`border-b border-gray-800/50 align-middle ${item.report ? 'cursor-pointer hover:bg-gray-800' : ''}`}
+                    title={item.error ?? (item.report ? 'Abrir el reporte' : undefined)}
+                  >
+                    <td className="py-1 pr-3 text-gray-300 whitespace-nowrap">{row.algorithm}</td>
+                    <td className="py-1 pr-3">
+                      <span className={`text-[10px] px-1.5 rounded ${STATUS_STYLES[item.status].color}`}>{STATUS_STYLES[item.status].label}</span>
+                    </td>
+                    <td className="py-1 pr-3 text-gray-200">
+                      <Bound value={row.time_theta || row.time_big_o} />
+                    </td>
+                    <td className="py-1 pr-3 text-gray-200">
+                      <Bound value={row.space_big_o} />
+                    </td>
+                    <td className="py-1 pr-3 text-gray-300">
+                      <Bound value={row.best_case} />
+                    </td>
+                    <td className="py-1 pr-3 text-gray-300">
+                      <Bound value={row.average_case} />
+                    </td>
+                    <td className="py-1 pr-3 text-gray-300">
+                      <Bound value={row.worst_case} />
+                    </td>
+                    <td className={`py-1 pr-3 font-bold ${VALIDATION_COLORS[row.validation_status.toUpperCase()] ?? 'text-gray-500'}`}>
+                      {row.validation_status || (item.error ? <span className="font-normal text-red-400">{item.error}</span> : '—')}
+                    </td>
+                    <td className="py-1 pr-3 text-right text-gray-400">
+                      {row.confidence !== null ? `${(row.confidence * 100).toFixed(1)}%` : '—'}
+                    </td>
+                    <td className="py-1 pr-3" title={row.regression_diffs || undefined}>
+                      {row.regression === 'pass' && <CheckCircle className="w-4 h-4 text-green-400" />}
+                      {row.regression === 'fail' && <XCircle className="w-4 h-4 text-red-400" />}
+                    </td>
+                    <td className="py-1 text-right text-gray-400 whitespace-nowrap">
+                      {row.duration_ms !== null ? `${(row.duration_ms / 1000).toFixed(1)} s` : '—'}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {passed + failed.length > 0 && (
+        <div className="mt-6">
+          <div className="flex items-center gap-3 mb-2">
+            <span className="text-sm text-gray-500 uppercase tracking-wider font-bold">Regresión</span>
+            <span className="text-xs px-2 py-0.5 rounded bg-green-900 text-green-300">{passed} coinciden</span>
+            {failed.length > 0 && <span className="text-xs px-2 py-0.5 rounded bg-red-900 text-red-300">{failed.length} difieren</span>}
+          </div>
+          {failed.length > 0 && (
+            <ul className="space-y-2 text-sm [&_p]:inline">
+              {failed.map(item => (
+                <li key={item.name} className="bg-red-900/10 border border-red-900/50 rounded-lg p-3">
+                  <div className="text-gray-200 font-medium mb-1">{item.name}</div>
+                  {checkExpectations(item.expected!, item.report!)
+                    .filter(check => check.verdict !== 'pass')
+                    .map(check => (
+                      <div key={check.label} className="flex flex-wrap items-center gap-2 text-xs text-gray-400">
+                        <span className="w-20 text-gray-500">{check.label}</span>
+                        <span className="text-green-400">
+                          esperado{' '}
+                          {check.expected.map((bound, j) => (
+                            <React.Fragment key={bound}>
+                              {j > 0 && ' o '}
+                              <Bound value={bound} />
+                            </React.Fragment>
+                          ))}
+                        </span>
+                        <span className="text-red-400">
+                          {check.actual ? (
+                            <>
+                              obtenido <Bound value={check.actual} />
+                            </>
+                          ) : (
+                            'sin resultado'
+                          )}
+                        </span>
+                      </div>
+                    ))}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,341 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Gauge, Loader2, Play, Square } from 'lucide-react';
+import { defaultOrder, entryFunction } from '../lib/benchmark';
+import type { BenchmarkMessage, BenchmarkPoint, BenchmarkRequest, InputOrder, ParameterSpec } from '../lib/benchmark';
+import { bestGrowthClass, fitConstant, fitPowerLaw, parseGrowth } from '../lib/growth';
+import type { Growth, Sample } from '../lib/growth';
+import { parsePseudocode } from '../lib/parser';
+import { TeX } from './TeX';
+
+interface BenchmarkPanelProps {
+  code: string;
+  // Reported time bound (theta, else big_o) to overlay on the measurements
+  bound?: string;
+}
+
+const ORDERS: Array<[InputOrder, string]> = [
+  ['random', 'Aleatoria'],
+  ['sorted', 'Ordenada'],
+  ['reversed', 'Orden inverso'],
+];
+
+const BUDGETS = [1_000_000, 5_000_000, 20_000_000];
+
+const PARAMETER_LABELS: Record<ParameterSpec['kind'], string> = {
+  array: 'arreglo de n',
+  matrix: 'matriz n×n',
+  graph: 'grafo de n vértices',
+  marks: 'marcas vacías',
+  size: 'n',
+  lower: '1',
+  upper: 'n',
+  absent: 'valor ausente',
+};
+
+// Chart geometry (viewBox units)
+const WIDTH = 640;
+const HEIGHT = 280;
+const PAD = { left: 56, right: 16, top: 12, bottom: 32 };
+
+interface Curve {
+  growth: Growth;
+  logScale: number;
+  color: string;
+}
+
+// Log-log plot: a power law n^k is a straight line of slope k
+const BenchmarkChart: React.FC<{ points: BenchmarkPoint[]; curves: Curve[] }> = ({ points, curves }) => {
+  const samples = points.filter(p => p.total > 0);
+  if (samples.length < 2) return null;
+
+  const minN = Math.log(samples[0].n);
+  const maxN = Math.log(samples[samples.length - 1].n);
+  const measured = samples.map(p => Math.log(p.total));
+  const minY = Math.min(...measured) - 0.5;
+  const maxY = Math.max(...measured) + 0.5;
+  const x = (logN: number) => PAD.left + ((logN - minN) / (maxN - minN)) * (WIDTH - PAD.left - PAD.right);
+  const y = (logV: number) => HEIGHT - PAD.bottom - ((logV - minY) / (maxY - minY)) * (HEIGHT - PAD.top - PAD.bottom);
+
+  const curvePath = ({ growth, logScale }: Curve) =>
+    Array.from({ length: 49 }, (_, i) => minN + ((maxN - minN) * i) / 48)
+      .map(logN => [logN, logScale + growth.logAt(Math.exp(logN))])
+      .filter(([, logV]) => Number.isFinite(logV))
+      .map(([logN, logV], i) => `${i === 0 ? 'M' : 'L'}${x(logN).toFixed(1)},${y(logV).toFixed(1)}`)
+      .join(' ');
+
+  const xTicks = samples.map(p => p.n).filter(n => Number.isInteger(Math.log2(n)));
+  const yTicks: number[] = [];
+  for (let e = Math.ceil(minY / Math.LN10); e <= Math.floor(maxY / Math.LN10); e++) yTicks.push(e);
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+      <defs>
+        <clipPath id="benchmark-plot">
+          <rect x={PAD.left} y={PAD.top} width={WIDTH - PAD.left - PAD.right} height={HEIGHT - PAD.top - PAD.bottom} />
+        </clipPath>
+      </defs>
+      {yTicks.map(e => (
+        <g key={e}>
+          <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(e * Math.LN10)} y2={y(e * Math.LN10)} className="stroke-gray-800" />
+          <text x={PAD.left - 6} y={y(e * Math.LN10) + 4} textAnchor="end" className="fill-gray-500 text-[10px]">
+            {`1e${e}`}
+          </text>
+        </g>
+      ))}
+      {xTicks.map(n => (
+        <g key={n}>
+          <line x1={x(Math.log(n))} x2={x(Math.log(n))} y1={PAD.top} y2={HEIGHT - PAD.bottom} className="stroke-gray-800" />
+          <text x={x(Math.log(n))} y={HEIGHT - PAD.bottom + 16} textAnchor="middle" className="fill-gray-500 text-[10px]">
+            {n}
+          </text>
+        </g>
+      ))}
+      <text x={WIDTH - PAD.right} y={HEIGHT - 4} textAnchor="end" className="fill-gray-500 text-[10px]">n</text>
+      <g clipPath="url(#benchmark-plot)">
+        {curves.map(curve => (
+          <path key={curve.growth.tex} d={curvePath(curve)} fill="none" stroke={curve.color} strokeWidth={2} strokeDasharray="6 4" />
+        ))}
+      </g>
+      <polyline
+        points={samples.map(p => `${x(Math.log(p.n)).toFixed(1)},${y(Math.log(p.total)).toFixed(1)}`).join(' ')}
+        fill="none"
+        className="stroke-blue-400"
+        strokeWidth={2}
+      />
+      {samples.map(p => (
+        <circle key={p.n} cx={x(Math.log(p.n))} cy={y(Math.log(p.total))} r={3.5} className="fill-blue-400">
+          <title>{`n = ${p.n}: ${p.total.toLocaleString()} operaciones`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
+
+// Fits on the larger half of the samples, where lower-order terms matter least
+const analyzePoints = (points: BenchmarkPoint[], bound?: string) => {
+  const samples: Sample[] = points.map(p => ({ n: p.n, value: p.total }));
+  const tail = samples.slice(-Math.max(3, Math.ceil(samples.length / 2)));
+  const reported = bound ? parseGrowth(bound) : null;
+  const reportedFit = reported ? fitConstant(reported, tail) : null;
+  const best = bestGrowthClass(samples);
+  const bestFit = best ? fitConstant(best, tail) : null;
+  return {
+    power: fitPowerLaw(tail),
+    reported,
+    reportedFit,
+    best,
+    bestFit,
+    // Reported shape fits about as well as the best reference class
+    agrees: reportedFit && bestFit ? reportedFit.spread <= bestFit.spread + 0.05 : null,
+  };
+};
+
+export const BenchmarkPanel: React.FC<BenchmarkPanelProps> = ({ code, bound }) => {
+  const workerRef = useRef<Worker | null>(null);
+  const [order, setOrder] = useState<InputOrder | null>(null);
+  const [budget, setBudget] = useState(BUDGETS[1]);
+  const [running, setRunning] = useState(false);
+  const [signature, setSignature] = useState<string | null>(null);
+  const [points, setPoints] = useState<BenchmarkPoint[]>([]);
+  const [note, setNote] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  const entry = parsePseudocode(code).ast;
+  const entryName = entry ? String(entryFunction(entry)?.name ?? '') : '';
+  const effectiveOrder = order ?? defaultOrder(entryName);
+
+  const stop = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setRunning(false);
+  };
+
+  const handleRun = () => {
+    stop();
+    setPoints([]);
+    setNote(null);
+    setError(null);
+    setSignature(null);
+    setRunning(true);
+
+    const worker = new Worker(new URL('../lib/benchmark.worker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+    worker.onmessage = (event: MessageEvent<BenchmarkMessage>) => {
+      const message = event.data;
+      switch (message.kind) {
+        case 'start':
+          setSignature(`${message.entry}(${message.parameters.map(p => `${p.name} = ${PARAMETER_LABELS[p.kind]}`).join(', ')})`);
+          break;
+        case 'point':
+          setPoints(prev => [...prev, message.point]);
+          break;
+        case 'done':
+          setNote(message.reason ? `Serie detenida: ${message.reason}` : null);
+          stop();
+          break;
+        case 'error':
+          setError(message.message);
+          stop();
+          break;
+      }
+    };
+    worker.onerror = (event) => {
+      setError(event.message || 'El worker del benchmark falló');
+      stop();
+    };
+    const request: BenchmarkRequest = { code, order: effectiveOrder, maxOperations: budget };
+    worker.postMessage(request);
+  };
+
+  const analysis = points.length >= 3 ? analyzePoints(points, bound) : null;
+  const curves: Curve[] = [];
+  if (analysis?.reported && analysis.reportedFit) {
+    curves.push({ growth: analysis.reported, logScale: analysis.reportedFit.logScale, color: '#c084fc' });
+  }
+  if (analysis?.best && analysis.bestFit && analysis.agrees === false) {
+    curves.push({ growth: analysis.best, logScale: analysis.bestFit.logScale, color: '#4ade80' });
+  }
+
+  return (
+    <div className="bg-gray-900 rounded-xl p-6 border border-gray-800 shadow-xl">
+      <h2 className="text-lg font-semibold text-gray-300 mb-4 border-b border-gray-800 pb-2 flex items-center gap-2">
+        <Gauge className="w-5 h-5" /> Benchmark empírico
+      </h2>
+
+      <div className="flex flex-wrap items-center gap-3 mb-4 text-sm">
+        <label className="flex items-center gap-2 text-gray-400">
+          Entrada
+          <select
+            value={effectiveOrder}
+            onChange={(e) => setOrder(e.target.value as InputOrder)}
+            disabled={running}
+            className="bg-gray-950 border border-gray-700 rounded-lg p-1.5 text-gray-300 focus:outline-none"
+          >
+            {ORDERS.map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-gray-400">
+          Límite por ejecución
+          <select
+            value={budget}
+            onChange={(e) => setBudget(Number(e.target.value))}
+            disabled={running}
+            className="bg-gray-950 border border-gray-700 rounded-lg p-1.5 text-gray-300 focus:outline-none"
+          >
+            {BUDGETS.map(value => (
+              <option key={value} value={value}>{value.toLocaleString()} ops</option>
+            ))}
+          </select>
+        </label>
+        {running ? (
+          <button onClick={stop} className="ml-auto flex items-center gap-2 px-3 py-1.5 rounded-lg bg-red-900/50 text-red-300 hover:bg-red-900">
+            <Square className="w-4 h-4" /> Detener
+          </button>
+        ) : (
+          <button
+            onClick={handleRun}
+            disabled={!entry}
+            className="ml-auto flex items-center gap-2 px-3 py-1.5 rounded-lg bg-blue-600 text-white hover:bg-blue-500 disabled:bg-gray-700 disabled:text-gray-400"
+            title={entry ? 'Ejecuta el código del editor con n creciente' : 'Corrige los errores de sintaxis primero'}
+          >
+            <Play className="w-4 h-4" /> Ejecutar
+          </button>
+        )}
+      </div>
+
+      <p className="text-xs text-gray-500 mb-4">
+        Ejecuta el código del editor en un Web Worker y cuenta comparaciones, asignaciones y accesos a arreglos.
+        {signature && <span className="block mt-1 font-mono text-gray-400">{signature}</span>}
+      </p>
+
+      {error && <p className="mb-4 p-3 rounded-lg bg-red-900/20 border border-red-800 text-sm text-red-400">{error}</p>}
+
+      {points.length > 0 && (
+        <>
+          <BenchmarkChart points={points} curves={curves} />
+          <div className="mt-2 flex flex-wrap gap-4 text-xs text-gray-400">
+            <span className="flex items-center gap-1"><span className="w-4 h-0.5 bg-blue-400" /> Medido (operaciones)</span>
+            {curves.map(curve => (
+              <span key={curve.growth.tex} className="flex items-center gap-1">
+                <span className="w-4 border-t-2 border-dashed" style={{ borderColor: curve.color }} />
+                <span className="[&_p]:inline">
+                  <TeX tex={curve.growth === analysis?.reported ? curve.growth.tex : `\\Theta(${curve.growth.tex})`} />
+                </span>
+                {curve.growth === analysis?.reported ? 'reportado, escalado' : 'mejor ajuste'}
+              </span>
+            ))}
+          </div>
+        </>
+      )}
+
+      {running && (
+        <p className="mt-3 flex items-center gap-2 text-xs text-blue-400">
+          <Loader2 className="w-3 h-3 animate-spin" /> Ejecutando n = {points.length > 0 ? `${points[points.length - 1].n}…` : '…'}
+        </p>
+      )}
+      {note && <p className="mt-3 text-xs text-gray-500">{note}</p>}
+
+      {analysis && (
+        <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-3 text-sm">
+          <div className="p-3 rounded-lg bg-gray-800/50">
+            <span className="block text-xs text-gray-500 mb-1">Exponente empírico</span>
+            {analysis.power ? (
+              <span className="text-gray-200 [&_p]:inline">
+                <TeX tex={`\\approx n^{${analysis.power.exponent.toFixed(2)}}`} />
+                <span className="ml-2 text-xs text-gray-500">R² {analysis.power.r2.toFixed(3)}</span>
+              </span>
+            ) : '—'}
+          </div>
+          <div className="p-3 rounded-lg bg-gray-800/50">
+            <span className="block text-xs text-gray-500 mb-1">Mejor ajuste</span>
+            <span className="text-green-300">{analysis.best ? <TeX tex={`\\Theta(${analysis.best.tex})`} /> : '—'}</span>
+          </div>
+          <div className="p-3 rounded-lg bg-gray-800/50">
+            <span className="block text-xs text-gray-500 mb-1">Reportado</span>
+            {bound ? (
+              <>
+                <span className="text-purple-300"><TeX tex={bound} /></span>
+                {!analysis.reported && <span className="block text-xs text-yellow-400">No se pudo interpretar la cota</span>}
+                {analysis.agrees === true && <span className="block text-xs text-green-400">✓ Coincide con las mediciones</span>}
+                {analysis.agrees === false && <span className="block text-xs text-yellow-400">⚠ Las mediciones crecen distinto</span>}
+              </>
+            ) : '—'}
+          </div>
+        </div>
+      )}
+
+      {points.length > 0 && (
+        <div className="mt-4 max-h-48 overflow-y-auto">
+          <table className="w-full text-xs font-mono text-right">
+            <thead className="sticky top-0 bg-gray-900 text-gray-500">
+              <tr>
+                <th className="py-1 text-left">n</th>
+                <th>comparaciones</th>
+                <th>asignaciones</th>
+                <th>accesos</th>
+                <th>total</th>
+                <th>ms</th>
+              </tr>
+            </thead>
+            <tbody className="text-gray-300">
+              {points.map(p => (
+                <tr key={p.n} className="border-t border-gray-800/60">
+                  <td className="py-1 text-left">{p.n}</td>
+                  <td>{p.counts.comparisons.toLocaleString()}</td>
+                  <td>{p.counts.assignments.toLocaleString()}</td>
+                  <td>{p.counts.arrayAccesses.toLocaleString()}</td>
+                  <td className="text-blue-300">{p.total.toLocaleString()}</td>
+                  <td className="text-gray-500">{p.ms.toFixed(1)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,11 +1,41 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useMemo } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkMath from 'remark-math';
 import rehypeKatex from 'rehype-katex';
 import 'katex/dist/katex.min.css';
 import { MermaidDiagram } from './MermaidDiagram';
-import { Play, Loader2, Terminal, FileText, Activity, AlertCircle, CheckCircle, XCircle, Lightbulb, Upload } from 'lucide-react';
-import { fetchEventSource } from '@microsoft/fetch-event-source';
+import { Play, Loader2, Terminal, FileText, Activity, AlertCircle, CheckCircle, XCircle, Lightbulb, Upload, Square, RefreshCw, History, GitCompare, StepForward, Layers, Library } from 'lucide-react';
+import { analysisClient, describeError, isAbortError, isTerminalEvent } from '../api';
+import type { AnalysisReport, AstNode, PipelineEvent } from '../api';
+import { AGENT_CONFIG, STATE_ICONS } from './agentConfig';
+import { PipelineTimeline } from './PipelineTimeline';
+import { applyAgentEvent } from '../lib/pipelineRuns';
+import type { AgentRun } from '../lib/pipelineRuns';
+import { SourceEditor } from './SourceEditor';
+import { AstExplorer } from './AstExplorer';
+import { ControlStructuresPanel } from './ControlStructuresPanel';
+import type { LineRange } from '../lib/ast';
+import { parsePseudocode } from '../lib/parser';
+import { HistorySidebar } from './HistorySidebar';
+import { clearHistory, deleteAnalysis, extractFunctionNames, listAnalyses, saveAnalysis } from '../lib/history';
+import { ReportComparison } from './ReportComparison';
+import type { ComparisonSource } from './ReportComparison';
+import { ExportMenu } from './ExportMenu';
+import { BenchmarkPanel } from './BenchmarkPanel';
+import { ExecutionVisualizer } from './ExecutionVisualizer';
+import { GrowthChart } from './GrowthChart';
+import { RecurrenceCheck } from './RecurrenceCheck';
+import { CostTable } from './CostTable';
+import { ValidationPanel } from './ValidationPanel';
+import { AlgorithmicPatternsPanel } from './AlgorithmicPatternsPanel';
+import { BatchRunner } from './BatchRunner';
+import type { BatchItem } from '../lib/batch';
+import { buildCfgLinks, nodesAtLine } from '../lib/cfg';
+import type { HistoryEntry, LogEntry } from '../lib/history';
+import { PREDEFINED_ALGORITHMS } from '../lib/presets';
+import { LibrarySidebar } from './LibrarySidebar';
+import { BUILT_IN_ENTRIES, deleteLibraryEntry, importLibrary, listLibrary, saveLibraryEntry } from '../lib/library';
+import type { LibraryDraft, LibraryEntry } from '../lib/library';
 
 // Helper function to safely convert any value to a displayable string
 const safeString = (value: any): string => {
@@ -24,385 +54,42 @@ const safeString = (value: any): string => {
   return String(value);
 };
 
-// Agent icons and colors for the SSE logs
-const AGENT_CONFIG: Record<string, { icon: string; color: string; name: string }> = {
-  'parser': { icon: '📝', color: 'text-blue-400', name: 'Parser' },
-  'analyzer': { icon: '🔍', color: 'text-purple-400', name: 'Analyzer' },
-  'complexity': { icon: '📊', color: 'text-green-400', name: 'Complexity' },
-  'validator': { icon: '✅', color: 'text-yellow-400', name: 'Validator' },
-  'diagram': { icon: '📈', color: 'text-pink-400', name: 'Diagram' },
-  'explainer': { icon: '💡', color: 'text-orange-400', name: 'Explainer' },
-  'report': { icon: '📋', color: 'text-cyan-400', name: 'Report' },
-  'pipeline': { icon: '⚙️', color: 'text-gray-400', name: 'Pipeline' },
-};
-
-const STATE_ICONS: Record<string, string> = {
-  'started': '▶️',
-  'running': '⚙️',
-  'finished': '✅',
-  'error': '❌',
-  'skipped': '⏭️',
-};
-
-interface LogEntry {
-  timestamp: Date;
-  agent?: string;
-  state?: string;
-  message: string;
-  type: 'info' | 'success' | 'error' | 'warning' | 'agent';
-  details?: string;
-}
-
-interface ComplexityMetric {
-  big_o: string;
-  omega?: string;
-  theta?: string;
-}
-
-interface Artifact {
-  artifact_type: string;
-  content: string;
-  metadata?: any;
-}
-
-interface CaseAnalysis {
-  description: string;
-  complexity: string;
-}
-
-interface DiagramData {
-  type: string;
-  name: string;
-  description: string;
-  mermaid: string;
-  syntax_valid: boolean;
-}
-
-interface AnalysisReport {
-  analysis_id: string;
-  complexity_analysis: {
-    complexity: {
-      time: ComplexityMetric;
-      space: ComplexityMetric;
-    };
-    cases?: {
-      best?: CaseAnalysis;
-      worst?: CaseAnalysis;
-      average?: CaseAnalysis;
-    };
-    recurrence?: {
-      relation: string;
-      closed_form: string;
-      solution_steps?: string[];
-    };
-  };
-  explanation: string;
-  artifacts?: {
-    [key: string]: Artifact;
-  };
-  diagram?: {
-    diagram?: DiagramData;
-    diagrams?: DiagramData[];
-  };
-  validation?: {
-    status: string;
-    confidence: number;
-    issues?: Array<{ severity: string; message: string }>;
-  };
-  hints?: Array<{ type: string; suggestion: string; details: string }>;
-  spec?: { inputs: string[]; outputs: string[]; description: string };
-  pseudocode_normalized?: string;
-  invariant_or_rule?: string | { invariant: string };
-}
-
-const PREDEFINED_ALGORITHMS = [
-  {
-    name: "01. Búsqueda Lineal",
-    code: `FUNCTION linearSearch(A, n, target)
-BEGIN
-    FOR i ← 1 TO n DO
-        IF A[i] == target THEN
-            RETURN i
-        END
-    END
-    RETURN -1
-END`
-  },
-  {
-    name: "02. Suma de Array",
-    code: `FUNCTION sumArray(A, n)
-BEGIN
-    sum ← 0
-    FOR i ← 1 TO n DO
-        sum ← sum + A[i]
-    END
-    RETURN sum
-END`
-  },
-  {
-    name: "03. BubbleSort",
-    code: `FUNCTION bubbleSort(A, n)
-BEGIN
-    FOR i ← 1 TO n - 1 DO
-        FOR j ← 1 TO n - i DO
-            IF A[j] > A[j + 1] THEN
-                temp ← A[j]
-                A[j] ← A[j + 1]
-                A[j + 1] ← temp
-            END
-        END
-    END
-    RETURN A
-END`
-  },
-  {
-    name: "04. InsertionSort",
-    code: `FUNCTION insertionSort(A, n)
-BEGIN
-    FOR i ← 2 TO n DO
-        key ← A[i]
-        j ← i - 1
-        WHILE j >= 1 AND A[j] > key DO
-            A[j + 1] ← A[j]
-            j ← j - 1
-        END
-        A[j + 1] ← key
-    END
-    RETURN A
-END`
-  },
-  {
-    name: "05. SelectionSort",
-    code: `FUNCTION selectionSort(A, n)
-BEGIN
-    FOR i ← 1 TO n - 1 DO
-        minIdx ← i
-        FOR j ← i + 1 TO n DO
-            IF A[j] < A[minIdx] THEN
-                minIdx ← j
-            END
-        END
-        temp ← A[i]
-        A[i] ← A[minIdx]
-        A[minIdx] ← temp
-    END
-    RETURN A
-END`
-  },
-  {
-    name: "06. Bucles Anidados Dependientes (Triangular)",
-    code: `FUNCTION triangularSum(n)
-BEGIN
-    total ← 0
-    FOR i ← 1 TO n DO
-        FOR j ← 1 TO i DO
-            total ← total + 1
-        END
-    END
-    RETURN total
-END`
-  },
-  {
-    name: "07. Búsqueda Binaria",
-    code: `FUNCTION binarySearch(A, n, target)
-BEGIN
-    left ← 1
-    right ← n
-    WHILE left <= right DO
-        mid ← (left + right) / 2
-        IF A[mid] == target THEN
-            RETURN mid
-        END
-        IF A[mid] < target THEN
-            left ← mid + 1
-        ELSE
-            right ← mid - 1
-        END
-    END
-    RETURN -1
-END`
-  },
-  {
-    name: "08. Búsqueda Exponencial",
-    code: `FUNCTION exponentialSearch(A, n, target)
-BEGIN
-    IF A[1] == target THEN
-        RETURN 1
-    END
-    i ← 1
-    WHILE i < n AND A[i] <= target DO
-        i ← i * 2
-    END
-    RETURN binarySearch(A, min(i, n), target)
-END`
-  },
-  {
-    name: "09. MergeSort",
-    code: `FUNCTION mergeSort(A, left, right)
-BEGIN
-    IF left < right THEN
-        mid ← (left + right) / 2
-        mergeSort(A, left, mid)
-        mergeSort(A, mid + 1, right)
-        merge(A, left, mid, right)
-    END
-    RETURN A
-END
-
-FUNCTION merge(A, left, mid, right)
-BEGIN
-    n1 ← mid - left + 1
-    n2 ← right - mid
-    FOR i ← 1 TO n1 DO
-        L[i] ← A[left + i - 1]
-    END
-    FOR j ← 1 TO n2 DO
-        R[j] ← A[mid + j]
-    END
-    i ← 1
-    j ← 1
-    k ← left
-    WHILE i <= n1 AND j <= n2 DO
-        IF L[i] <= R[j] THEN
-            A[k] ← L[i]
-            i ← i + 1
-        ELSE
-            A[k] ← R[j]
-            j ← j + 1
-        END
-        k ← k + 1
-    END
-    RETURN A
-END`
-  },
-  {
-    name: "10. QuickSort",
-    code: `FUNCTION quickSort(A, low, high)
-BEGIN
-    IF low < high THEN
-        pivot ← partition(A, low, high)
-        quickSort(A, low, pivot - 1)
-        quickSort(A, pivot + 1, high)
-    END
-    RETURN A
-END
-
-FUNCTION partition(A, low, high)
-BEGIN
-    pivot ← A[high]
-    i ← low - 1
-    FOR j ← low TO high - 1 DO
-        IF A[j] <= pivot THEN
-            i ← i + 1
-            temp ← A[i]
-            A[i] ← A[j]
-            A[j] ← temp
-        END
-    END
-    temp ← A[i + 1]
-    A[i + 1] ← A[high]
-    A[high] ← temp
-    RETURN i + 1
-END`
-  },
-  {
-    name: "11. Fibonacci Recursivo",
-    code: `FUNCTION fibonacci(n)
-BEGIN
-    IF n <= 1 THEN
-        RETURN n
-    END
-    RETURN fibonacci(n - 1) + fibonacci(n - 2)
-END`
-  },
-  {
-    name: "12. Factorial Recursivo",
-    code: `FUNCTION factorial(n)
-BEGIN
-    IF n <= 1 THEN
-        RETURN 1
-    END
-    RETURN n * factorial(n - 1)
-END`
-  },
-  {
-    name: "13. Fibonacci con DP",
-    code: `FUNCTION fibonacciDP(n)
-BEGIN
-    LET F[0..n]
-    F[0] ← 0
-    F[1] ← 1
-    FOR i ← 2 TO n DO
-        F[i] ← F[i - 1] + F[i - 2]
-    END
-    RETURN F[n]
-END`
-  },
-  {
-    name: "14. BFS (Grafos)",
-    code: `FUNCTION BFS(G, s, n)
-BEGIN
-    LET visited[1..n]
-    LET queue[1..n]
-    FOR i ← 1 TO n DO
-        visited[i] ← FALSE
-    END
-    visited[s] ← TRUE
-    enqueue(queue, s)
-    WHILE NOT isEmpty(queue) DO
-        u ← dequeue(queue)
-        FOR EACH v IN adjacents(G, u) DO
-            IF NOT visited[v] THEN
-                visited[v] ← TRUE
-                enqueue(queue, v)
-            END
-        END
-    END
-    RETURN visited
-END`
-  },
-  {
-    name: "15. DFS (Grafos)",
-    code: `FUNCTION DFS(G, v, visited)
-BEGIN
-    visited[v] ← TRUE
-    FOR EACH u IN adjacents(G, v) DO
-        IF NOT visited[u] THEN
-            DFS(G, u, visited)
-        END
-    END
-    RETURN visited
-END`
-  },
-  {
-    name: "16. Multiplicación de Matrices",
-    code: `FUNCTION matrixMultiply(A, B, n)
-BEGIN
-    LET C[1..n, 1..n]
-    FOR i ← 1 TO n DO
-        FOR j ← 1 TO n DO
-            C[i, j] ← 0
-            FOR k ← 1 TO n DO
-                C[i, j] ← C[i, j] + A[i, k] * B[k, j]
-            END
-        END
-    END
-    RETURN C
-END`
-  },
-];
-
 const DEFAULT_CODE = PREDEFINED_ALGORITHMS[2].code;
 
 export const ComplexityAnalyzer: React.FC = () => {
   const [inputCode, setInputCode] = useState(DEFAULT_CODE);
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [currentAgent, setCurrentAgent] = useState<string | null>(null);
-  const [status, setStatus] = useState<'idle' | 'analyzing' | 'fetching_report' | 'complete' | 'error'>('idle');
+  const [status, setStatus] = useState<'idle' | 'analyzing' | 'reconnecting' | 'fetching_report' | 'complete' | 'error'>('idle');
   const [report, setReport] = useState<AnalysisReport | null>(null);
+  // Code the report was computed from; the editor may have changed since
+  const [reportCode, setReportCode] = useState('');
+  const reportAst = useMemo(() => parsePseudocode(reportCode).ast, [reportCode]);
+  const [agentRuns, setAgentRuns] = useState<AgentRun[]>([]);
+  const [selectedAstNode, setSelectedAstNode] = useState<AstNode | null>(null);
+  const [highlightedLines, setHighlightedLines] = useState<LineRange | null>(null);
+  // Parsed locally on every edit so syntax errors never reach the backend
+  const syntax = useMemo(() => parsePseudocode(inputCode), [inputCode]);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
   const logsEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // In-flight run, so it can be cancelled from the UI or on unmount
+  const abortRef = useRef<AbortController | null>(null);
+  const analysisIdRef = useRef<string | null>(null);
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [library, setLibrary] = useState<LibraryEntry[]>([]);
+  const [libraryOpen, setLibraryOpen] = useState(false);
+  const [compareOpen, setCompareOpen] = useState(false);
+  const [stepperOpen, setStepperOpen] = useState(false);
+  const [batchOpen, setBatchOpen] = useState(false);
+  // History entry shown in the report panel, if any
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  // Code of the run being analyzed; saved once its report arrives
+  const submittedCodeRef = useRef<string | null>(null);
+  // Line under the pointer in the editor or the normalized pseudocode, for CFG linking
+  const [hoveredLine, setHoveredLine] = useState<{ view: 'source' | 'normalized'; line: number } | null>(null);
+  const cfgLinks = useMemo(() => (report ? buildCfgLinks(report, reportCode) : null), [report, reportCode]);
 
   const scrollToBottom = () => {
     logsEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -412,6 +99,39 @@ export const ComplexityAnalyzer: React.FC = () => {
     scrollToBottom();
   }, [logs]);
 
+  React.useEffect(() => {
+    listAnalyses()
+      .then(setHistory)
+      .catch(err => console.warn('History unavailable:', err));
+    listLibrary()
+      .then(setLibrary)
+      .catch(err => console.warn('Library unavailable:', err));
+  }, []);
+
+  // Unmounting stops the stream and the backend pipeline of a run in flight
+  React.useEffect(
+    () => () => {
+      const ctrl = abortRef.current;
+      if (!ctrl || ctrl.signal.aborted) return;
+      ctrl.abort();
+      if (analysisIdRef.current) analysisClient.cancelAnalysis(analysisIdRef.current).catch(() => undefined);
+    },
+    []
+  );
+
+  // Persist a finished run, with its final logs and timeline
+  React.useEffect(() => {
+    const code = submittedCodeRef.current;
+    if (status !== 'complete' || !report || code === null) return;
+    submittedCodeRef.current = null;
+    saveAnalysis({ id: report.analysis_id, createdAt: Date.now(), code, report, logs, agentRuns })
+      .then(entry => {
+        setHistory(prev => [entry, ...prev.filter(e => e.id !== entry.id)]);
+        setHistoryId(entry.id);
+      })
+      .catch(err => console.warn('Failed to save analysis to history:', err));
+  }, [status, report, logs, agentRuns]);
+
   const addLog = (entry: Omit<LogEntry, 'timestamp'>) => {
     setLogs(prev => [...prev, { ...entry, timestamp: new Date() }]);
   };
@@ -428,208 +148,247 @@ export const ComplexityAnalyzer: React.FC = () => {
     reader.readAsText(file);
   };
 
+  const handlePipelineEvent = (event: PipelineEvent) => {
+    switch (event.kind) {
+      case 'agent': {
+        setCurrentAgent(isTerminalEvent(event) ? null : event.agent);
+        setAgentRuns(prev => applyAgentEvent(prev, event));
+        const agentConfig = AGENT_CONFIG[event.agent] || { icon: '📦', color: 'text-gray-400', name: event.agent };
+        const stateIcon = (event.state && STATE_ICONS[event.state]) || '📋';
+
+        let message = `${stateIcon} [${agentConfig.name}] ${event.state || 'processing'}`;
+        if (event.summary) message += `: ${event.summary}`;
+
+        let details = '';
+        if (event.duration_ms) details += `Duración: ${event.duration_ms}ms`;
+        if (event.complexity) details += ` | Complejidad: ${safeString(event.complexity)}`;
+
+        addLog({
+          agent: event.agent,
+          state: event.state,
+          message,
+          type: event.state === 'error' ? 'error' : event.state === 'finished' ? 'success' : 'agent',
+          details: details || undefined
+        });
+        break;
+      }
+      // Legacy status format
+      case 'status':
+        addLog({
+          message: `Status: ${event.status}`,
+          type: event.status === 'error' ? 'error' : 'info',
+          details: event.message
+        });
+        break;
+      case 'message':
+        addLog({ message: event.message, type: 'info' });
+        break;
+      case 'progress':
+        addLog({ message: `Progreso: ${event.progress}%`, type: 'info' });
+        break;
+    }
+  };
+
   const handleAnalyze = async () => {
-    if (!inputCode.trim()) return;
+    if (!inputCode.trim() || syntax.diagnostics.length > 0) return;
 
     setStatus('analyzing');
     setLogs([]);
     setReport(null);
+    setAgentRuns([]);
+    setSelectedAstNode(null);
+    setHighlightedLines(null);
     setErrorMsg(null);
     setCurrentAgent(null);
+    setHistoryId(null);
+
+    const ctrl = new AbortController();
+    abortRef.current = ctrl;
+    analysisIdRef.current = null;
 
     try {
       // 1. Start Analysis
       addLog({ message: 'Iniciando análisis...', type: 'info' });
-      
-      const startResponse = await fetch('/api/analyze', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ code: inputCode }),
-      });
-
-      if (!startResponse.ok) {
-        throw new Error(`Failed to start analysis: ${startResponse.statusText}`);
-      }
 
-      const { analysis_id } = await startResponse.json();
+      const analysis_id = await analysisClient.startAnalysis(inputCode, ctrl.signal);
+      analysisIdRef.current = analysis_id;
       addLog({ message: `Analysis ID: ${analysis_id}`, type: 'info' });
 
       // 2. Listen for Progress (SSE)
-      let capturedReportUrl: string | null = null;
-      
-      await new Promise<void>((resolve, reject) => {
-        const ctrl = new AbortController();
-        
-        fetchEventSource(`/api/status?analysis_id=${analysis_id}`, {
-          method: 'GET',
-          signal: ctrl.signal,
-          
-          onopen(response) {
-            if (response.ok) {
-              addLog({ message: 'Conectado al stream de progreso', type: 'success' });
-              return Promise.resolve();
-            } else {
-              return Promise.reject(new Error(`Failed to connect to SSE: ${response.statusText}`));
-            }
-          },
-          
-          onmessage(msg) {
-            try {
-              // Skip empty messages
-              if (!msg.data || msg.data.trim() === '') return;
-              
-              // Filter out source code that might leak into logs
-              if (msg.data.includes('from typing import') || 
-                  msg.data.includes('class ') && msg.data.includes('def ') ||
-                  msg.data.includes('"""') ||
-                  msg.data.length > 1000) {
-                console.warn('Filtered large/code message from SSE');
-                return;
-              }
-
-              const data = JSON.parse(msg.data);
-              
-              // Handle agent-based messages
-              if (data.agent) {
-                setCurrentAgent(data.agent);
-                const agentConfig = AGENT_CONFIG[data.agent] || { icon: '📦', color: 'text-gray-400', name: data.agent };
-                const stateIcon = STATE_ICONS[data.state] || '📋';
-                
-                let message = `${stateIcon} [${agentConfig.name}] ${data.state || 'processing'}`;
-                if (data.summary) message += `: ${data.summary}`;
-                
-                let details = '';
-                if (data.duration_ms) details += `Duración: ${data.duration_ms}ms`;
-                if (data.complexity) details += ` | Complejidad: ${safeString(data.complexity)}`;
-                
-                addLog({
-                  agent: data.agent,
-                  state: data.state,
-                  message,
-                  type: data.state === 'error' ? 'error' : data.state === 'finished' ? 'success' : 'agent',
-                  details: details || undefined
-                });
-
-                // Capture report URL
-                if (data.artifacts?.json) {
-                  if (data.agent === 'report') {
-                    capturedReportUrl = data.artifacts.json;
-                  } else if (!capturedReportUrl) {
-                    capturedReportUrl = data.artifacts.json;
-                  }
-                }
-
-                // Check for completion
-                const isComplete = 
-                  (data.agent === 'pipeline' && data.state === 'finished') ||
-                  (data.agent === 'report' && data.state === 'finished');
-
-                if (isComplete) {
-                  setCurrentAgent(null);
-                  ctrl.abort();
-                  resolve();
-                }
-              } 
-              // Handle status-based messages (legacy format)
-              else if (data.status) {
-                addLog({
-                  message: `Status: ${data.status}`,
-                  type: data.status === 'error' ? 'error' : 'info',
-                  details: data.message
-                });
-
-                if (data.status === 'completed' || data.status === 'finished') {
-                  ctrl.abort();
-                  resolve();
-                }
-              }
-              // Handle generic messages
-              else if (data.message) {
-                addLog({ message: data.message, type: 'info' });
-              }
-              // Handle progress updates
-              else if (data.progress !== undefined) {
-                addLog({ message: `Progreso: ${data.progress}%`, type: 'info' });
-              }
-              
-            } catch (e) {
-              // Plain text message
-              const logMessage = msg.data?.trim();
-              if (logMessage && logMessage.length < 500) {
-                addLog({ message: logMessage, type: 'info' });
-                
-                if (logMessage.toLowerCase().includes('analysis complete') || 
-                    logMessage.toLowerCase().includes('pipeline finished')) {
-                  ctrl.abort();
-                  resolve();
-                }
-              }
-            }
-          },
-          
-          onerror(err) {
-            console.error("SSE Error:", err);
-            addLog({ message: `Error de conexión: ${err}`, type: 'error' });
-            ctrl.abort();
-            reject(err);
-          },
-          
-          onclose() {
-            addLog({ message: 'Stream cerrado', type: 'info' });
-            resolve();
-          }
-        });
+      const { reportUrl } = await analysisClient.streamProgress(analysis_id, {
+        signal: ctrl.signal,
+        onOpen: (resumedFrom) => {
+          setStatus('analyzing');
+          addLog({
+            message: resumedFrom ? `Reconectado, reanudando después del evento #${resumedFrom}` : 'Conectado al stream de progreso',
+            type: 'success'
+          });
+        },
+        onEvent: (event) => {
+          setStatus(prev => (prev === 'reconnecting' ? 'analyzing' : prev));
+          handlePipelineEvent(event);
+        },
+        onReconnecting: (attempt, delayMs) => {
+          setStatus('reconnecting');
+          addLog({
+            message: `Conexión perdida, reintentando (intento ${attempt}) en ${(delayMs / 1000).toFixed(1)}s...`,
+            type: 'warning'
+          });
+        },
+        onFallback: (reason) => {
+          setStatus('analyzing');
+          addLog({ message: 'Stream SSE no disponible, consultando el estado periódicamente', type: 'warning', details: reason });
+        },
+        onClose: () => addLog({ message: 'Stream cerrado', type: 'info' }),
       });
 
       // 3. Get Final Report
       setStatus('fetching_report');
       addLog({ message: 'Obteniendo reporte final...', type: 'info' });
 
-      const finalReportUrl = capturedReportUrl || `/api/analysis/${analysis_id}/agent/report/json`;
-      const reportResponse = await fetch(finalReportUrl);
-      
-      if (!reportResponse.ok) {
-        console.warn("Failed to fetch artifact report, trying default endpoint...");
-        const fallbackResponse = await fetch(`/api/report/${analysis_id}`);
-        if (!fallbackResponse.ok) {
-           throw new Error(`Failed to fetch report: ${reportResponse.statusText}`);
-        }
-        const fallbackData = await fallbackResponse.json();
-        setReport(fallbackData);
-      } else {
-        const reportData = await reportResponse.json();
-        
-        const finalReport = reportData.data || reportData.report || reportData;
-        const complexityData = finalReport.complexity_analysis || finalReport;
-
-        const formattedReport: AnalysisReport = {
-            analysis_id: reportData.analysis_id || analysis_id,
-            complexity_analysis: {
-                complexity: complexityData.complexity || finalReport.complexity,
-                cases: complexityData.cases || finalReport.cases,
-                recurrence: complexityData.recurrence || finalReport.recurrence
-            },
-            explanation: finalReport.explanation,
-            artifacts: finalReport.artifacts,
-            validation: finalReport.validation,
-            hints: finalReport.hints,
-            spec: finalReport.spec,
-            pseudocode_normalized: finalReport.pseudocode_normalized,
-            invariant_or_rule: finalReport.invariant_or_rule
-        };
-        
-        setReport(formattedReport);
-      }
+      const finalReport = await analysisClient.fetchReport(analysis_id, reportUrl, ctrl.signal);
+      submittedCodeRef.current = inputCode;
+      setReportCode(inputCode);
+      setReport(finalReport);
 
       setStatus('complete');
       addLog({ message: '✅ Análisis completado exitosamente!', type: 'success' });
 
-    } catch (err: any) {
+    } catch (err) {
+      // Cancelled from the UI: handleCancel already reset the state
+      if (isAbortError(err) || ctrl.signal.aborted) return;
       console.error(err);
+      const message = describeError(err) || 'An unexpected error occurred';
       setStatus('error');
-      setErrorMsg(err.message || 'An unexpected error occurred');
-      addLog({ message: `❌ Error: ${err.message}`, type: 'error' });
+      setErrorMsg(message);
+      addLog({ message: `❌ Error: ${message}`, type: 'error' });
+    } finally {
+      // Only a run in flight keeps its controller
+      if (abortRef.current === ctrl) abortRef.current = null;
+    }
+  };
+
+  const isRunning = status === 'analyzing' || status === 'reconnecting' || status === 'fetching_report';
+
+  // CFG nodes of the hovered line, otherwise of the selected statement
+  const activeCfgNodes = !cfgLinks
+    ? []
+    : hoveredLine
+      ? nodesAtLine(hoveredLine.view === 'source' ? cfgLinks.source : cfgLinks.normalized, hoveredLine.line)
+      : highlightedLines
+        ? nodesAtLine(cfgLinks.source, highlightedLines.start)
+        : [];
+  const isNormalizedLineActive = (line: number) =>
+    activeCfgNodes.some(id => {
+      const range = cfgLinks?.normalized.get(id);
+      return !!range && line >= range.start && line <= range.end;
+    });
+
+  const handleCfgNodeClick = (id: string | null) => {
+    setSelectedAstNode(null);
+    setHighlightedLines(id ? cfgLinks?.source.get(id) ?? null : null);
+  };
+
+  const handleCancel = () => {
+    const ctrl = abortRef.current;
+    if (!ctrl || ctrl.signal.aborted) return;
+    ctrl.abort();
+
+    const analysisId = analysisIdRef.current;
+    if (analysisId) {
+      // Best effort: the UI is already idle even if the backend cannot be told
+      analysisClient.cancelAnalysis(analysisId).catch(err =>
+        console.warn('Failed to cancel analysis on the backend:', err)
+      );
     }
+
+    setStatus('idle');
+    setCurrentAgent(null);
+    addLog({
+      message: `⏹️ Análisis cancelado por el usuario${analysisId ? ` (ID: ${analysisId})` : ''}`,
+      type: 'warning',
+    });
+  };
+
+  // The current report (if any) followed by every other saved run
+  const comparisonSources = useMemo<ComparisonSource[]>(() => {
+    const describe = (names: string[], report: AnalysisReport) =>
+      `${names.join(', ') || 'Sin nombre'} · ${report.complexity_analysis.complexity.time.big_o}`;
+    return [
+      ...(report ? [{ id: report.analysis_id, label: `Actual: ${describe(extractFunctionNames(reportCode), report)}`, report }] : []),
+      ...history
+        .filter(entry => entry.id !== report?.analysis_id)
+        .map(entry => ({
+          id: entry.id,
+          label: `${describe(entry.functionNames, entry.report)} · ${new Date(entry.createdAt).toLocaleString()}`,
+          report: entry.report,
+        })),
+    ];
+  }, [report, history, reportCode]);
+
+  // Restores a past run exactly as it finished, without calling the backend
+  const handleOpenHistory = (entry: HistoryEntry) => {
+    if (isRunning) return;
+    setInputCode(entry.code);
+    setReportCode(entry.code);
+    setReport(entry.report);
+    setLogs(entry.logs);
+    setAgentRuns(entry.agentRuns);
+    setSelectedAstNode(null);
+    setHighlightedLines(null);
+    setErrorMsg(null);
+    setCurrentAgent(null);
+    setStatus('complete');
+    setHistoryId(entry.id);
+    analysisIdRef.current = entry.id;
+  };
+
+  // Shows one finished run of the batch as if it had been analyzed alone
+  const handleOpenBatchItem = (item: BatchItem) => {
+    if (isRunning || !item.report) return;
+    setInputCode(item.code);
+    setReportCode(item.code);
+    setReport(item.report);
+    setLogs([]);
+    setAgentRuns(item.agentRuns);
+    setSelectedAstNode(null);
+    setHighlightedLines(null);
+    setErrorMsg(null);
+    setCurrentAgent(null);
+    setStatus('complete');
+    setHistoryId(null);
+    analysisIdRef.current = item.analysisId ?? null;
+    setBatchOpen(false);
+  };
+
+  const handleSaveLibrary = (draft: LibraryDraft) =>
+    saveLibraryEntry(draft).then(entry =>
+      setLibrary(prev => [...prev.filter(e => e.id !== entry.id), entry].sort((a, b) => a.name.localeCompare(b.name)))
+    );
+
+  const handleDeleteLibrary = (id: string) => {
+    deleteLibraryEntry(id)
+      .then(() => setLibrary(prev => prev.filter(e => e.id !== id)))
+      .catch(err => console.warn('Failed to delete library entry:', err));
+  };
+
+  const handleImportLibrary = async (text: string) => {
+    const count = await importLibrary(text, library);
+    setLibrary(await listLibrary());
+    return count;
+  };
+
+  const handleDeleteHistory = (id: string) => {
+    deleteAnalysis(id)
+      .then(() => setHistory(prev => prev.filter(e => e.id !== id)))
+      .catch(err => console.warn('Failed to delete history entry:', err));
+  };
+
+  const handleClearHistory = () => {
+    if (!window.confirm('¿Borrar todo el historial de análisis?')) return;
+    clearHistory()
+      .then(() => setHistory([]))
+      .catch(err => console.warn('Failed to clear history:', err));
   };
 
   return (
@@ -643,6 +402,60 @@ export const ComplexityAnalyzer: React.FC = () => {
           </h1>
         </div>
         <div className="flex items-center gap-4">
+          <button
+            onClick={() => {
+              setLibraryOpen(!libraryOpen);
+              setHistoryOpen(false);
+            }}
+            className={`flex items-center gap-1 text-xs transition-colors ${libraryOpen ? 'text-blue-400' : 'text-gray-500 hover:text-gray-300'}`}
+          >
+            <Library className="w-4 h-4" /> Biblioteca ({library.length})
+          </button>
+          <button
+            onClick={() => {
+              setHistoryOpen(!historyOpen);
+              setLibraryOpen(false);
+            }}
+            className={`flex items-center gap-1 text-xs transition-colors ${historyOpen ? 'text-blue-400' : 'text-gray-500 hover:text-gray-300'}`}
+          >
+            <History className="w-4 h-4" /> Historial ({history.length})
+          </button>
+          <button
+            onClick={() => {
+              setCompareOpen(!compareOpen);
+              setStepperOpen(false);
+              setBatchOpen(false);
+            }}
+            className={`flex items-center gap-1 text-xs transition-colors ${compareOpen ? 'text-blue-400' : 'text-gray-500 hover:text-gray-300'}`}
+          >
+            <GitCompare className="w-4 h-4" /> Comparar
+          </button>
+          <button
+            onClick={() => {
+              setStepperOpen(!stepperOpen);
+              setCompareOpen(false);
+              setBatchOpen(false);
+            }}
+            className={`flex items-center gap-1 text-xs transition-colors ${stepperOpen ? 'text-blue-400' : 'text-gray-500 hover:text-gray-300'}`}
+          >
+            <StepForward className="w-4 h-4" /> Paso a paso
+          </button>
+          <button
+            onClick={() => {
+              setBatchOpen(!batchOpen);
+              setCompareOpen(false);
+              setStepperOpen(false);
+            }}
+            className={`flex items-center gap-1 text-xs transition-colors ${batchOpen ? 'text-blue-400' : 'text-gray-500 hover:text-gray-300'}`}
+          >
+            <Layers className="w-4 h-4" /> Lote
+          </button>
+          <a href="#/patterns" className="text-xs text-gray-500 hover:text-gray-300 transition-colors">
+            Patrones
+          </a>
+          <a href="#/explorer" className="text-xs text-gray-500 hover:text-gray-300 transition-colors">
+            Agent Explorer →
+          </a>
           {status === 'analyzing' && currentAgent && (
             <div className="flex items-center gap-2 px-3 py-1 bg-gray-800 rounded-full">
               <span className="text-lg">{AGENT_CONFIG[currentAgent]?.icon || '⚙️'}</span>
@@ -657,6 +470,11 @@ export const ComplexityAnalyzer: React.FC = () => {
               <Loader2 className="w-4 h-4 animate-spin" /> Iniciando...
             </span>
           )}
+          {status === 'reconnecting' && (
+            <span className="flex items-center gap-2 text-sm text-yellow-400">
+              <RefreshCw className="w-4 h-4 animate-spin" /> Reconectando...
+            </span>
+          )}
           {status === 'fetching_report' && (
             <span className="flex items-center gap-2 text-sm text-purple-400">
               <Loader2 className="w-4 h-4 animate-spin" /> Generando Reporte...
@@ -676,6 +494,28 @@ export const ComplexityAnalyzer: React.FC = () => {
       </header>
 
       <main className="flex-1 flex overflow-hidden">
+        {historyOpen && (
+          <HistorySidebar
+            entries={history}
+            activeId={historyId}
+            disabled={isRunning}
+            onOpen={handleOpenHistory}
+            onDelete={handleDeleteHistory}
+            onClear={handleClearHistory}
+            onClose={() => setHistoryOpen(false)}
+          />
+        )}
+        {libraryOpen && (
+          <LibrarySidebar
+            entries={library}
+            currentCode={inputCode}
+            onLoad={entry => setInputCode(entry.code)}
+            onSave={handleSaveLibrary}
+            onDelete={handleDeleteLibrary}
+            onImport={handleImportLibrary}
+            onClose={() => setLibraryOpen(false)}
+          />
+        )}
         {/* Left Panel: Input & Logs */}
         <div className="w-1/3 flex flex-col border-r border-gray-800 bg-gray-900/50">
           {/* Code Input */}
@@ -701,34 +541,63 @@ export const ComplexityAnalyzer: React.FC = () => {
             <select
               className="mb-2 bg-gray-900 border border-gray-700 rounded-lg p-2 text-sm text-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
               onChange={(e) => {
-                const selected = PREDEFINED_ALGORITHMS.find(a => a.name === e.target.value);
+                const selected = [...BUILT_IN_ENTRIES, ...library].find(entry => entry.id === e.target.value);
                 if (selected) setInputCode(selected.code);
               }}
-              defaultValue={PREDEFINED_ALGORITHMS[2].name}
+              defaultValue={BUILT_IN_ENTRIES[2].id}
             >
-              {PREDEFINED_ALGORITHMS.map(algo => (
-                <option key={algo.name} value={algo.name}>{algo.name}</option>
-              ))}
+              <optgroup label="Predefinidos">
+                {BUILT_IN_ENTRIES.map(entry => (
+                  <option key={entry.id} value={entry.id}>{entry.name}</option>
+                ))}
+              </optgroup>
+              {library.length > 0 && (
+                <optgroup label="Mi biblioteca">
+                  {library.map(entry => (
+                    <option key={entry.id} value={entry.id}>{entry.name}</option>
+                  ))}
+                </optgroup>
+              )}
             </select>
-            <textarea
+            <SourceEditor
               value={inputCode}
-              onChange={(e) => setInputCode(e.target.value)}
+              onChange={setInputCode}
               placeholder="Paste your algorithm here..."
-              className="flex-1 bg-gray-900 border border-gray-700 rounded-lg p-4 font-mono text-sm text-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500/50 resize-none"
-              spellCheck={false}
+              highlightedLines={highlightedLines}
+              diagnostics={syntax.diagnostics}
+              onHoverLine={line => setHoveredLine(line === null ? null : { view: 'source', line })}
             />
-            <button
-              onClick={handleAnalyze}
-              disabled={status === 'analyzing' || status === 'fetching_report' || !inputCode.trim()}
-              className="mt-4 w-full py-3 bg-blue-600 hover:bg-blue-500 disabled:bg-gray-800 disabled:text-gray-500 disabled:cursor-not-allowed rounded-lg font-semibold transition-all flex items-center justify-center gap-2 shadow-lg shadow-blue-900/20"
-            >
-              {status === 'analyzing' || status === 'fetching_report' ? (
-                <Loader2 className="w-5 h-5 animate-spin" />
-              ) : (
-                <Play className="w-5 h-5" />
+            {inputCode.trim() && (
+              <div className={`mt-2 text-xs ${syntax.diagnostics.length > 0 ? 'text-red-400' : 'text-green-500'}`}>
+                {syntax.diagnostics.length > 0
+                  ? `✗ ${syntax.diagnostics.length} error(es) de sintaxis · L${syntax.diagnostics[0].line + 1}:${syntax.diagnostics[0].col + 1} ${syntax.diagnostics[0].message}`
+                  : '✓ Sintaxis válida'}
+              </div>
+            )}
+            <div className="mt-4 flex gap-2">
+              <button
+                onClick={handleAnalyze}
+                disabled={isRunning || !inputCode.trim() || syntax.diagnostics.length > 0}
+                title={syntax.diagnostics.length > 0 ? 'Corrige los errores de sintaxis para analizar' : undefined}
+                className="flex-1 py-3 bg-blue-600 hover:bg-blue-500 disabled:bg-gray-800 disabled:text-gray-500 disabled:cursor-not-allowed rounded-lg font-semibold transition-all flex items-center justify-center gap-2 shadow-lg shadow-blue-900/20"
+              >
+                {isRunning ? (
+                  <Loader2 className="w-5 h-5 animate-spin" />
+                ) : (
+                  <Play className="w-5 h-5" />
+                )}
+                {status === 'analyzing' || status === 'reconnecting' ? 'Processing...' : 'Analyze Complexity'}
+              </button>
+              {isRunning && (
+                <button
+                  onClick={handleCancel}
+                  className="px-4 py-3 bg-red-900/60 hover:bg-red-800 text-red-200 rounded-lg font-semibold transition-all flex items-center justify-center gap-2"
+                  title="Cancelar análisis"
+                >
+                  <Square className="w-4 h-4" /> Cancel
+                </button>
               )}
-              {status === 'analyzing' ? 'Processing...' : 'Analyze Complexity'}
-            </button>
+            </div>
           </div>
 
           {/* Logs Console */}
@@ -772,39 +641,25 @@ export const ComplexityAnalyzer: React.FC = () => {
 
         {/* Right Panel: Results */}
         <div className="flex-1 flex flex-col bg-gray-950 overflow-hidden">
-          {report ? (
+          {/* Kept mounted so a running batch survives switching views */}
+          <div className={batchOpen ? 'flex-1 overflow-y-auto p-8' : 'hidden'}>
+            <BatchRunner onOpen={handleOpenBatchItem} onClose={() => setBatchOpen(false)} />
+          </div>
+          {batchOpen ? null : compareOpen ? (
+            <div className="flex-1 overflow-y-auto p-8">
+              <ReportComparison sources={comparisonSources} onClose={() => setCompareOpen(false)} />
+            </div>
+          ) : stepperOpen ? (
+            <div className="flex-1 overflow-y-auto p-8">
+              <ExecutionVisualizer code={inputCode} onLineChange={setHighlightedLines} onClose={() => setStepperOpen(false)} />
+            </div>
+          ) : report ? (
             <div className="flex-1 overflow-y-auto p-8 space-y-8">
-              {/* Validation Status Banner */}
-              <div className="flex items-center justify-between bg-gray-900 rounded-xl p-4 border border-gray-800">
-                <div className="flex items-center gap-3">
-                  {report.validation?.status?.toUpperCase() === 'APPROVED' ? (
-                    <CheckCircle className="w-5 h-5 text-green-400" />
-                  ) : report.validation?.status?.toUpperCase() === 'WEAK' ? (
-                    <AlertCircle className="w-5 h-5 text-yellow-400" />
-                  ) : report.validation?.status?.toUpperCase() === 'REJECTED' ? (
-                    <XCircle className="w-5 h-5 text-red-400" />
-                  ) : (
-                    <Activity className="w-5 h-5 text-gray-400" />
-                  )}
-                  <div>
-                    <h3 className={`font-bold ${
-                      report.validation?.status?.toUpperCase() === 'APPROVED' ? 'text-green-400' :
-                      report.validation?.status?.toUpperCase() === 'WEAK' ? 'text-yellow-400' :
-                      report.validation?.status?.toUpperCase() === 'REJECTED' ? 'text-red-400' : 'text-gray-400'
-                    }`}>
-                      Analysis Status: {report.validation?.status || 'UNKNOWN'}
-                    </h3>
-                    <p className="text-xs text-gray-500">
-                      Confidence: {report.validation?.confidence ? `${(report.validation.confidence * 100).toFixed(1)}%` : 'N/A'}
-                    </p>
-                  </div>
-                </div>
-                {report.validation?.issues && report.validation.issues.length > 0 && (
-                  <div className="text-xs text-gray-400 text-right">
-                    {report.validation.issues.length} issues found
-                  </div>
-                )}
-              </div>
+              <ExportMenu report={report} code={reportCode} />
+              {agentRuns.length > 0 && <PipelineTimeline runs={agentRuns} live={false} />}
+
+              {/* Validation Status */}
+              <ValidationPanel validation={report.validation} />
 
               {/* Complexity Overview */}
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -853,6 +708,12 @@ export const ComplexityAnalyzer: React.FC = () => {
                 </div>
               </div>
 
+              {report.algorithmic_patterns && report.algorithmic_patterns.length > 0 && (
+                <AlgorithmicPatternsPanel patterns={report.algorithmic_patterns} />
+              )}
+
+              <GrowthChart report={report} />
+
               {/* Recurrence & Math Breakdown */}
               {report.complexity_analysis?.recurrence && (
                 <div className="bg-gray-900 rounded-xl p-6 border border-gray-800 shadow-xl">
@@ -870,21 +731,34 @@ export const ComplexityAnalyzer: React.FC = () => {
                       <div>
                         <span className="text-sm text-gray-500 uppercase tracking-wider font-bold">Solution Steps</span>
                         <ul className="list-decimal list-inside mt-2 space-y-1 text-gray-400 text-sm">
-                          {Array.isArray(report.complexity_analysis.recurrence.solution_steps) 
-                            ? report.complexity_analysis.recurrence.solution_steps.map((step, idx) => (
-                                <li key={idx}>{step}</li>
-                              ))
-                            : String(report.complexity_analysis.recurrence.solution_steps).split('\n').map((step, idx) => (
-                                <li key={idx}>{step.replace(/^- /, '')}</li>
-                              ))
-                          }
+                          {report.complexity_analysis.recurrence.solution_steps.map((step, idx) => (
+                            <li key={idx}>{step}</li>
+                          ))}
                         </ul>
                       </div>
                     )}
+                    {report.complexity_analysis.recurrence.closed_form && (
+                      <div>
+                        <span className="text-sm text-gray-500 uppercase tracking-wider font-bold">Closed Form</span>
+                        <div className="text-lg text-green-300 mt-1">
+                          <ReactMarkdown remarkPlugins={[remarkMath]} rehypePlugins={[rehypeKatex]}>
+                            {`$${report.complexity_analysis.recurrence.closed_form}$`}
+                          </ReactMarkdown>
+                        </div>
+                      </div>
+                    )}
+                    <RecurrenceCheck recurrence={report.complexity_analysis.recurrence} />
                   </div>
                 </div>
               )}
 
+              {/* Empirical benchmark */}
+              <BenchmarkPanel
+                key={report.analysis_id}
+                code={reportCode}
+                bound={report.complexity_analysis?.complexity?.time?.theta || report.complexity_analysis?.complexity?.time?.big_o}
+              />
+
               {/* Explanation */}
               <div className="bg-gray-900 rounded-xl p-6 border border-gray-800 shadow-xl">
                 <h2 className="text-lg font-semibold text-gray-300 mb-4 border-b border-gray-800 pb-2">Analysis Report</h2>
@@ -947,7 +821,7 @@ export const ComplexityAnalyzer: React.FC = () => {
                         </span>
                       </div>
                       <div className="overflow-x-auto bg-white rounded-lg p-4">
-                        <MermaidDiagram chart={report.diagram.diagram.mermaid} />
+                        <MermaidDiagram chart={report.diagram.diagram.mermaid} title={report.diagram.diagram.name || 'Diagrama Principal'} />
                       </div>
                     </div>
                   )}
@@ -955,7 +829,7 @@ export const ComplexityAnalyzer: React.FC = () => {
                   {/* Additional Diagrams from diagrams array */}
                   {report.diagram.diagrams && report.diagram.diagrams.length > 0 && (
                     <div className="grid grid-cols-1 gap-6">
-                      {report.diagram.diagrams.map((diag: any, index: number) => (
+                      {report.diagram.diagrams.map((diag, index) => (
                         diag.syntax_valid && diag.mermaid && (
                           <div key={index} className="bg-gray-900 rounded-xl p-6 border border-gray-800 shadow-xl">
                             <div className="flex items-center justify-between mb-4">
@@ -975,7 +849,7 @@ export const ComplexityAnalyzer: React.FC = () => {
                               </span>
                             </div>
                             <div className="overflow-x-auto bg-white rounded-lg p-4">
-                              <MermaidDiagram chart={diag.mermaid} />
+                              <MermaidDiagram chart={diag.mermaid} title={diag.name || `Diagrama ${index + 1}`} />
                             </div>
                           </div>
                         )
@@ -986,26 +860,94 @@ export const ComplexityAnalyzer: React.FC = () => {
               )}
 
               {/* Legacy artifacts support */}
-              {report.artifacts && Object.entries(report.artifacts).map(([key, artifact]: [string, any]) => (
+              {report.artifacts && Object.entries(report.artifacts).map(([key, artifact]) => (
                 artifact.artifact_type === 'mermaid' && (
                   <div key={key} className="bg-gray-900 rounded-xl p-6 border border-gray-800 shadow-xl">
                     <h2 className="text-lg font-semibold text-gray-300 mb-4 capitalize">{key.replace(/_/g, ' ')}</h2>
+                    {key === cfgLinks?.chartKey && (
+                      <p className="-mt-3 mb-4 text-xs text-gray-500">
+                        Haz clic en un nodo para resaltar su sentencia; pasa el cursor sobre el código para ubicarla en el grafo.
+                      </p>
+                    )}
                     <div className="overflow-x-auto bg-white rounded-lg p-4">
-                      <MermaidDiagram chart={artifact.content} />
+                      {key === cfgLinks?.chartKey ? (
+                        <MermaidDiagram
+                          chart={artifact.content}
+                          title={key.replace(/_/g, ' ')}
+                          activeNodes={activeCfgNodes}
+                          onNodeClick={handleCfgNodeClick}
+                        />
+                      ) : (
+                        <MermaidDiagram chart={artifact.content} title={key.replace(/_/g, ' ')} />
+                      )}
                     </div>
                   </div>
                 )
               ))}
 
+              {/* Parsed Program */}
+              {report.ast && (
+                <AstExplorer
+                  ast={report.ast}
+                  source={reportCode}
+                  localAst={reportAst}
+                  selected={selectedAstNode}
+                  onSelect={(node, lines) => {
+                    setSelectedAstNode(node);
+                    setHighlightedLines(lines);
+                  }}
+                />
+              )}
+
+              {/* Loops, conditionals and recursion */}
+              {report.control_structures && (
+                <ControlStructuresPanel
+                  structures={report.control_structures}
+                  ast={report.ast}
+                  source={reportCode}
+                  selectedLines={highlightedLines}
+                  onSelectLines={lines => {
+                    setSelectedAstNode(null);
+                    setHighlightedLines(lines);
+                  }}
+                />
+              )}
+
               {/* Normalized Pseudocode */}
               {report.pseudocode_normalized && (
                 <div className="bg-gray-900 rounded-xl p-6 border border-gray-800 shadow-xl">
                   <h2 className="text-lg font-semibold text-gray-300 mb-4 border-b border-gray-800 pb-2">Normalized Pseudocode</h2>
-                  <pre className="bg-black rounded-lg p-4 overflow-x-auto text-sm font-mono text-green-400">
-                    {report.pseudocode_normalized}
+                  <pre
+                    className="bg-black rounded-lg p-4 overflow-x-auto text-sm font-mono text-green-400"
+                    onMouseLeave={() => setHoveredLine(null)}
+                  >
+                    {report.pseudocode_normalized.split('\n').map((line, i) => (
+                      <div
+                        key={i}
+                        className={isNormalizedLineActive(i) ? 'bg-blue-500/20 -mx-4 px-4' : undefined}
+                        onMouseEnter={() => cfgLinks && setHoveredLine({ view: 'normalized', line: i })}
+                      >
+                        {line || ' '}
+                      </div>
+                    ))}
                   </pre>
                 </div>
               )}
+
+              {/* Line-by-line costs */}
+              {(report.pseudocode_with_costs || report.pseudocode_normalized) && (
+                <CostTable text={report.pseudocode_with_costs || report.pseudocode_normalized!} />
+              )}
+            </div>
+          ) : agentRuns.length > 0 ? (
+            <div className="flex-1 overflow-y-auto p-8 space-y-8">
+              {status === 'error' && (
+                <div className="flex items-center gap-3 bg-red-900/20 border border-red-800 rounded-xl p-4 text-red-400">
+                  <AlertCircle className="w-5 h-5 shrink-0" />
+                  <p className="text-sm font-medium">{errorMsg}</p>
+                </div>
+              )}
+              <PipelineTimeline runs={agentRuns} live={isRunning} />
             </div>
           ) : (
             <div className="flex-1 flex flex-col items-center justify-center text-gray-600 p-8 text-center">
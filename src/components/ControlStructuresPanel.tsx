@@ -0,0 +1,164 @@
+import React, { useMemo } from 'react';
+import { Repeat } from 'lucide-react';
+import type { AstNode, ConditionalInfo, ControlStructures, LoopInfo } from '../api';
+import { formatExpr, resolveOperators } from '../lib/ast';
+import type { LineRange } from '../lib/ast';
+import { advanceTypeOf, buildOutline, formatBound, loopHeaderLine } from '../lib/controlStructures';
+import type { OutlineEntry } from '../lib/controlStructures';
+
+interface ControlStructuresPanelProps {
+  structures: ControlStructures;
+  ast?: AstNode;
+  source: string;
+  selectedLines: LineRange | null;
+  onSelectLines: (lines: LineRange | null) => void;
+}
+
+const loopLabel = (loop: LoopInfo, headerLine?: string) => {
+  if (loop.type === 'While') return `WHILE (${loop.variable || '…'})`;
+  const step = loop.step !== undefined ? ` STEP ${formatBound(loop.step, headerLine)}` : '';
+  return `FOR ${loop.variable} ← ${formatBound(loop.start, headerLine)} TO ${formatBound(loop.end, headerLine)}${step}`;
+};
+
+const AdvanceBadge: React.FC<{ type: string }> = ({ type }) => {
+  const advance = advanceTypeOf(type);
+  return (
+    <span className={`text-[10px] px-1.5 rounded shrink-0 ${advance.color}`} title={advance.hint}>
+      {advance.label}
+    </span>
+  );
+};
+
+interface OutlineRowProps {
+  entry: OutlineEntry;
+  lines: string[];
+  source: string;
+  selectedLines: LineRange | null;
+  onSelectLines: (lines: LineRange | null) => void;
+}
+
+const OutlineRow: React.FC<OutlineRowProps> = ({ entry, lines, source, selectedLines, onSelectLines }) => {
+  const headerLine = entry.lines
+    ? lines[entry.lines.start]
+    : entry.kind === 'loop' ? loopHeaderLine(entry.info as LoopInfo, source) : undefined;
+  const isSelected = !!entry.lines && selectedLines?.start === entry.lines.start && selectedLines?.end === entry.lines.end;
+
+  let label: string;
+  if (entry.kind === 'loop') {
+    label = loopLabel(entry.info as LoopInfo, headerLine);
+  } else {
+    const conditional = entry.info as ConditionalInfo;
+    const condition = conditional.condition !== undefined ? resolveOperators(formatExpr(conditional.condition), headerLine) : '…';
+    label = `IF ${condition}${conditional.has_else ? ' … ELSE' : ''}`;
+  }
+
+  return (
+    <li>
+      <div
+        className={`flex items-center gap-2 rounded px-2 py-1 ${entry.lines ? 'cursor-pointer' : ''} ${isSelected ? 'bg-blue-900/50' : 'hover:bg-gray-800'}`}
+        onClick={() => entry.lines && onSelectLines(isSelected ? null : entry.lines)}
+      >
+        <span className={`text-[10px] px-1.5 rounded shrink-0 ${entry.kind === 'loop' ? 'bg-green-900 text-green-300' : 'bg-yellow-900 text-yellow-300'}`}>
+          {entry.info.type}
+        </span>
+        <span className="font-mono text-gray-300 truncate">{label}</span>
+        {entry.kind === 'loop' && <AdvanceBadge type={(entry.info as LoopInfo).advance_type} />}
+        <span className="ml-auto text-[10px] text-gray-600 shrink-0">
+          prof. {entry.info.depth}
+          {entry.lines && ` · L${entry.lines.start + 1}`}
+        </span>
+      </div>
+      {entry.children.length > 0 && (
+        <ul className="ml-4 border-l border-gray-800 pl-1">
+          {entry.children.map((child, i) => (
+            <OutlineRow key={i} entry={child} lines={lines} source={source} selectedLines={selectedLines} onSelectLines={onSelectLines} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+export const ControlStructuresPanel: React.FC<ControlStructuresPanelProps> = ({
+  structures,
+  ast,
+  source,
+  selectedLines,
+  onSelectLines,
+}) => {
+  const outline = useMemo(() => buildOutline(structures, ast, source), [structures, ast, source]);
+  const lines = useMemo(() => source.split('\n'), [source]);
+  const recursion = structures.recursion_info;
+
+  return (
+    <div className="bg-gray-900 rounded-xl p-6 border border-gray-800 shadow-xl">
+      <div className="flex items-center justify-between mb-4 border-b border-gray-800 pb-2">
+        <h2 className="text-lg font-semibold text-gray-300 flex items-center gap-2">
+          <Repeat className="w-5 h-5" /> Estructuras de Control
+        </h2>
+        <span className="text-xs text-gray-500">
+          {structures.loops.length} ciclos · {structures.conditionals.length} condicionales · anidamiento máx. {structures.max_nesting_depth}
+        </span>
+      </div>
+
+      {outline.length > 0 ? (
+        <ul className="text-xs mb-4">
+          {outline.map((entry, i) => (
+            <OutlineRow key={i} entry={entry} lines={lines} source={source} selectedLines={selectedLines} onSelectLines={onSelectLines} />
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500 mb-4">Sin ciclos ni condicionales.</p>
+      )}
+
+      {structures.loops.length > 0 && (
+        <div className="overflow-x-auto mb-4">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-800">
+                <th className="py-1 pr-3 font-medium">Variable</th>
+                <th className="py-1 pr-3 font-medium">Desde</th>
+                <th className="py-1 pr-3 font-medium">Hasta</th>
+                <th className="py-1 pr-3 font-medium">Avance</th>
+                <th className="py-1 font-medium">Dentro de</th>
+              </tr>
+            </thead>
+            <tbody>
+              {structures.loops.map((loop, i) => {
+                const headerLine = loopHeaderLine(loop, source);
+                return (
+                  <tr key={i} className="border-b border-gray-800/50">
+                    <td className="py-1 pr-3 font-mono text-blue-300">{loop.variable || '—'}</td>
+                    <td className="py-1 pr-3 font-mono text-gray-300">{formatBound(loop.start, headerLine)}</td>
+                    <td className="py-1 pr-3 font-mono text-gray-300">{formatBound(loop.end, headerLine)}</td>
+                    <td className="py-1 pr-3">
+                      <AdvanceBadge type={loop.advance_type} />
+                      <span className="ml-2 text-gray-500">{advanceTypeOf(loop.advance_type).hint}</span>
+                    </td>
+                    <td className="py-1 text-gray-400">{loop.parent ?? '—'}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="text-xs">
+        <span className="text-gray-500">Recursión: </span>
+        {recursion?.is_recursive ? (
+          <>
+            <span className="text-purple-300">sí, {recursion.calls.length} llamada(s)</span>
+            <ul className="mt-1 ml-4 list-disc text-gray-300 font-mono">
+              {recursion.calls.map((call, i) => (
+                <li key={i}>{formatExpr(call)}</li>
+              ))}
+            </ul>
+          </>
+        ) : (
+          <span className="text-gray-400">no</span>
+        )}
+      </div>
+    </div>
+  );
+};
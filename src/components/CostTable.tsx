@@ -0,0 +1,118 @@
+import React, { useMemo } from 'react';
+import { AlertTriangle, HelpCircle } from 'lucide-react';
+import { buildCostTable } from '../lib/costTable';
+import type { FunctionTotal } from '../lib/costTable';
+import { TeX } from './TeX';
+
+interface CostTableProps {
+  // Pseudocode with `►` annotations, as in pseudocode_with_costs
+  text: string;
+}
+
+const namesOf = (functions: FunctionTotal[]) => functions.map(f => f.name).join(', ');
+
+// Cost/times table in the CLRS style: one row per line, closing each
+// function with T(n) = Σ c_k · t
+export const CostTable: React.FC<CostTableProps> = ({ text }) => {
+  const table = useMemo(() => buildCostTable(text), [text]);
+
+  return (
+    <div className="bg-gray-900 rounded-xl p-6 border border-gray-800 shadow-xl">
+      <h2 className="text-lg font-semibold text-gray-300 mb-4 border-b border-gray-800 pb-2">Cost Table</h2>
+
+      {!table ? (
+        <p className="flex items-center gap-2 text-sm text-gray-500">
+          <HelpCircle className="w-4 h-4 shrink-0" /> No se pudo interpretar el pseudocódigo anotado para construir la tabla.
+        </p>
+      ) : (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm border-collapse [&_p]:inline">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 uppercase tracking-wider border-b border-gray-800">
+                  <th className="py-2 pr-3 font-bold">#</th>
+                  <th className="py-2 pr-6 font-bold">Line</th>
+                  <th className="py-2 pr-6 font-bold">Cost</th>
+                  <th className="py-2 pr-6 font-bold">Times</th>
+                  <th className="py-2 font-bold">Running total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {table.rows.map((row, idx) => {
+                  const fn = table.functions.find(f => f.after === idx);
+                  return (
+                    <React.Fragment key={row.line}>
+                      <tr className="border-b border-gray-800/50 align-top">
+                        <td className="py-1 pr-3 text-gray-600 font-mono text-xs">{row.line + 1}</td>
+                        <td
+                          className={`py-1 pr-6 font-mono whitespace-pre ${row.annotation ? 'text-gray-500 italic' : 'text-green-400'}`}
+                        >
+                          {row.code}
+                        </td>
+                        <td className="py-1 pr-6 text-gray-300">{row.cost && <TeX tex={row.cost} />}</td>
+                        <td className="py-1 pr-6 text-gray-300 whitespace-nowrap">{row.times && <TeX tex={row.times} />}</td>
+                        <td className="py-1 text-gray-400 whitespace-nowrap">{row.total && <TeX tex={row.total} />}</td>
+                      </tr>
+                      {fn && (
+                        <tr className="bg-blue-900/10 border-b border-gray-800">
+                          <td />
+                          <td colSpan={4} className="py-2 text-blue-300">
+                            <TeX tex={`T_{\\mathrm{${fn.name.replace(/_/g, '\\_')}}}(n) ${fn.worstCase ? '\\le' : '='} ${fn.total}`} />
+                            {fn.bound && (
+                              <span className="ml-3 text-xs px-2 py-0.5 rounded-full bg-gray-800 text-gray-300">
+                                <TeX tex={fn.bound} />
+                              </span>
+                            )}
+                            {fn.recursive && (
+                              <span className="ml-3 text-xs px-2 py-0.5 rounded-full bg-yellow-900/40 text-yellow-300">ver la recurrencia</span>
+                            )}
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {table.symbols.length > 0 && (
+            <div className="mt-4">
+              <span className="text-sm text-gray-500 uppercase tracking-wider font-bold">Símbolos</span>
+              <ul className="mt-2 space-y-1 text-sm text-gray-400 [&_p]:inline">
+                {table.symbols.map(([symbol, meaning]) => (
+                  <li key={symbol}>
+                    <TeX tex={symbol} />: {meaning}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {(table.worstCase || table.recursive) && (
+            <div className="mt-4 space-y-1 text-sm text-yellow-400/80">
+              {table.worstCase && (
+                <p className="flex items-center gap-2">
+                  <AlertTriangle className="w-4 h-4 shrink-0" />
+                  <span>
+                    Peor caso en {namesOf(table.functions.filter(f => f.worstCase))}: las líneas dentro de un IF se cuentan como si su
+                    rama siempre se ejecutara, así que sus veces (≤) son cotas superiores.
+                  </span>
+                </p>
+              )}
+              {table.recursive && (
+                <p className="flex items-center gap-2">
+                  <AlertTriangle className="w-4 h-4 shrink-0" />
+                  <span>
+                    En {namesOf(table.functions.filter(f => f.recursive))} las llamadas a funciones del programa se cuentan como una
+                    operación; su costo está en la recurrencia.
+                  </span>
+                </p>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,272 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Dices, Pause, Play, SkipBack, SkipForward, StepBack, StepForward, X } from 'lucide-react';
+import type { LineRange } from '../lib/ast';
+import { defaultOrder, entryFunction, generateValues, inferParameters, seededRandom } from '../lib/benchmark';
+import { parsePseudocode } from '../lib/parser';
+import { parseInputArray, traceExecution } from '../lib/trace';
+import type { Trace, TraceStep } from '../lib/trace';
+
+interface ExecutionVisualizerProps {
+  code: string;
+  // Line of the current step, to highlight in the editor
+  onLineChange: (lines: LineRange | null) => void;
+  onClose: () => void;
+}
+
+const SPEEDS: Array<[number, string]> = [
+  [1000, 'Lento'],
+  [400, 'Normal'],
+  [120, 'Rápido'],
+];
+
+const transportButton = 'p-2 rounded-lg bg-gray-800 text-gray-300 hover:bg-gray-700 disabled:opacity-40 disabled:hover:bg-gray-800';
+
+// Entry function name and whether it takes a searched value
+const describeEntry = (code: string): { entry: string; hasTarget: boolean } => {
+  const ast = parsePseudocode(code).ast;
+  const fn = ast ? entryFunction(ast) : undefined;
+  if (!ast || !fn) return { entry: '', hasTarget: false };
+  return { entry: String(fn.name), hasTarget: inferParameters(ast, fn).some(p => p.kind === 'absent') };
+};
+
+const randomInput = (code: string): { values: number[]; target: number } => {
+  const values = generateValues(8, defaultOrder(describeEntry(code).entry), seededRandom(Date.now())).map(v => Math.max(1, Math.floor(v / 2)));
+  return { values, target: values[5] };
+};
+
+const cellColor = (step: TraceStep, index: number): string => {
+  if (step.written.includes(index)) return 'bg-red-500';
+  if (step.compared.includes(index)) return 'bg-yellow-400';
+  if (step.read.includes(index)) return 'bg-blue-400';
+  return 'bg-gray-600';
+};
+
+const ArrayBars: React.FC<{ step: TraceStep; base: number; name: string }> = ({ step, base, name }) => {
+  const max = Math.max(1, ...step.values.map(v => Math.abs(v ?? 0)));
+  return (
+    <div>
+      <div className="flex items-end gap-1 h-48 px-2">
+        {step.values.map((value, i) => (
+          <div key={i} className="flex-1 flex flex-col items-center justify-end h-full min-w-0">
+            <span className="text-[10px] font-mono text-gray-400 mb-1">{value ?? '·'}</span>
+            <div
+              className={`w-full rounded-t transition-all duration-200 ${cellColor(step, i + base)}`}
+              style={{ height: `${Math.max(4, ((Math.abs(value ?? 0)) / max) * 100)}%` }}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-1 px-2 mt-1 border-t border-gray-700 pt-1">
+        {step.values.map((_, i) => (
+          <div key={i} className="flex-1 min-w-0 text-center">
+            <span className="block text-[10px] font-mono text-gray-500">{i + base}</span>
+            {step.pointers.filter(([, index]) => index === i + base).map(([pointer]) => (
+              <span key={pointer} className="block text-[10px] font-mono font-bold text-cyan-400">↑{pointer}</span>
+            ))}
+          </div>
+        ))}
+      </div>
+      <div className="mt-3 flex flex-wrap gap-4 text-xs text-gray-400">
+        <span className="font-mono text-gray-300">{name}</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-yellow-400" /> comparado</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-red-500" /> escrito / intercambiado</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-blue-400" /> leído</span>
+      </div>
+    </div>
+  );
+};
+
+export const ExecutionVisualizer: React.FC<ExecutionVisualizerProps> = ({ code, onLineChange, onClose }) => {
+  const [initial] = useState(() => randomInput(code));
+  const [inputText, setInputText] = useState(initial.values.join(', '));
+  const [targetText, setTargetText] = useState(String(initial.target));
+  const [trace, setTrace] = useState<Trace | null>(null);
+  const [index, setIndex] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [delay, setDelay] = useState(SPEEDS[1][0]);
+  const [inputError, setInputError] = useState<string | null>(null);
+
+  const steps = trace?.steps ?? [];
+  const last = Math.max(0, steps.length - 1);
+  const step: TraceStep | undefined = steps[Math.min(index, last)];
+  const isPlaying = playing && index < last;
+  const lines = step?.lines ?? null;
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    const timer = setInterval(() => setIndex(i => Math.min(i + 1, last)), delay);
+    return () => clearInterval(timer);
+  }, [isPlaying, delay, last]);
+
+  useEffect(() => {
+    onLineChange(lines);
+  }, [lines, onLineChange]);
+
+  useEffect(() => () => onLineChange(null), [onLineChange]);
+
+  const handleGenerate = () => {
+    const generated = randomInput(code);
+    setInputText(generated.values.join(', '));
+    setTargetText(String(generated.target));
+  };
+
+  const handleRun = () => {
+    const values = parseInputArray(inputText);
+    if (!values) {
+      setInputError('Escribe números separados por comas');
+      return;
+    }
+    if (values.length > 40) {
+      setInputError('Usa como máximo 40 elementos para que las barras se lean');
+      return;
+    }
+    const target = Number(targetText);
+    setInputError(null);
+    setTrace(traceExecution(code, values, Number.isFinite(target) ? target : undefined));
+    setIndex(0);
+    setPlaying(false);
+  };
+
+  const handlePlay = () => {
+    if (isPlaying) {
+      setPlaying(false);
+      return;
+    }
+    if (index >= last) setIndex(0);
+    setPlaying(true);
+  };
+
+  const goTo = (next: number) => {
+    setPlaying(false);
+    setIndex(Math.max(0, Math.min(next, last)));
+  };
+
+  const sourceLine = lines ? code.split('\n')[lines.start]?.trim() : null;
+  const usesTarget = useMemo(() => describeEntry(code).hasTarget, [code]);
+
+  return (
+    <div className="bg-gray-900 rounded-xl p-6 border border-gray-800 shadow-xl">
+      <div className="flex items-center justify-between mb-4 border-b border-gray-800 pb-2">
+        <h2 className="text-lg font-semibold text-gray-300 flex items-center gap-2">
+          <StepForward className="w-5 h-5" /> Ejecución paso a paso
+        </h2>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-300" title="Cerrar">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3 mb-4 text-sm">
+        <label className="flex-1 min-w-[14rem] text-gray-400">
+          <span className="block text-xs mb-1">Arreglo de entrada</span>
+          <input
+            value={inputText}
+            onChange={(e) => setInputText(e.target.value)}
+            className="w-full bg-gray-950 border border-gray-700 rounded-lg p-2 font-mono text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+          />
+        </label>
+        {usesTarget && (
+          <label className="w-28 text-gray-400">
+            <span className="block text-xs mb-1">Valor buscado</span>
+            <input
+              value={targetText}
+              onChange={(e) => setTargetText(e.target.value)}
+              className="w-full bg-gray-950 border border-gray-700 rounded-lg p-2 font-mono text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+            />
+          </label>
+        )}
+        <button onClick={handleGenerate} className="flex items-center gap-2 px-3 py-2 rounded-lg bg-gray-800 text-gray-300 hover:bg-gray-700" title="Generar una entrada aleatoria">
+          <Dices className="w-4 h-4" /> Generar
+        </button>
+        <button onClick={handleRun} className="flex items-center gap-2 px-3 py-2 rounded-lg bg-blue-600 text-white hover:bg-blue-500">
+          <Play className="w-4 h-4" /> Ejecutar
+        </button>
+      </div>
+      {inputError && <p className="mb-4 text-xs text-red-400">{inputError}</p>}
+
+      {!trace && (
+        <p className="text-sm text-gray-500">
+          Ejecuta el código del editor con la entrada de arriba y recorre la ejecución línea por línea.
+        </p>
+      )}
+
+      {trace?.error && steps.length === 0 && (
+        <p className="p-3 rounded-lg bg-red-900/20 border border-red-800 text-sm text-red-400">{trace.error}</p>
+      )}
+
+      {trace && step && (
+        <>
+          {trace.code !== code && (
+            <p className="mb-3 text-xs text-yellow-400">El código cambió desde esta ejecución; vuelve a ejecutar para actualizarla.</p>
+          )}
+
+          <div className="flex items-center gap-2 mb-3">
+            <button onClick={() => goTo(0)} disabled={index === 0} className={transportButton} title="Inicio">
+              <SkipBack className="w-4 h-4" />
+            </button>
+            <button onClick={() => goTo(index - 1)} disabled={index === 0} className={transportButton} title="Paso anterior">
+              <StepBack className="w-4 h-4" />
+            </button>
+            <button onClick={handlePlay} className={transportButton} title={isPlaying ? 'Pausa' : 'Reproducir'}>
+              {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+            </button>
+            <button onClick={() => goTo(index + 1)} disabled={index >= last} className={transportButton} title="Paso siguiente">
+              <StepForward className="w-4 h-4" />
+            </button>
+            <button onClick={() => goTo(last)} disabled={index >= last} className={transportButton} title="Final">
+              <SkipForward className="w-4 h-4" />
+            </button>
+            <input
+              type="range"
+              min={0}
+              max={last}
+              value={Math.min(index, last)}
+              onChange={(e) => goTo(Number(e.target.value))}
+              className="flex-1 accent-blue-500"
+            />
+            <span className="text-xs font-mono text-gray-400 w-24 text-right">{Math.min(index, last) + 1} / {steps.length}</span>
+            <select
+              value={delay}
+              onChange={(e) => setDelay(Number(e.target.value))}
+              className="bg-gray-950 border border-gray-700 rounded-lg p-1.5 text-xs text-gray-300 focus:outline-none"
+            >
+              {SPEEDS.map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="mb-4 p-3 rounded-lg bg-black font-mono text-sm">
+            <span className="text-gray-500">{lines ? `L${lines.start + 1}` : '—'}</span>{' '}
+            <span className="text-green-400">{sourceLine ?? step.node.type}</span>
+            <span className="block mt-1 text-xs text-gray-500">{step.stack.join(' → ')}</span>
+          </div>
+
+          {trace.arrayName && <ArrayBars step={step} base={trace.base} name={trace.arrayName} />}
+
+          <div className="mt-4">
+            <h3 className="text-xs font-bold uppercase tracking-wider text-gray-500 mb-2">Variables</h3>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              {step.variables.map(([name, value]) => (
+                <div key={name} className="px-2 py-1 rounded bg-gray-800/50 font-mono text-xs truncate" title={`${name} = ${value}`}>
+                  <span className="text-blue-300">{name}</span> <span className="text-gray-500">=</span> <span className="text-gray-200">{value}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {index >= last && (
+            <p className="mt-4 text-sm">
+              {trace.error ? (
+                <span className="text-red-400">Error: {trace.error}</span>
+              ) : trace.truncated ? (
+                <span className="text-yellow-400">Traza cortada a {steps.length.toLocaleString()} pasos; usa una entrada más pequeña.</span>
+              ) : (
+                <span className="text-gray-400">Resultado: <span className="font-mono text-green-400">{trace.result}</span></span>
+              )}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
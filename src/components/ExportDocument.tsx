@@ -0,0 +1,173 @@
+import React from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import katex from 'katex';
+import type { AnalysisReport } from '../api';
+import { splitStep } from '../lib/reportContent';
+import type { RenderedDiagram } from '../lib/reportContent';
+
+// Standalone report rendered to static HTML for export. Math is emitted as
+// MathML so the file needs neither the KaTeX stylesheet nor its fonts.
+
+interface ExportDocumentProps {
+  report: AnalysisReport;
+  code: string;
+  title: string;
+  diagrams: RenderedDiagram[];
+  generatedAt: Date;
+}
+
+const STYLES = `
+  body { font-family: system-ui, -apple-system, 'Segoe UI', sans-serif; color: #1f2937; max-width: 960px; margin: 2rem auto; padding: 0 1.5rem; line-height: 1.5; }
+  h1 { font-size: 1.75rem; margin-bottom: 0.25rem; }
+  h2 { font-size: 1.2rem; border-bottom: 1px solid #e5e7eb; padding-bottom: 0.25rem; margin-top: 2rem; }
+  .meta { color: #6b7280; font-size: 0.85rem; }
+  pre { background: #f3f4f6; border-radius: 6px; padding: 0.75rem 1rem; overflow-x: auto; font-size: 0.85rem; }
+  table { border-collapse: collapse; width: 100%; font-size: 0.9rem; }
+  th, td { border: 1px solid #e5e7eb; padding: 0.4rem 0.6rem; text-align: left; vertical-align: top; }
+  th { background: #f9fafb; }
+  .invariant { background: #eff6ff; border-left: 4px solid #3b82f6; padding: 0.5rem 1rem; font-style: italic; }
+  .hint { background: #fefce8; border-left: 4px solid #eab308; padding: 0.5rem 1rem; margin: 0.5rem 0; }
+  .diagram { margin: 1rem 0; page-break-inside: avoid; }
+  .diagram svg { max-width: 100%; height: auto; }
+  @media print { body { margin: 0; max-width: none; } h2 { page-break-after: avoid; } pre, table { page-break-inside: avoid; } }
+`;
+
+const TeX: React.FC<{ tex?: string; display?: boolean }> = ({ tex, display }) =>
+  tex ? (
+    <span dangerouslySetInnerHTML={{ __html: katex.renderToString(tex, { output: 'mathml', throwOnError: false, displayMode: display }) }} />
+  ) : (
+    <span>—</span>
+  );
+
+const BOUNDS = [['big_o', 'O'], ['omega', 'Ω'], ['theta', 'Θ']] as const;
+const CASES = [['best', 'Mejor'], ['average', 'Promedio'], ['worst', 'Peor']] as const;
+
+export const ExportDocument: React.FC<ExportDocumentProps> = ({ report, code, title, diagrams, generatedAt }) => {
+  const { complexity, cases, recurrence } = report.complexity_analysis;
+  const invariant = typeof report.invariant_or_rule === 'string' ? report.invariant_or_rule : report.invariant_or_rule?.invariant;
+
+  return (
+    <html lang="es">
+      <head>
+        <meta charSet="utf-8" />
+        <title>{title}</title>
+        <style>{STYLES}</style>
+      </head>
+      <body>
+        <h1>{title}</h1>
+        <p className="meta">
+          Analysis ID: {report.analysis_id} · Generado el {generatedAt.toLocaleString()}
+        </p>
+
+        <h2>Código fuente</h2>
+        <pre>{code}</pre>
+
+        <h2>Complejidad</h2>
+        <table>
+          <thead>
+            <tr>
+              <th />
+              {BOUNDS.map(([, label]) => <th key={label}>{label}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {(['time', 'space'] as const).map(kind => (
+              <tr key={kind}>
+                <th>{kind === 'time' ? 'Tiempo' : 'Espacio'}</th>
+                {BOUNDS.map(([key]) => <td key={key}><TeX tex={complexity[kind][key]} /></td>)}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {cases && (
+          <>
+            <h2>Casos</h2>
+            <table>
+              <thead>
+                <tr><th>Caso</th><th>Complejidad</th><th>Descripción</th><th>Entrada</th></tr>
+              </thead>
+              <tbody>
+                {CASES.map(([key, label]) => cases[key] && (
+                  <tr key={key}>
+                    <th>{label}</th>
+                    <td><TeX tex={cases[key]!.complexity} /></td>
+                    <td>{cases[key]!.description}</td>
+                    <td>{cases[key]!.input_characteristics ?? ''}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </>
+        )}
+
+        {recurrence && (
+          <>
+            <h2>Recurrencia</h2>
+            <p><TeX tex={recurrence.relation} display /></p>
+            {recurrence.base_case && <p>Caso base: <TeX tex={recurrence.base_case} /></p>}
+            {recurrence.closed_form && <p>Forma cerrada: <TeX tex={recurrence.closed_form} /></p>}
+            {recurrence.solution_steps && recurrence.solution_steps.length > 0 && (
+              <ol>
+                {recurrence.solution_steps.map((step, i) => {
+                  const { label, math } = splitStep(step);
+                  return <li key={i}>{label}{math && <>: <TeX tex={math} /></>}</li>;
+                })}
+              </ol>
+            )}
+          </>
+        )}
+
+        {invariant && (
+          <>
+            <h2>Invariante</h2>
+            <p className="invariant">{invariant}</p>
+          </>
+        )}
+
+        {report.explanation && (
+          <>
+            <h2>Explicación</h2>
+            <ReactMarkdown remarkPlugins={[remarkMath]} rehypePlugins={[[rehypeKatex, { output: 'mathml' }]]}>
+              {report.explanation}
+            </ReactMarkdown>
+          </>
+        )}
+
+        {report.hints && report.hints.length > 0 && (
+          <>
+            <h2>Sugerencias</h2>
+            {report.hints.map((hint, i) => (
+              <div key={i} className="hint">
+                <strong>{hint.suggestion}</strong>
+                {hint.details && <div>{hint.details}</div>}
+              </div>
+            ))}
+          </>
+        )}
+
+        {report.pseudocode_normalized && (
+          <>
+            <h2>Pseudocódigo normalizado</h2>
+            <pre>{report.pseudocode_normalized}</pre>
+          </>
+        )}
+
+        {diagrams.length > 0 && (
+          <>
+            <h2>Diagramas</h2>
+            {diagrams.map((diagram, i) => (
+              <div key={i} className="diagram">
+                <h3>{diagram.title}</h3>
+                {diagram.description && <p className="meta">{diagram.description}</p>}
+                {diagram.svg ? <div dangerouslySetInnerHTML={{ __html: diagram.svg }} /> : <pre>{diagram.source}</pre>}
+              </div>
+            ))}
+          </>
+        )}
+      </body>
+    </html>
+  );
+};
@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { Download, FileCode, FileText, Loader2, Printer } from 'lucide-react';
+import type { AnalysisReport } from '../api';
+import { describeError } from '../api';
+import { downloadFile } from '../lib/download';
+
+interface ExportMenuProps {
+  report: AnalysisReport;
+  code: string;
+}
+
+type ExportFormat = 'md' | 'html' | 'pdf';
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ report, code }) => {
+  const [busy, setBusy] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    setBusy(format);
+    setError(null);
+    try {
+      // Loaded on demand: it pulls in react-dom/server
+      const { exportFileName, printHtml, reportToHtml, reportToMarkdown } = await import('../lib/exportReport');
+      if (format === 'md') {
+        downloadFile(exportFileName(report, code, 'md'), reportToMarkdown(report, code), 'text/markdown;charset=utf-8');
+      } else {
+        const html = await reportToHtml(report, code);
+        if (format === 'html') downloadFile(exportFileName(report, code, 'html'), html, 'text/html;charset=utf-8');
+        else await printHtml(html);
+      }
+    } catch (err) {
+      console.error('Export failed:', err);
+      setError(describeError(err));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const buttons: Array<{ format: ExportFormat; label: string; icon: React.ReactNode; title: string }> = [
+    { format: 'md', label: 'Markdown', icon: <FileText className="w-3 h-3" />, title: 'Markdown con LaTeX y bloques Mermaid' },
+    { format: 'html', label: 'HTML', icon: <FileCode className="w-3 h-3" />, title: 'HTML autónomo con diagramas SVG' },
+    { format: 'pdf', label: 'PDF', icon: <Printer className="w-3 h-3" />, title: 'Imprimir o guardar como PDF' },
+  ];
+
+  return (
+    <div className="flex items-center justify-end gap-2">
+      {error && <span className="text-xs text-red-400 mr-2">{error}</span>}
+      <span className="text-xs text-gray-500 flex items-center gap-1">
+        <Download className="w-3 h-3" /> Exportar:
+      </span>
+      {buttons.map(({ format, label, icon, title }) => (
+        <button
+          key={format}
+          onClick={() => handleExport(format)}
+          disabled={busy !== null}
+          title={title}
+          className="flex items-center gap-1 px-3 py-1.5 text-xs bg-gray-800 hover:bg-gray-700 disabled:opacity-50 text-gray-300 rounded-lg transition-colors"
+        >
+          {busy === format ? <Loader2 className="w-3 h-3 animate-spin" /> : icon} {label}
+        </button>
+      ))}
+    </div>
+  );
+};
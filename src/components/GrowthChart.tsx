@@ -0,0 +1,312 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, TrendingUp } from 'lucide-react';
+import type { AnalysisReport } from '../api';
+import { GROWTH_CLASSES, normalizeBound, parseGrowth } from '../lib/growth';
+import type { Growth } from '../lib/growth';
+import { TeX } from './TeX';
+
+interface GrowthChartProps {
+  report: AnalysisReport;
+}
+
+type Scale = 'linear' | 'log';
+
+// One plotted curve; bounds with the same expression share it
+interface Series {
+  labels: string[];
+  tex: string;
+  growth: Growth;
+  color: string;
+}
+
+const COLORS = ['#60a5fa', '#34d399', '#f472b6', '#fbbf24', '#a78bfa', '#f87171'];
+
+const REFERENCE_TEX = ['1', '\\log n', 'n', 'n \\log n', 'n^2', '2^n'];
+const REFERENCES = GROWTH_CLASSES.filter(growth => REFERENCE_TEX.includes(growth.tex));
+
+// Chart geometry (viewBox units)
+const WIDTH = 640;
+const HEIGHT = 300;
+const PAD = { left: 64, right: 56, top: 12, bottom: 32 };
+const SAMPLES = 120;
+
+const boundsOf = (report: AnalysisReport): Array<[string, string | undefined]> => {
+  const { complexity, cases } = report.complexity_analysis ?? {};
+  return [
+    ['O', complexity?.time?.big_o],
+    ['Ω', complexity?.time?.omega],
+    ['Θ', complexity?.time?.theta],
+    ['Mejor caso', cases?.best?.complexity],
+    ['Caso promedio', cases?.average?.complexity],
+    ['Peor caso', cases?.worst?.complexity],
+  ];
+};
+
+const collectSeries = (report: AnalysisReport) => {
+  const series = new Map<string, Series>();
+  const unparsed: Array<[string, string]> = [];
+  for (const [label, tex] of boundsOf(report)) {
+    if (!tex?.trim() || tex.trim() === '-') continue;
+    const key = normalizeBound(tex);
+    const existing = series.get(key);
+    if (existing) {
+      existing.labels.push(label);
+      continue;
+    }
+    const growth = parseGrowth(tex);
+    if (growth) series.set(key, { labels: [label], tex, growth, color: COLORS[series.size % COLORS.length] });
+    else unparsed.push([label, tex]);
+  }
+  return { series: [...series.values()], unparsed };
+};
+
+// 1, 2 or 5 times a power of ten, about `count` steps over [min, max]
+const niceTicks = (min: number, max: number, count = 5): number[] => {
+  const raw = (max - min) / count;
+  const magnitude = 10 ** Math.floor(Math.log10(raw));
+  const step = [1, 2, 5, 10].map(f => f * magnitude).find(s => s >= raw) ?? raw;
+  const ticks: number[] = [];
+  for (let t = Math.ceil(min / step) * step; t <= max + step * 1e-9; t += step) ticks.push(Number(t.toPrecision(12)));
+  return ticks;
+};
+
+// log10 of the powers of ten (and 2·, 5· when the range is short) inside
+// [from, to], also log10; stays exact where 10^x overflows
+const logTicks = (from: number, to: number): number[] => {
+  const factors = to - from <= 2 ? [1, 2, 5] : [1];
+  const every = Math.max(1, Math.ceil((to - from) / 8));
+  const ticks: number[] = [];
+  for (let e = Math.floor(from); e <= Math.ceil(to); e += every) {
+    for (const f of factors) {
+      const t = e + Math.log10(f);
+      if (t >= from - 1e-9 && t <= to + 1e-9) ticks.push(t);
+    }
+  }
+  return ticks;
+};
+
+const formatValue = (value: number): string =>
+  Math.abs(value) >= 1e6 || (value !== 0 && Math.abs(value) < 1e-2)
+    ? value.toExponential(0).replace('e+', 'e')
+    : value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+const formatPower = (exponent: number): string =>
+  Number.isInteger(exponent) && Math.abs(exponent) >= 6 ? `1e${exponent}` : formatValue(10 ** exponent);
+
+const GrowthPlot: React.FC<{
+  series: Series[];
+  references: Growth[];
+  range: [number, number];
+  xScale: Scale;
+  yScale: Scale;
+}> = ({ series, references, range, xScale, yScale }) => {
+  const [nMin, nMax] = range;
+  const toX = (n: number) => (xScale === 'log' ? Math.log(n) : n);
+  const xs = Array.from({ length: SAMPLES + 1 }, (_, i) =>
+    xScale === 'log' ? Math.exp(Math.log(nMin) + ((Math.log(nMax) - Math.log(nMin)) * i) / SAMPLES) : nMin + ((nMax - nMin) * i) / SAMPLES
+  );
+  // Plotted y: ln f(n) on a log axis, f(n) on a linear one
+  const toY = (logValue: number) => (yScale === 'log' ? logValue : Math.exp(logValue));
+
+  // The y range follows the reported bounds; references that leave it are clipped
+  const fitted = (series.length > 0 ? series.map(s => s.growth) : references).flatMap(growth =>
+    xs.map(n => toY(growth.logAt(n))).filter(Number.isFinite)
+  );
+  let yMin = yScale === 'log' ? Math.min(0, ...fitted) : 0;
+  let yMax = Math.max(...fitted, yScale === 'log' ? 0 : 1);
+  if (yMax - yMin < (yScale === 'log' ? Math.LN10 : 1e-9)) {
+    yMax = yScale === 'log' ? yMin + Math.LN10 : yMin + 1;
+  }
+  yMax += (yMax - yMin) * 0.05;
+  if (yScale === 'log') yMin -= (yMax - yMin) * 0.02;
+
+  const left = toX(nMin);
+  const right = toX(nMax);
+  const px = (n: number) => PAD.left + ((toX(n) - left) / (right - left)) * (WIDTH - PAD.left - PAD.right);
+  const py = (y: number) => HEIGHT - PAD.bottom - ((y - yMin) / (yMax - yMin)) * (HEIGHT - PAD.top - PAD.bottom);
+  // Keeps points far outside the plot from producing huge coordinates
+  const clampY = (y: number) => Math.max(yMin - (yMax - yMin), Math.min(yMax + (yMax - yMin), y));
+
+  const pathOf = (growth: Growth) => {
+    let pen = 'M';
+    const parts: string[] = [];
+    for (const n of xs) {
+      const y = toY(growth.logAt(n));
+      if (Number.isNaN(y) || y === -Infinity) {
+        pen = 'M';
+        continue;
+      }
+      parts.push(`${pen}${px(n).toFixed(1)},${py(clampY(y)).toFixed(1)}`);
+      pen = 'L';
+    }
+    return parts.join(' ');
+  };
+
+  // Label at the right edge, or where the curve leaves the top of the plot
+  const endLabelY = (growth: Growth) => {
+    const y = toY(growth.logAt(nMax));
+    return Number.isFinite(y) ? py(Math.max(yMin, Math.min(yMax, y))) : PAD.top;
+  };
+
+  const xTicks = xScale === 'log' ? logTicks(Math.log10(nMin), Math.log10(nMax)).map(e => 10 ** e) : niceTicks(nMin, nMax);
+  const yTicks: Array<[number, string]> =
+    yScale === 'log'
+      ? logTicks(yMin / Math.LN10, yMax / Math.LN10).map(e => [e * Math.LN10, formatPower(Number(e.toFixed(6)))])
+      : niceTicks(yMin, yMax).map(v => [v, formatValue(v)]);
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+      <defs>
+        <clipPath id="growth-plot">
+          <rect x={PAD.left} y={PAD.top} width={WIDTH - PAD.left - PAD.right} height={HEIGHT - PAD.top - PAD.bottom} />
+        </clipPath>
+      </defs>
+      {yTicks.map(([y, label]) => (
+        <g key={y}>
+          <line x1={PAD.left} x2={WIDTH - PAD.right} y1={py(y)} y2={py(y)} className="stroke-gray-800" />
+          <text x={PAD.left - 6} y={py(y) + 4} textAnchor="end" className="fill-gray-500 text-[10px]">
+            {label}
+          </text>
+        </g>
+      ))}
+      {xTicks.map(n => (
+        <g key={n}>
+          <line x1={px(n)} x2={px(n)} y1={PAD.top} y2={HEIGHT - PAD.bottom} className="stroke-gray-800" />
+          <text x={px(n)} y={HEIGHT - PAD.bottom + 16} textAnchor="middle" className="fill-gray-500 text-[10px]">
+            {formatValue(n)}
+          </text>
+        </g>
+      ))}
+      <text x={WIDTH - PAD.right} y={HEIGHT - 4} textAnchor="end" className="fill-gray-500 text-[10px]">n</text>
+      <g clipPath="url(#growth-plot)">
+        {references.map(growth => (
+          <path key={growth.tex} d={pathOf(growth)} fill="none" className="stroke-gray-600" strokeWidth={1.5} strokeDasharray="4 4">
+            <title>{growth.tex}</title>
+          </path>
+        ))}
+        {series.map(s => (
+          <path key={s.tex} d={pathOf(s.growth)} fill="none" stroke={s.color} strokeWidth={2.5}>
+            <title>{`${s.labels.join(', ')}: ${s.tex}`}</title>
+          </path>
+        ))}
+      </g>
+      {references.map(growth => (
+        <text key={growth.tex} x={WIDTH - PAD.right + 4} y={endLabelY(growth) + 3} className="fill-gray-500 text-[9px]">
+          {growth.tex.replace(/\\log/g, 'log').replace('^2', '²')}
+        </text>
+      ))}
+    </svg>
+  );
+};
+
+export const GrowthChart: React.FC<GrowthChartProps> = ({ report }) => {
+  const [minText, setMinText] = useState('1');
+  const [maxText, setMaxText] = useState('100');
+  const [xScale, setXScale] = useState<Scale>('linear');
+  const [yScale, setYScale] = useState<Scale>('linear');
+  const [showReferences, setShowReferences] = useState(true);
+
+  const { series, unparsed } = useMemo(() => collectSeries(report), [report]);
+
+  const nMin = Number(minText);
+  const nMax = Number(maxText);
+  const rangeError =
+    !Number.isFinite(nMin) || !Number.isFinite(nMax) || nMin < 1
+      ? 'El rango debe empezar en n ≥ 1'
+      : nMax <= nMin
+        ? 'El máximo debe ser mayor que el mínimo'
+        : nMax > 1e9
+          ? 'Usa un máximo de hasta 10⁹'
+          : null;
+
+  const scaleButton = (active: boolean) =>
+    `px-2 py-1 rounded ${active ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-400 hover:bg-gray-700'}`;
+
+  return (
+    <div className="bg-gray-900 rounded-xl p-6 border border-gray-800 shadow-xl">
+      <h2 className="text-lg font-semibold text-gray-300 mb-4 border-b border-gray-800 pb-2 flex items-center gap-2">
+        <TrendingUp className="w-5 h-5" /> Growth Rate
+      </h2>
+
+      <div className="flex flex-wrap items-center gap-4 mb-4 text-xs text-gray-400">
+        <label className="flex items-center gap-2">
+          n desde
+          <input
+            type="number"
+            min={1}
+            value={minText}
+            onChange={(e) => setMinText(e.target.value)}
+            className="w-20 bg-gray-950 border border-gray-700 rounded p-1 font-mono text-gray-200 focus:outline-none"
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          hasta
+          <input
+            type="number"
+            min={2}
+            value={maxText}
+            onChange={(e) => setMaxText(e.target.value)}
+            className="w-24 bg-gray-950 border border-gray-700 rounded p-1 font-mono text-gray-200 focus:outline-none"
+          />
+        </label>
+        <span className="flex items-center gap-1">
+          Eje n
+          <button onClick={() => setXScale('linear')} className={scaleButton(xScale === 'linear')}>lineal</button>
+          <button onClick={() => setXScale('log')} className={scaleButton(xScale === 'log')}>log</button>
+        </span>
+        <span className="flex items-center gap-1">
+          Eje f(n)
+          <button onClick={() => setYScale('linear')} className={scaleButton(yScale === 'linear')}>lineal</button>
+          <button onClick={() => setYScale('log')} className={scaleButton(yScale === 'log')}>log</button>
+        </span>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={showReferences} onChange={(e) => setShowReferences(e.target.checked)} className="accent-blue-500" />
+          Clases de referencia
+        </label>
+      </div>
+
+      {rangeError ? (
+        <p className="text-sm text-red-400">{rangeError}</p>
+      ) : series.length === 0 && !showReferences ? (
+        <p className="text-sm text-gray-500">Ninguna cota del reporte se pudo graficar.</p>
+      ) : (
+        <GrowthPlot
+          series={series}
+          references={showReferences ? REFERENCES : []}
+          range={[nMin, nMax]}
+          xScale={xScale}
+          yScale={yScale}
+        />
+      )}
+
+      {series.length > 0 && (
+        <div className="mt-3 flex flex-wrap gap-4 text-xs text-gray-400">
+          {series.map(s => (
+            <span key={s.tex} className="flex items-center gap-2">
+              <span className="w-4 h-0.5" style={{ backgroundColor: s.color }} />
+              {s.labels.join(' · ')}
+              <span className="text-gray-200 [&_p]:inline"><TeX tex={s.tex} /></span>
+            </span>
+          ))}
+          {showReferences && (
+            <span className="flex items-center gap-2">
+              <span className="w-4 border-t-2 border-dashed border-gray-600" /> Referencia
+            </span>
+          )}
+        </div>
+      )}
+
+      {unparsed.length > 0 && (
+        <div className="mt-4 p-3 rounded-lg bg-yellow-900/20 border border-yellow-800 text-xs text-yellow-400 space-y-1">
+          {unparsed.map(([label, tex]) => (
+            <p key={label} className="flex items-center gap-2">
+              <AlertTriangle className="w-4 h-4 shrink-0" />
+              <span>{label}: no se pudo interpretar</span>
+              <code className="font-mono text-yellow-200">{tex}</code>
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { History, Search, Trash2, X } from 'lucide-react';
+import { matchesQuery } from '../lib/history';
+import type { HistoryEntry } from '../lib/history';
+
+interface HistorySidebarProps {
+  entries: HistoryEntry[];
+  activeId: string | null;
+  // Reopening is disabled while an analysis is running
+  disabled?: boolean;
+  onOpen: (entry: HistoryEntry) => void;
+  onDelete: (id: string) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const formatDate = (ms: number) =>
+  new Date(ms).toLocaleString(undefined, { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+export const HistorySidebar: React.FC<HistorySidebarProps> = ({
+  entries,
+  activeId,
+  disabled,
+  onOpen,
+  onDelete,
+  onClear,
+  onClose,
+}) => {
+  const [query, setQuery] = useState('');
+  const visible = query.trim() ? entries.filter(entry => matchesQuery(entry, query)) : entries;
+
+  return (
+    <aside className="w-80 shrink-0 flex flex-col border-r border-gray-800 bg-gray-900">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-800">
+        <h2 className="text-sm font-semibold text-gray-300 flex items-center gap-2">
+          <History className="w-4 h-4" /> Historial
+          <span className="text-xs text-gray-500 font-normal">({entries.length})</span>
+        </h2>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-300" title="Cerrar historial">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="p-3 border-b border-gray-800">
+        <div className="flex items-center gap-2 bg-gray-950 border border-gray-700 rounded-lg px-2 focus-within:ring-2 focus-within:ring-blue-500/50">
+          <Search className="w-3 h-3 text-gray-500" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Función o complejidad, p. ej. O(n^2)"
+            className="flex-1 bg-transparent py-1.5 text-xs text-gray-300 focus:outline-none"
+          />
+        </div>
+      </div>
+
+      <ul className="flex-1 overflow-y-auto">
+        {visible.length === 0 && (
+          <li className="p-4 text-xs text-gray-600 italic">
+            {entries.length === 0 ? 'Aún no hay análisis guardados.' : 'Sin resultados.'}
+          </li>
+        )}
+        {visible.map(entry => {
+          const time = entry.report.complexity_analysis.complexity.time;
+          return (
+            <li
+              key={entry.id}
+              className={`group flex items-center border-b border-gray-800/60 ${entry.id === activeId ? 'bg-blue-900/30' : 'hover:bg-gray-800/60'}`}
+            >
+              <button
+                onClick={() => onOpen(entry)}
+                disabled={disabled}
+                className="flex-1 min-w-0 text-left pl-4 pr-2 py-3 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm text-gray-200 truncate font-mono">
+                    {entry.functionNames.join(', ') || 'Sin nombre'}
+                  </span>
+                  <span className="text-xs font-mono text-blue-400 shrink-0">{time.big_o}</span>
+                </div>
+                <div className="flex items-center justify-between mt-1 text-[10px] text-gray-500">
+                  <span>{formatDate(entry.createdAt)}</span>
+                  <span className="font-mono truncate ml-2">{entry.id.slice(0, 8)}</span>
+                </div>
+              </button>
+              <button
+                onClick={() => onDelete(entry.id)}
+                className="mr-3 opacity-0 group-hover:opacity-100 text-gray-600 hover:text-red-400 transition-opacity"
+                title="Eliminar del historial"
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+
+      {entries.length > 0 && (
+        <button
+          onClick={onClear}
+          className="m-3 py-1.5 text-xs text-gray-500 hover:text-red-400 border border-gray-800 rounded-lg transition-colors"
+        >
+          Borrar historial
+        </button>
+      )}
+    </aside>
+  );
+};
@@ -1,7 +1,12 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import ReactMarkdown from 'react-markdown';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import 'katex/dist/katex.min.css';
 import { MermaidDiagram } from './MermaidDiagram';
 import { Play, Square, Loader2, Trash2, RefreshCw } from 'lucide-react';
+import { analysisClient, describeError } from '../api';
+import type { AgentEvent, PipelineEvent } from '../api';
 
 interface LogEntry {
   timestamp: string;
@@ -9,84 +14,198 @@ interface LogEntry {
   type: 'info' | 'error' | 'success';
 }
 
+interface AgentOutput {
+  agent: string;
+  state: string;
+  markdown: string;
+  duration_ms?: number;
+}
+
+const AGENT_TITLES: Record<string, string> = {
+  parser: '📝 Parser',
+  analyzer: '🔍 Analyzer',
+  complexity: '📊 Complexity',
+  validator: '✅ Validator',
+  diagram: '📈 Diagram',
+  explainer: '💡 Explainer',
+  report: '📋 Report',
+};
+
+const asRecord = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+
+// First Mermaid source found in a diagram agent artifact
+const extractMermaid = (data: Record<string, unknown>): string | null => {
+  const diagram = asRecord(asRecord(data.diagram).diagram);
+  if (typeof diagram.mermaid === 'string') return diagram.mermaid;
+  for (const artifact of Object.values(asRecord(data.artifacts))) {
+    const entry = asRecord(artifact);
+    if (entry.artifact_type === 'mermaid' && typeof entry.content === 'string') return entry.content;
+  }
+  return null;
+};
+
+// Summarizes an agent artifact as markdown for the output panel
+const artifactToMarkdown = (agent: string, data: Record<string, unknown>): string => {
+  switch (agent) {
+    case 'parser': {
+      const items = Array.isArray(asRecord(data.ast).items) ? (asRecord(data.ast).items as unknown[]) : [];
+      const names = items.map(item => `\`${asRecord(item).name}\``).join(', ');
+      return `AST generado con ${items.length} función(es): ${names || '—'}`;
+    }
+    case 'analyzer': {
+      const cs = asRecord(data.control_structures);
+      return [
+        `- Bucles: **${cs.loop_count ?? 0}**`,
+        `- Condicionales: **${cs.conditional_count ?? 0}**`,
+        `- Profundidad máxima de anidamiento: **${cs.max_nesting_depth ?? 0}**`,
+        `- Recursión: **${cs.has_recursion ? 'sí' : 'no'}**`,
+      ].join('\n');
+    }
+    case 'complexity': {
+      const time = asRecord(asRecord(data.complexity).time);
+      const space = asRecord(asRecord(data.complexity).space);
+      const recurrence = asRecord(data.recurrence);
+      const lines = [`- Tiempo: $${time.theta ?? time.big_o ?? '?'}$`, `- Espacio: $${space.theta ?? space.big_o ?? '?'}$`];
+      if (recurrence.relation) lines.push(`- Recurrencia: $${recurrence.relation}$`);
+      return lines.join('\n');
+    }
+    case 'validator': {
+      const validation = asRecord(data.validation);
+      const issues = Array.isArray(validation.issues) ? (validation.issues as unknown[]) : [];
+      return [
+        `Estado **${validation.status ?? 'UNKNOWN'}** (confianza ${((Number(validation.confidence) || 0) * 100).toFixed(1)}%)`,
+        ...issues.map(issue => `- ${asRecord(issue).severity}: ${asRecord(issue).message}`),
+      ].join('\n');
+    }
+    case 'diagram':
+      return extractMermaid(data) ? 'Diagrama de flujo generado, ver la visualización abajo.' : 'Sin diagrama.';
+    case 'explainer':
+      return typeof data.explanation === 'string' ? data.explanation : '';
+    case 'report':
+      return 'Reporte consolidado disponible.';
+    default:
+      return '```json\n' + JSON.stringify(data, null, 2) + '\n```';
+  }
+};
+
 export const LangGraphViewer: React.FC = () => {
   const [inputCode, setInputCode] = useState('');
   const [logs, setLogs] = useState<LogEntry[]>([]);
-  const [markdownContent, setMarkdownContent] = useState('');
+  const [outputs, setOutputs] = useState<AgentOutput[]>([]);
   const [diagramCode, setDiagramCode] = useState('');
-  const [status, setStatus] = useState<'idle' | 'processing' | 'streaming' | 'complete' | 'error'>('idle');
+  const [status, setStatus] = useState<'idle' | 'processing' | 'streaming' | 'reconnecting' | 'complete' | 'error'>('idle');
+  const ctrlRef = useRef<AbortController | null>(null);
+  const analysisIdRef = useRef<string | null>(null);
+
+  // Leaving the view stops the stream and the backend pipeline of a run in flight
+  useEffect(
+    () => () => {
+      if (analysisIdRef.current) analysisClient.cancelAnalysis(analysisIdRef.current).catch(() => undefined);
+      ctrlRef.current?.abort();
+    },
+    []
+  );
+
+  const addLog = (message: string, type: 'info' | 'error' | 'success' = 'info') => {
+    setLogs((prev) => [...prev, { timestamp: new Date().toLocaleTimeString(), message, type }]);
+  };
+
+  const updateOutput = (agent: string, update: (output: AgentOutput) => AgentOutput) => {
+    setOutputs((prev) => {
+      const existing = prev.find(o => o.agent === agent);
+      if (!existing) return [...prev, update({ agent, state: 'started', markdown: '' })];
+      return prev.map(o => (o === existing ? update(o) : o));
+    });
+  };
+
+  // Results that arrive after a reset or a new run belong to the old analysis and are dropped
+  const loadArtifact = async (analysisId: string, event: AgentEvent, signal: AbortSignal) => {
+    try {
+      const data = await analysisClient.fetchAgentArtifact(analysisId, event.agent, event.artifacts?.json, signal);
+      if (signal.aborted) return;
+      const mermaid = event.agent === 'diagram' ? extractMermaid(data) : null;
+      if (mermaid) setDiagramCode(mermaid);
+      const markdown = artifactToMarkdown(event.agent, data);
+      updateOutput(event.agent, o => ({ ...o, markdown: o.markdown + (markdown ? `\n\n${markdown}` : '') }));
+    } catch (err) {
+      if (signal.aborted) return;
+      addLog(`No se pudo leer la salida de ${event.agent}: ${describeError(err)}`, 'error');
+    }
+  };
+
+  const handleEvent = (analysisId: string, event: PipelineEvent, signal: AbortSignal) => {
+    if (event.kind !== 'agent') {
+      const text = event.kind === 'progress' ? `Progreso: ${event.progress}%` : event.kind === 'status' ? `Status: ${event.status}` : event.message;
+      addLog(text);
+      return;
+    }
+
+    addLog(`[${event.agent}] ${event.state ?? 'processing'}${event.summary ? `: ${event.summary}` : ''}`, event.state === 'error' ? 'error' : 'info');
+    if (event.agent === 'pipeline') return;
+
+    updateOutput(event.agent, o => ({
+      ...o,
+      state: event.state ?? o.state,
+      duration_ms: event.duration_ms ?? o.duration_ms,
+      markdown: event.summary ? `${o.markdown}${o.markdown ? '\n\n' : ''}_${event.summary}_` : o.markdown,
+    }));
+
+    if (event.state === 'finished' && event.artifacts?.json && event.agent !== 'report') {
+      loadArtifact(analysisId, event, signal);
+    }
+  };
 
   const handleAnalyze = async () => {
     if (!inputCode.trim()) return;
 
     setStatus('processing');
     setLogs([]);
-    setMarkdownContent('');
+    setOutputs([]);
     setDiagramCode('');
+    ctrlRef.current?.abort();
+    const ctrl = new AbortController();
+    ctrlRef.current = ctrl;
+    analysisIdRef.current = null;
 
     try {
-      // In a real app, this would be your backend URL
-      // const response = await fetch('http://127.0.0.1:5000/api/analizar', {
-      //   method: 'POST',
-      //   body: JSON.stringify({ code: inputCode }),
-      //   headers: { 'Content-Type': 'application/json' }
-      // });
-
-      // Mocking the response for demonstration
-      setStatus('streaming');
       addLog('Starting analysis...');
-      
-      // Simulate streaming delay
-      setTimeout(() => {
-        addLog('Parser started...');
-        setMarkdownContent('**Analysis Started**\n\nAnalyzing your code structure...');
-      }, 500);
-
-      setTimeout(() => {
-        addLog('Detected pattern: Recursive loop');
-        setMarkdownContent((prev) => prev + '\n\n- Detected recursive loop in function `factorial`.\n- Checking base case...');
-      }, 1500);
-
-      setTimeout(() => {
-        addLog('Generating diagram...');
-        setDiagramCode(`graph TD
-    A[Start] --> B{Is n <= 1?}
-    B -- Yes --> C[Return 1]
-    B -- No --> D[Return n * factorial(n-1)]
-    D --> B`);
-        setMarkdownContent((prev) => prev + '\n\n### Flow Diagram Generated\nSee the visualization below.');
-        setStatus('complete');
-        addLog('Analysis complete.');
-      }, 3000);
-
-      // Real SSE implementation would look like this:
-      /*
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
-      
-      if (!reader) throw new Error('No reader available');
-
-      while (true) {
-        const { value, done } = await reader.read();
-        if (done) break;
-        
-        const chunk = decoder.decode(value);
-        // Parse chunk and update state
-        // ...
-      }
-      */
+      const analysisId = await analysisClient.startAnalysis(inputCode, ctrl.signal);
+      analysisIdRef.current = analysisId;
+      addLog(`Analysis ID: ${analysisId}`);
+
+      await analysisClient.streamProgress(analysisId, {
+        signal: ctrl.signal,
+        onOpen: () => {
+          setStatus('streaming');
+          addLog('Connected to SSE stream', 'success');
+        },
+        onEvent: (event) => {
+          setStatus(prev => (prev === 'reconnecting' ? 'streaming' : prev));
+          handleEvent(analysisId, event, ctrl.signal);
+        },
+        onReconnecting: (attempt) => {
+          setStatus('reconnecting');
+          addLog(`Connection lost, reconnecting (attempt ${attempt})...`, 'error');
+        },
+        onFallback: (reason) => {
+          setStatus('streaming');
+          addLog(`SSE unavailable (${reason}), polling status instead`);
+        },
+      });
 
+      analysisIdRef.current = null;
+      setStatus('complete');
+      addLog('Analysis complete.', 'success');
     } catch (error) {
+      if (ctrl.signal.aborted) return;
+      analysisIdRef.current = null;
       console.error(error);
       setStatus('error');
-      addLog('Error occurred during analysis.', 'error');
+      addLog(`Error: ${describeError(error)}`, 'error');
     }
   };
 
-  const addLog = (message: string, type: 'info' | 'error' | 'success' = 'info') => {
-    setLogs((prev) => [...prev, { timestamp: new Date().toLocaleTimeString(), message, type }]);
-  };
-
   return (
     <div className="flex flex-col h-screen bg-gray-900 text-white p-6 gap-6">
       <header className="flex justify-between items-center border-b border-gray-700 pb-4">
@@ -94,11 +213,18 @@ export const LangGraphViewer: React.FC = () => {
           LangGraph Explorer
         </h1>
         <div className="flex items-center gap-2">
+          <a href="#/" className="text-xs text-gray-400 hover:text-white transition-colors mr-2">
+            ← Complexity Analyzer
+          </a>
           <button
             onClick={() => {
+              if ((status === 'processing' || status === 'streaming' || status === 'reconnecting') && analysisIdRef.current) {
+                analysisClient.cancelAnalysis(analysisIdRef.current).catch(() => undefined);
+              }
+              ctrlRef.current?.abort();
               setStatus('idle');
               setLogs([]);
-              setMarkdownContent('');
+              setOutputs([]);
               setDiagramCode('');
               setInputCode('');
             }}
@@ -110,6 +236,7 @@ export const LangGraphViewer: React.FC = () => {
           <span className={`px-3 py-1 rounded-full text-xs font-medium ${
             status === 'idle' ? 'bg-gray-700 text-gray-300' :
             status === 'processing' || status === 'streaming' ? 'bg-blue-900 text-blue-200 animate-pulse' :
+            status === 'reconnecting' ? 'bg-yellow-900 text-yellow-200 animate-pulse' :
             status === 'complete' ? 'bg-green-900 text-green-200' :
             'bg-red-900 text-red-200'
           }`}>
@@ -130,14 +257,15 @@ export const LangGraphViewer: React.FC = () => {
               placeholder="Paste your code here..."
               value={inputCode}
               onChange={(e) => setInputCode(e.target.value)}
+              spellCheck={false}
             />
             <div className="p-3 border-t border-gray-700 bg-gray-800">
               <button
                 onClick={handleAnalyze}
-                disabled={status === 'processing' || status === 'streaming'}
+                disabled={status === 'processing' || status === 'streaming' || status === 'reconnecting'}
                 className="w-full py-2 px-4 bg-blue-600 hover:bg-blue-500 disabled:bg-gray-600 disabled:cursor-not-allowed rounded-lg font-medium flex items-center justify-center gap-2 transition-colors"
               >
-                {status === 'processing' || status === 'streaming' ? (
+                {status === 'processing' || status === 'streaming' || status === 'reconnecting' ? (
                   <><Loader2 className="w-4 h-4 animate-spin" /> Processing...</>
                 ) : (
                   <><Play className="w-4 h-4" /> Analyze Agent</>
@@ -151,7 +279,7 @@ export const LangGraphViewer: React.FC = () => {
               <span>Live Logs</span>
               <div className="flex items-center gap-2">
                 <span className="text-xs bg-gray-700 px-2 py-0.5 rounded text-gray-300">SSE Stream</span>
-                <button 
+                <button
                   onClick={() => setLogs([])}
                   className="text-gray-500 hover:text-white transition-colors"
                   title="Clear Logs"
@@ -182,22 +310,39 @@ export const LangGraphViewer: React.FC = () => {
             Agent Output
           </div>
           <div className="flex-1 overflow-y-auto p-6 space-y-8">
-            {/* Markdown Section */}
-            {markdownContent && (
-              <div className="prose prose-invert max-w-none">
-                <ReactMarkdown>{markdownContent}</ReactMarkdown>
-              </div>
-            )}
+            {/* Per-agent markdown, in pipeline order */}
+            {outputs.map(output => (
+              <section key={output.agent} className="border-l-2 border-gray-700 pl-4">
+                <h3 className="text-sm font-bold uppercase tracking-wider text-gray-300 flex items-center gap-2 mb-2">
+                  {AGENT_TITLES[output.agent] ?? output.agent}
+                  <span className={`text-[10px] px-2 py-0.5 rounded-full normal-case ${
+                    output.state === 'finished' ? 'bg-green-900 text-green-200' :
+                    output.state === 'error' ? 'bg-red-900 text-red-200' :
+                    output.state === 'skipped' ? 'bg-gray-700 text-gray-400' :
+                    'bg-blue-900 text-blue-200 animate-pulse'
+                  }`}>
+                    {output.state}{output.duration_ms ? ` · ${output.duration_ms}ms` : ''}
+                  </span>
+                </h3>
+                {output.markdown && (
+                  <div className="prose prose-invert prose-sm max-w-none">
+                    <ReactMarkdown remarkPlugins={[remarkMath]} rehypePlugins={[rehypeKatex]}>
+                      {output.markdown}
+                    </ReactMarkdown>
+                  </div>
+                )}
+              </section>
+            ))}
 
             {/* Diagram Section */}
             {diagramCode && (
               <div className="bg-white rounded-lg p-4 shadow-lg">
                 <h3 className="text-gray-800 font-bold mb-2 text-sm uppercase tracking-wider">Flow Visualization</h3>
-                <MermaidDiagram chart={diagramCode} />
+                <MermaidDiagram chart={diagramCode} title="Flow Visualization" />
               </div>
             )}
 
-            {!markdownContent && !diagramCode && (
+            {outputs.length === 0 && !diagramCode && (
               <div className="h-full flex flex-col items-center justify-center text-gray-500 gap-4">
                 <Square className="w-12 h-12 opacity-20" />
                 <p>Run an analysis to see the agent's output here.</p>
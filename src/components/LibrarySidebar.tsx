@@ -0,0 +1,249 @@
+import React, { useRef, useState } from 'react';
+import { Download, Library, Lock, Pencil, Plus, Search, Trash2, Upload, X } from 'lucide-react';
+import { downloadFile } from '../lib/download';
+import { extractFunctionNames } from '../lib/history';
+import { BUILT_IN_ENTRIES, CATEGORIES, exportLibrary, matchesLibraryQuery, parseTags } from '../lib/library';
+import type { AlgorithmCategory, LibraryDraft, LibraryEntry } from '../lib/library';
+
+interface LibrarySidebarProps {
+  // The user's entries; built-ins are added here
+  entries: LibraryEntry[];
+  // Code in the editor, offered when saving
+  currentCode: string;
+  onLoad: (entry: LibraryEntry) => void;
+  onSave: (draft: LibraryDraft) => Promise<void>;
+  onDelete: (id: string) => void;
+  // Resolves to the number of entries added
+  onImport: (text: string) => Promise<number>;
+  onClose: () => void;
+}
+
+interface EntryFormProps {
+  initial: { name: string; category: AlgorithmCategory; tags: string[] };
+  submitLabel: string;
+  // Only when editing: whether to also take the code from the editor
+  offerReplaceCode?: boolean;
+  onSubmit: (values: { name: string; category: AlgorithmCategory; tags: string[]; replaceCode: boolean }) => void;
+  onCancel: () => void;
+}
+
+const EntryForm: React.FC<EntryFormProps> = ({ initial, submitLabel, offerReplaceCode, onSubmit, onCancel }) => {
+  const [name, setName] = useState(initial.name);
+  const [category, setCategory] = useState(initial.category);
+  const [tags, setTags] = useState(initial.tags.join(', '));
+  const [replaceCode, setReplaceCode] = useState(false);
+
+  return (
+    <form
+      onSubmit={e => {
+        e.preventDefault();
+        if (name.trim()) onSubmit({ name: name.trim(), category, tags: parseTags(tags), replaceCode });
+      }}
+      className="space-y-2 p-3 bg-gray-950 border border-gray-800 rounded-lg text-xs"
+    >
+      <input
+        value={name}
+        onChange={e => setName(e.target.value)}
+        placeholder="Nombre"
+        autoFocus
+        className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1.5 text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+      />
+      <select
+        value={category}
+        onChange={e => setCategory(e.target.value as AlgorithmCategory)}
+        className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1.5 text-gray-300"
+      >
+        {CATEGORIES.map(c => (
+          <option key={c.id} value={c.id}>
+            {c.label}
+          </option>
+        ))}
+      </select>
+      <input
+        value={tags}
+        onChange={e => setTags(e.target.value)}
+        placeholder="Etiquetas separadas por comas"
+        className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1.5 text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+      />
+      {offerReplaceCode && (
+        <label className="flex items-center gap-2 text-gray-400">
+          <input type="checkbox" checked={replaceCode} onChange={e => setReplaceCode(e.target.checked)} className="accent-blue-500" />
+          Reemplazar el código con el del editor
+        </label>
+      )}
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onCancel} className="px-2 py-1 text-gray-400 hover:text-white">
+          Cancelar
+        </button>
+        <button type="submit" disabled={!name.trim()} className="px-3 py-1 rounded bg-blue-600 hover:bg-blue-700 disabled:bg-gray-700 text-white">
+          {submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export const LibrarySidebar: React.FC<LibrarySidebarProps> = ({
+  entries,
+  currentCode,
+  onLoad,
+  onSave,
+  onDelete,
+  onImport,
+  onClose,
+}) => {
+  const [query, setQuery] = useState('');
+  const [category, setCategory] = useState<AlgorithmCategory | null>(null);
+  const [adding, setAdding] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [notice, setNotice] = useState<{ text: string; error?: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const visible = [...entries, ...BUILT_IN_ENTRIES].filter(
+    entry => (!category || entry.category === category) && (!query.trim() || matchesLibraryQuery(entry, query))
+  );
+
+  const handleImportFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    file
+      .text()
+      .then(onImport)
+      .then(count => setNotice({ text: count === 1 ? '1 algoritmo importado' : `${count} algoritmos importados` }))
+      .catch(err => setNotice({ text: err instanceof Error ? err.message : String(err), error: true }));
+  };
+
+  return (
+    <aside className="w-80 shrink-0 flex flex-col border-r border-gray-800 bg-gray-900">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-800">
+        <h2 className="text-sm font-semibold text-gray-300 flex items-center gap-2">
+          <Library className="w-4 h-4" /> Biblioteca
+          <span className="text-xs text-gray-500 font-normal">({entries.length})</span>
+        </h2>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-300" title="Cerrar biblioteca">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="p-3 border-b border-gray-800 space-y-2">
+        {adding ? (
+          <EntryForm
+            initial={{ name: extractFunctionNames(currentCode)[0] ?? '', category: 'other', tags: [] }}
+            submitLabel="Guardar"
+            onSubmit={values =>
+              onSave({ name: values.name, category: values.category, tags: values.tags, code: currentCode })
+                .then(() => setAdding(false))
+                .catch(err => setNotice({ text: err instanceof Error ? err.message : String(err), error: true }))
+            }
+            onCancel={() => setAdding(false)}
+          />
+        ) : (
+          <button
+            onClick={() => setAdding(true)}
+            disabled={!currentCode.trim()}
+            className="w-full flex items-center justify-center gap-1 py-1.5 text-xs text-blue-400 hover:text-blue-300 border border-gray-800 rounded-lg disabled:opacity-50 transition-colors"
+          >
+            <Plus className="w-3 h-3" /> Guardar el código actual
+          </button>
+        )}
+        <div className="flex items-center gap-2 bg-gray-950 border border-gray-700 rounded-lg px-2 focus-within:ring-2 focus-within:ring-blue-500/50">
+          <Search className="w-3 h-3 text-gray-500" />
+          <input
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder="Nombre o etiqueta"
+            className="flex-1 bg-transparent py-1.5 text-xs text-gray-300 focus:outline-none"
+          />
+        </div>
+        <div className="flex flex-wrap gap-1">
+          {CATEGORIES.map(c => (
+            <button
+              key={c.id}
+              onClick={() => setCategory(category === c.id ? null : c.id)}
+              className={`text-[10px] px-1.5 py-0.5 rounded transition-colors ${
+                category === c.id ? 'bg-blue-900 text-blue-200' : 'bg-gray-800 text-gray-400 hover:text-gray-200'
+              }`}
+            >
+              {c.label}
+            </button>
+          ))}
+        </div>
+        {notice && <p className={`text-xs ${notice.error ? 'text-red-400' : 'text-green-400'}`}>{notice.text}</p>}
+      </div>
+
+      <ul className="flex-1 overflow-y-auto">
+        {visible.length === 0 && <li className="p-4 text-xs text-gray-600 italic">Sin resultados.</li>}
+        {visible.map(entry =>
+          editingId === entry.id ? (
+            <li key={entry.id} className="p-3 border-b border-gray-800/60">
+              <EntryForm
+                initial={entry}
+                submitLabel="Actualizar"
+                offerReplaceCode
+                onSubmit={values =>
+                  onSave({
+                    id: entry.id,
+                    createdAt: entry.createdAt,
+                    name: values.name,
+                    category: values.category,
+                    tags: values.tags,
+                    code: values.replaceCode ? currentCode : entry.code,
+                  })
+                    .then(() => setEditingId(null))
+                    .catch(err => setNotice({ text: err instanceof Error ? err.message : String(err), error: true }))
+                }
+                onCancel={() => setEditingId(null)}
+              />
+            </li>
+          ) : (
+            <li key={entry.id} className="group flex items-center border-b border-gray-800/60 hover:bg-gray-800/60">
+              <button onClick={() => onLoad(entry)} className="flex-1 min-w-0 text-left pl-4 pr-2 py-3">
+                <div className="flex items-center gap-2">
+                  {entry.builtIn && <Lock className="w-3 h-3 text-gray-600 shrink-0" />}
+                  <span className="text-sm text-gray-200 truncate">{entry.name}</span>
+                </div>
+                <div className="flex flex-wrap items-center gap-1 mt-1 text-[10px]">
+                  <span className="text-gray-500">{CATEGORIES.find(c => c.id === entry.category)?.label}</span>
+                  {entry.tags.map(tag => (
+                    <span key={tag} className="px-1 rounded bg-gray-800 text-gray-400">
+                      {tag}
+                    </span>
+                  ))}
+                </div>
+              </button>
+              {!entry.builtIn && (
+                <div className="mr-3 flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button onClick={() => setEditingId(entry.id)} className="text-gray-600 hover:text-blue-400" title="Editar">
+                    <Pencil className="w-3 h-3" />
+                  </button>
+                  <button onClick={() => onDelete(entry.id)} className="text-gray-600 hover:text-red-400" title="Eliminar de la biblioteca">
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+              )}
+            </li>
+          )
+        )}
+      </ul>
+
+      <div className="m-3 flex gap-2">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex-1 flex items-center justify-center gap-1 py-1.5 text-xs text-gray-400 hover:text-white border border-gray-800 rounded-lg transition-colors"
+        >
+          <Upload className="w-3 h-3" /> Importar
+        </button>
+        <button
+          onClick={() => downloadFile('biblioteca-algoritmos.json', exportLibrary(entries), 'application/json')}
+          disabled={entries.length === 0}
+          className="flex-1 flex items-center justify-center gap-1 py-1.5 text-xs text-gray-400 hover:text-white border border-gray-800 rounded-lg disabled:opacity-50 transition-colors"
+          title="Exporta los algoritmos propios (no los predefinidos)"
+        >
+          <Download className="w-3 h-3" /> Exportar
+        </button>
+        <input type="file" ref={fileInputRef} onChange={handleImportFile} className="hidden" accept=".json,application/json" />
+      </div>
+    </aside>
+  );
+};
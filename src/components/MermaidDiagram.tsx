@@ -1,28 +1,157 @@
 import React, { useEffect, useRef, useState } from 'react';
-import mermaid from 'mermaid';
-
-mermaid.initialize({
-  startOnLoad: false,
-  theme: 'default',
-  securityLevel: 'loose',
-  flowchart: {
-    useMaxWidth: true,
-    htmlLabels: true,
-  },
-});
+import { Check, Copy, Download, ImageDown, Maximize2, RotateCcw, X, ZoomIn, ZoomOut } from 'lucide-react';
+import { mermaidNodeId, renderMermaid, svgToPng } from '../lib/mermaid';
+import { downloadFile } from '../lib/download';
 
 interface MermaidDiagramProps {
   chart: string;
+  // Used for the fullscreen header and download file names
+  title?: string;
+  // Flowchart node ids to outline, e.g. the CFG nodes of the hovered line
+  activeNodes?: string[];
+  // Makes nodes clickable; null when the click lands outside any node
+  onNodeClick?: (id: string | null) => void;
 }
 
-export const MermaidDiagram: React.FC<MermaidDiagramProps> = ({ chart }) => {
-  const containerRef = useRef<HTMLDivElement>(null);
+interface ViewportProps {
+  svg: string;
+  fullscreen?: boolean;
+  activeNodes?: string[];
+  onNodeClick?: (id: string | null) => void;
+}
+
+interface View {
+  zoom: number;
+  x: number;
+  y: number;
+}
+
+const MIN_ZOOM = 0.2;
+const MAX_ZOOM = 8;
+const INITIAL_VIEW: View = { zoom: 1, x: 0, y: 0 };
+
+// Zooms keeping the point (px, py) of the viewport fixed
+const zoomAt = (view: View, factor: number, px: number, py: number): View => {
+  const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, view.zoom * factor));
+  const k = zoom / view.zoom;
+  return { zoom, x: px - (px - view.x) * k, y: py - (py - view.y) * k };
+};
+
+const fileBaseName = (title?: string) =>
+  (title ?? 'diagrama').toLowerCase().replace(/[^a-z0-9áéíóúñ]+/gi, '-').replace(/^-|-$/g, '') || 'diagrama';
+
+const toolButton = 'p-1.5 rounded text-gray-500 hover:text-gray-900 hover:bg-gray-100 disabled:opacity-40';
+
+// Pannable, zoomable view of a rendered SVG. Inline, the wheel only zooms with
+// Ctrl/⌘ held so the page keeps scrolling; fullscreen it always zooms.
+const DiagramViewport: React.FC<ViewportProps> = ({ svg, fullscreen, activeNodes, onNodeClick }) => {
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ px: number; py: number; x: number; y: number } | null>(null);
+  // Set once a drag moves, so releasing it does not count as a node click
+  const movedRef = useRef(false);
+  const [view, setView] = useState<View>(INITIAL_VIEW);
+
+  useEffect(() => {
+    const active = new Set(activeNodes);
+    contentRef.current?.querySelectorAll('.node').forEach(node => {
+      node.classList.toggle('node-active', active.has(mermaidNodeId(node)));
+    });
+  }, [svg, activeNodes]);
+
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    // Native listener: React registers wheel handlers as passive
+    const handleWheel = (e: WheelEvent) => {
+      if (!fullscreen && !e.ctrlKey && !e.metaKey) return;
+      e.preventDefault();
+      const rect = viewport.getBoundingClientRect();
+      setView(v => zoomAt(v, e.deltaY < 0 ? 1.15 : 1 / 1.15, e.clientX - rect.left, e.clientY - rect.top));
+    };
+    viewport.addEventListener('wheel', handleWheel, { passive: false });
+    return () => viewport.removeEventListener('wheel', handleWheel);
+  }, [fullscreen]);
+
+  const zoomCenter = (factor: number) => {
+    const rect = viewportRef.current?.getBoundingClientRect();
+    setView(v => zoomAt(v, factor, (rect?.width ?? 0) / 2, (rect?.height ?? 0) / 2));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { px: e.clientX, py: e.clientY, x: view.x, y: view.y };
+    movedRef.current = false;
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    if (Math.abs(e.clientX - drag.px) + Math.abs(e.clientY - drag.py) > 3) movedRef.current = true;
+    setView(v => ({ ...v, x: drag.x + e.clientX - drag.px, y: drag.y + e.clientY - drag.py }));
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!onNodeClick || movedRef.current) return;
+    const node = (e.target as Element).closest('.node');
+    onNodeClick(node ? mermaidNodeId(node) : null);
+  };
+
+  return (
+    <div
+      ref={viewportRef}
+      className={`relative overflow-hidden cursor-grab active:cursor-grabbing select-none touch-none ${fullscreen ? 'h-full' : 'min-h-[50px]'}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onDoubleClick={() => setView(INITIAL_VIEW)}
+      title={fullscreen ? 'Rueda para zoom, arrastra para mover' : 'Ctrl + rueda para zoom, arrastra para mover'}
+    >
+      <div
+        ref={contentRef}
+        className={`mermaid-container origin-top-left ${onNodeClick ? 'nodes-clickable' : ''}`}
+        style={{ transform: `translate(${view.x}px, ${view.y}px) scale(${view.zoom})` }}
+        onClick={handleClick}
+        dangerouslySetInnerHTML={{ __html: svg }}
+      />
+      <div
+        className="absolute bottom-2 right-2 flex items-center gap-0.5 bg-white/90 border border-gray-200 rounded-lg shadow-sm px-1"
+        onPointerDown={(e) => e.stopPropagation()}
+        onDoubleClick={(e) => e.stopPropagation()}
+      >
+        <button onClick={() => zoomCenter(1 / 1.25)} disabled={view.zoom <= MIN_ZOOM} className={toolButton} title="Alejar">
+          <ZoomOut className="w-4 h-4" />
+        </button>
+        <span className="w-12 text-center text-xs font-mono text-gray-600">{Math.round(view.zoom * 100)}%</span>
+        <button onClick={() => zoomCenter(1.25)} disabled={view.zoom >= MAX_ZOOM} className={toolButton} title="Acercar">
+          <ZoomIn className="w-4 h-4" />
+        </button>
+        <button onClick={() => setView(INITIAL_VIEW)} className={toolButton} title="Restablecer vista">
+          <RotateCcw className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export const MermaidDiagram: React.FC<MermaidDiagramProps> = ({ chart, title, activeNodes, onNodeClick }) => {
+  const [svg, setSvg] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [showRaw, setShowRaw] = useState(false);
+  const [fullscreen, setFullscreen] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [pngError, setPngError] = useState<string | null>(null);
 
   useEffect(() => {
+    let cancelled = false;
     const renderDiagram = async () => {
-      if (!containerRef.current || !chart) {
+      if (!chart) {
         setError('No chart data provided');
         return;
       }
@@ -30,43 +159,57 @@ export const MermaidDiagram: React.FC<MermaidDiagramProps> = ({ chart }) => {
       setError(null);
 
       try {
-        // Sanitize chart string to fix backend generation issues
-        let sanitizedChart = chart
-          .replace(/classDef call /g, 'classDef callNode ')
-          .replace(/:::call/g, ':::callNode')
-          .replace(/classDef default /g, 'classDef defaultStyle ')
-          .replace(/:::default/g, ':::defaultStyle');
-
-        // Ensure diagram has a type prefix
-        const trimmed = sanitizedChart.trim();
-        const hasValidPrefix = /^(graph|flowchart|sequenceDiagram|classDiagram|stateDiagram|erDiagram|journey|gantt|pie|quadrantChart|requirementDiagram|gitGraph|mindmap|timeline)/i.test(trimmed);
-        
-        if (!hasValidPrefix) {
-          sanitizedChart = 'graph TD\n' + sanitizedChart;
-        }
-
-        const id = `mermaid-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-        const { svg } = await mermaid.render(id, sanitizedChart);
-        
-        if (containerRef.current) {
-          containerRef.current.innerHTML = svg;
-        }
+        const rendered = await renderMermaid(chart);
+        if (!cancelled) setSvg(rendered);
       } catch (err: any) {
         console.error('Mermaid rendering failed:', err);
         console.error('Chart content:', chart?.substring(0, 200));
-        setError(err.message || 'Error rendering diagram');
+        if (!cancelled) setError(err.message || 'Error rendering diagram');
       }
     };
 
     renderDiagram();
+    return () => {
+      cancelled = true;
+    };
   }, [chart]);
 
+  useEffect(() => {
+    if (!fullscreen) return;
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setFullscreen(false);
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [fullscreen]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(chart);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (err) {
+      console.error('Copy failed:', err);
+    }
+  };
+
+  const handlePng = async () => {
+    if (!svg) return;
+    setPngError(null);
+    try {
+      downloadFile(`${fileBaseName(title)}.png`, await svgToPng(svg));
+    } catch (err) {
+      console.error('PNG export failed:', err);
+      setPngError('El navegador no permitió generar el PNG; descarga el SVG.');
+    }
+  };
+
   if (error) {
     return (
       <div className="p-4 bg-gray-100 rounded-lg">
         <div className="flex items-center justify-between mb-2">
           <span className="text-red-600 font-medium text-sm">⚠️ Error rendering diagram</span>
-          <button 
+          <button
             onClick={() => setShowRaw(!showRaw)}
             className="text-xs text-blue-600 hover:underline"
           >
@@ -83,5 +226,56 @@ export const MermaidDiagram: React.FC<MermaidDiagramProps> = ({ chart }) => {
     );
   }
 
-  return <div ref={containerRef} className="mermaid-container overflow-x-auto min-h-[50px]" />;
+  if (!svg) return <div className="mermaid-container min-h-[50px]" />;
+
+  const toolbar = (
+    <div className="flex items-center justify-end gap-0.5">
+      {pngError && <span className="mr-2 text-xs text-red-600">{pngError}</span>}
+      <button onClick={handleCopy} className={toolButton} title="Copiar código Mermaid">
+        {copied ? <Check className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+      </button>
+      <button
+        onClick={() => downloadFile(`${fileBaseName(title)}.svg`, svg, 'image/svg+xml;charset=utf-8')}
+        className={toolButton}
+        title="Descargar SVG"
+      >
+        <Download className="w-4 h-4" />
+      </button>
+      <button onClick={handlePng} className={toolButton} title="Descargar PNG">
+        <ImageDown className="w-4 h-4" />
+      </button>
+      {fullscreen ? (
+        <button onClick={() => setFullscreen(false)} className={toolButton} title="Cerrar (Esc)">
+          <X className="w-4 h-4" />
+        </button>
+      ) : (
+        <button onClick={() => setFullscreen(true)} className={toolButton} title="Pantalla completa">
+          <Maximize2 className="w-4 h-4" />
+        </button>
+      )}
+    </div>
+  );
+
+  return (
+    <>
+      <div className="space-y-1">
+        {toolbar}
+        <DiagramViewport svg={svg} activeNodes={activeNodes} onNodeClick={onNodeClick} />
+      </div>
+
+      {fullscreen && (
+        <div className="fixed inset-0 z-50 bg-black/80 p-6 flex" onClick={() => setFullscreen(false)}>
+          <div className="flex-1 flex flex-col bg-white rounded-xl p-4 gap-2 min-h-0" onClick={(e) => e.stopPropagation()}>
+            <div className="flex items-center justify-between gap-4">
+              <h3 className="text-gray-800 font-semibold truncate">{title ?? 'Diagrama'}</h3>
+              {toolbar}
+            </div>
+            <div className="flex-1 min-h-0 border border-gray-200 rounded-lg">
+              <DiagramViewport svg={svg} fullscreen activeNodes={activeNodes} onNodeClick={onNodeClick} />
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
 };
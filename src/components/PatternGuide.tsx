@@ -0,0 +1,80 @@
+import React, { useEffect } from 'react';
+import { AlertTriangle, BookOpen } from 'lucide-react';
+import { PATTERN_REFERENCE, findPattern } from '../lib/patterns';
+import { TeX } from './TeX';
+
+interface PatternGuideProps {
+  // Pattern identifier from the route, e.g. "iterativo_anidado"
+  selected?: string;
+}
+
+// Built-in reference of algorithm families and their usual complexity
+export const PatternGuide: React.FC<PatternGuideProps> = ({ selected }) => {
+  const current = selected ? findPattern(selected) : undefined;
+
+  useEffect(() => {
+    if (current) document.getElementById(`pattern-${current.id}`)?.scrollIntoView({ block: 'start' });
+  }, [current]);
+
+  return (
+    <div className="min-h-screen bg-gray-950 text-white p-6">
+      <header className="flex justify-between items-center border-b border-gray-800 pb-4 mb-6">
+        <h1 className="text-2xl font-bold bg-gradient-to-r from-blue-400 to-purple-500 bg-clip-text text-transparent flex items-center gap-2">
+          <BookOpen className="w-6 h-6 text-blue-400" /> Patrones Algorítmicos
+        </h1>
+        <a href="#/" className="text-xs text-gray-400 hover:text-white transition-colors">
+          ← Complexity Analyzer
+        </a>
+      </header>
+
+      {selected && !current && (
+        <div className="max-w-4xl mx-auto mb-6 flex items-center gap-3 bg-yellow-900/20 border border-yellow-800 rounded-xl p-4 text-yellow-400 text-sm">
+          <AlertTriangle className="w-5 h-5 shrink-0" /> El patrón <span className="font-mono">{selected}</span> no tiene entrada en el catálogo.
+        </div>
+      )}
+
+      <div className="max-w-4xl mx-auto space-y-6">
+        {PATTERN_REFERENCE.map(pattern => (
+          <section
+            key={pattern.id}
+            id={`pattern-${pattern.id}`}
+            className={`bg-gray-900 rounded-xl p-6 border shadow-xl scroll-mt-6 ${
+              current?.id === pattern.id ? 'border-blue-500' : 'border-gray-800'
+            }`}
+          >
+            <div className="flex items-center justify-between mb-4 border-b border-gray-800 pb-2">
+              <h2 className="text-lg font-semibold text-gray-300">
+                <a href={`#/patterns/${pattern.id}`} className="hover:text-white transition-colors">
+                  {pattern.name}
+                </a>
+              </h2>
+              <span className="text-gray-300 [&_p]:inline">
+                <TeX tex={pattern.complexity} />
+              </span>
+            </div>
+            <p className="text-gray-300 text-sm mb-4">{pattern.summary}</p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+              <div>
+                <span className="text-xs text-gray-500 uppercase tracking-wider font-bold">Cómo reconocerlo</span>
+                <ul className="mt-1 list-disc list-inside text-gray-400">
+                  {pattern.signs.map(sign => (
+                    <li key={sign}>{sign}</li>
+                  ))}
+                </ul>
+              </div>
+              <div>
+                <span className="text-xs text-gray-500 uppercase tracking-wider font-bold">Ejemplos</span>
+                <ul className="mt-1 list-disc list-inside text-gray-400">
+                  {pattern.examples.map(example => (
+                    <li key={example}>{example}</li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+            <p className="mt-4 text-xs text-gray-600 font-mono">{[pattern.id, ...pattern.aliases].join(' · ')}</p>
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,104 @@
+import React, { useEffect, useState } from 'react';
+import { Clock } from 'lucide-react';
+import { AGENT_CONFIG, STATE_ICONS } from './agentConfig';
+import { isRunEnded, runDuration, timelineBounds } from '../lib/pipelineRuns';
+import type { AgentRun } from '../lib/pipelineRuns';
+
+interface PipelineTimelineProps {
+  runs: AgentRun[];
+  // Keeps running bars growing while the pipeline is in flight
+  live: boolean;
+}
+
+const formatMs = (ms: number) => (ms >= 1000 ? `${(ms / 1000).toFixed(2)}s` : `${Math.round(ms)}ms`);
+
+export const PipelineTimeline: React.FC<PipelineTimelineProps> = ({ runs, live }) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!live) return;
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [live]);
+
+  const clock = live ? now : Math.max(0, ...runs.map(r => r.finishedAt ?? r.startedAt ?? 0));
+  const bounds = timelineBounds(runs, clock);
+  if (!bounds) return null;
+  const span = bounds.end - bounds.start;
+
+  // Every configured agent gets a row, plus any unknown agent the backend sent
+  const agents = [
+    ...Object.keys(AGENT_CONFIG),
+    ...runs.map(r => r.agent).filter(a => !(a in AGENT_CONFIG)),
+  ];
+  const slowest = runs
+    .filter(r => r.agent !== 'pipeline' && isRunEnded(r))
+    .reduce<AgentRun | null>((max, r) => (!max || runDuration(r) > runDuration(max) ? r : max), null);
+
+  return (
+    <div className="bg-gray-900 rounded-xl p-6 border border-gray-800 shadow-xl">
+      <div className="flex items-center justify-between mb-4 border-b border-gray-800 pb-2">
+        <h2 className="text-lg font-semibold text-gray-300 flex items-center gap-2">
+          <Clock className="w-5 h-5" /> Pipeline Timeline
+        </h2>
+        <span className="text-xs text-gray-500">
+          Total: {formatMs(span)}
+          {slowest && ` · más lento: ${AGENT_CONFIG[slowest.agent]?.name ?? slowest.agent}`}
+        </span>
+      </div>
+
+      <div className="space-y-2">
+        {agents.map(agent => {
+          const config = AGENT_CONFIG[agent] ?? { icon: '📦', color: 'text-gray-400', bar: 'bg-gray-500', name: agent };
+          const run = runs.find(r => r.agent === agent);
+          const duration = run ? runDuration(run, clock) : 0;
+          const left = run?.startedAt !== undefined ? ((run.startedAt - bounds.start) / span) * 100 : 0;
+          const width = Math.max((duration / span) * 100, 0.75);
+
+          return (
+            <div key={agent} className="flex items-center gap-3 text-xs">
+              <span className={`w-28 shrink-0 truncate ${config.color}`}>
+                {config.icon} {config.name}
+              </span>
+              <div className="relative flex-1 h-5 bg-gray-800/60 rounded">
+                {run && (
+                  <div
+                    className="group absolute top-0 h-full"
+                    style={{ left: `${left}%`, width: `${width}%` }}
+                  >
+                    <div className={`h-full rounded ${
+                      run.state === 'error' ? 'bg-red-600' :
+                      run.state === 'skipped' ? 'bg-gray-600/40 border border-dashed border-gray-500' :
+                      `${config.bar} ${isRunEnded(run) ? 'opacity-80' : 'animate-pulse'}`
+                    }`} />
+                    {(run.state === 'error' || run.state === 'skipped') && (
+                      <span className="absolute -right-5 top-0.5">{STATE_ICONS[run.state]}</span>
+                    )}
+                    <div className="hidden group-hover:block absolute z-10 top-6 left-0 w-64 bg-gray-950 border border-gray-700 rounded-lg p-3 shadow-xl">
+                      <div className="font-semibold text-gray-200 mb-1">
+                        {STATE_ICONS[run.state] ?? '📋'} {config.name} · {run.state}
+                      </div>
+                      <div className="text-gray-400">Duración: {formatMs(duration)}</div>
+                      {run.summary && <div className="text-gray-400 mt-1">{run.summary}</div>}
+                    </div>
+                  </div>
+                )}
+              </div>
+              <span className={`w-16 shrink-0 text-right font-mono ${
+                run?.state === 'error' ? 'text-red-400' : run?.state === 'skipped' ? 'text-gray-500' : 'text-gray-400'
+              }`}>
+                {!run ? '—' : run.state === 'skipped' ? 'skipped' : formatMs(duration)}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex justify-between text-[10px] text-gray-600 font-mono mt-2 ml-[7.75rem] mr-[4.75rem]">
+        {[0, 0.25, 0.5, 0.75, 1].map(f => (
+          <span key={f}>{formatMs(span * f)}</span>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+import React, { useMemo } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import { AlertTriangle, CheckCircle, HelpCircle, XCircle } from 'lucide-react';
+import type { Recurrence } from '../api';
+import { checkClosedForm, solveRecurrence } from '../lib/recurrence';
+import type { RecurrenceMethod } from '../lib/recurrence';
+import { TeX } from './TeX';
+
+interface RecurrenceCheckProps {
+  recurrence: Recurrence;
+}
+
+const METHOD_LABELS: Record<RecurrenceMethod, string> = {
+  summation: 'Sumatorias',
+  master: 'Teorema maestro',
+  'akra-bazzi': 'Akra–Bazzi',
+  linear: 'Recurrencia lineal',
+};
+
+const solve = (relation: string) => {
+  try {
+    return { solution: solveRecurrence(relation) };
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : String(err) };
+  }
+};
+
+// Re-derives the closed form in the browser and flags disagreement with the backend's
+export const RecurrenceCheck: React.FC<RecurrenceCheckProps> = ({ recurrence }) => {
+  const { solution, error } = useMemo(() => solve(recurrence.relation), [recurrence.relation]);
+  const check = solution && recurrence.closed_form ? checkClosedForm(solution, recurrence.closed_form) : null;
+
+  return (
+    <div className="pt-4 border-t border-gray-800">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-sm text-gray-500 uppercase tracking-wider font-bold">Verificación local</span>
+        {solution && <span className="text-xs px-2 py-0.5 rounded-full bg-gray-800 text-gray-400">{METHOD_LABELS[solution.method]}</span>}
+      </div>
+
+      {error && (
+        <p className="flex items-center gap-2 text-sm text-gray-500">
+          <HelpCircle className="w-4 h-4 shrink-0" /> No se pudo resolver la relación: {error}
+        </p>
+      )}
+
+      {solution && (
+        <>
+          <ol className="list-decimal list-inside space-y-1 text-gray-400 text-sm [&_p]:inline">
+            {solution.steps.map((step, idx) => (
+              <li key={idx}>
+                <ReactMarkdown remarkPlugins={[remarkMath]} rehypePlugins={[rehypeKatex]}>
+                  {step}
+                </ReactMarkdown>
+              </li>
+            ))}
+          </ol>
+
+          <div className="mt-3 text-sm [&_p]:inline">
+            {check === 'match' && (
+              <p className="flex items-center gap-2 text-green-400">
+                <CheckCircle className="w-4 h-4 shrink-0" /> Coincide con la forma cerrada reportada
+              </p>
+            )}
+            {check === 'loose' && (
+              <p className="flex items-center gap-2 text-yellow-400">
+                <AlertTriangle className="w-4 h-4 shrink-0" />
+                <span>
+                  La forma cerrada reportada <TeX tex={recurrence.closed_form} /> es válida pero no ajustada: la cota exacta es{' '}
+                  <TeX tex={solution.closedForm} />
+                </span>
+              </p>
+            )}
+            {check === 'mismatch' && (
+              <p className="flex items-center gap-2 text-red-400">
+                <XCircle className="w-4 h-4 shrink-0" />
+                <span>
+                  No coincide: el backend reporta <TeX tex={recurrence.closed_form} /> y la derivación local da{' '}
+                  <TeX tex={solution.closedForm} />
+                </span>
+              </p>
+            )}
+            {check === null && recurrence.closed_form && (
+              <p className="flex items-center gap-2 text-gray-500">
+                <HelpCircle className="w-4 h-4 shrink-0" /> No se pudo interpretar la forma cerrada reportada para compararla
+              </p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
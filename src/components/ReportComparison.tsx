@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import { GitCompare, X } from 'lucide-react';
+import type { AnalysisReport } from '../api';
+import { compareHints, compareReports } from '../lib/compare';
+
+export interface ComparisonSource {
+  id: string;
+  label: string;
+  report: AnalysisReport;
+}
+
+interface ReportComparisonProps {
+  // Current run first, then history
+  sources: ComparisonSource[];
+  onClose: () => void;
+}
+
+const Cell: React.FC<{ value?: string; math?: boolean }> = ({ value, math }) => {
+  if (value === undefined) return <span className="text-gray-600">—</span>;
+  if (!math) return <span>{value}</span>;
+  return (
+    <ReactMarkdown remarkPlugins={[remarkMath]} rehypePlugins={[rehypeKatex]}>
+      {`$${value}$`}
+    </ReactMarkdown>
+  );
+};
+
+const SourcePicker: React.FC<{
+  sources: ComparisonSource[];
+  value: string;
+  onChange: (id: string) => void;
+  accent: string;
+}> = ({ sources, value, onChange, accent }) => (
+  <select
+    value={value}
+    onChange={(e) => onChange(e.target.value)}
+    className={`w-full bg-gray-950 border rounded-lg p-2 text-sm text-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500/50 ${accent}`}
+  >
+    {sources.map(source => (
+      <option key={source.id} value={source.id}>{source.label}</option>
+    ))}
+  </select>
+);
+
+export const ReportComparison: React.FC<ReportComparisonProps> = ({ sources, onClose }) => {
+  const [leftId, setLeftId] = useState(sources[0]?.id ?? '');
+  const [rightId, setRightId] = useState(sources[1]?.id ?? sources[0]?.id ?? '');
+  const left = sources.find(s => s.id === leftId) ?? sources[0];
+  const right = sources.find(s => s.id === rightId) ?? sources[1] ?? sources[0];
+
+  const header = (
+    <div className="flex items-center justify-between mb-4 border-b border-gray-800 pb-2">
+      <h2 className="text-lg font-semibold text-gray-300 flex items-center gap-2">
+        <GitCompare className="w-5 h-5" /> Comparar reportes
+      </h2>
+      <button onClick={onClose} className="text-gray-500 hover:text-gray-300" title="Salir de la comparación">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+
+  if (sources.length < 2 || !left || !right) {
+    return (
+      <div className="bg-gray-900 rounded-xl p-6 border border-gray-800 shadow-xl">
+        {header}
+        <p className="text-sm text-gray-500">
+          Se necesitan al menos dos reportes: analiza otro algoritmo o abre uno del historial.
+        </p>
+      </div>
+    );
+  }
+
+  const rows = compareReports(left.report, right.report);
+  const hints = compareHints(left.report, right.report);
+  const differences = rows.filter(r => r.differs).length;
+
+  return (
+    <div className="bg-gray-900 rounded-xl p-6 border border-gray-800 shadow-xl">
+      {header}
+
+      <div className="grid grid-cols-[8rem_1fr_1fr] gap-3 mb-4 items-center">
+        <span className="text-xs text-gray-500">
+          {differences === 0 ? 'Sin diferencias' : `${differences} diferencia(s)`}
+        </span>
+        <SourcePicker sources={sources} value={left.id} onChange={setLeftId} accent="border-blue-700" />
+        <SourcePicker sources={sources} value={right.id} onChange={setRightId} accent="border-purple-700" />
+      </div>
+
+      <table className="w-full text-sm">
+        <tbody>
+          {rows.map((row, i) => {
+            const showSection = i === 0 || row.section !== rows[i - 1].section;
+            return (
+              <React.Fragment key={i}>
+                {showSection && (
+                  <tr>
+                    <td colSpan={3} className="pt-4 pb-1 text-xs font-bold uppercase tracking-wider text-gray-500">
+                      {row.section}
+                    </td>
+                  </tr>
+                )}
+                <tr className={`border-b border-gray-800/60 ${row.differs ? 'bg-yellow-900/20' : ''}`}>
+                  <td className="w-32 py-2 pr-3 text-gray-400">
+                    {row.label}
+                    {row.differs && <span className="ml-2 text-yellow-400" title="Difiere">≠</span>}
+                  </td>
+                  <td className="py-2 pr-3 text-blue-200"><Cell value={row.left} math={row.math} /></td>
+                  <td className="py-2 text-purple-200"><Cell value={row.right} math={row.math} /></td>
+                </tr>
+              </React.Fragment>
+            );
+          })}
+        </tbody>
+      </table>
+
+      {(hints.shared.length > 0 || hints.onlyLeft.length > 0 || hints.onlyRight.length > 0) && (
+        <div className="mt-6">
+          <h3 className="text-xs font-bold uppercase tracking-wider text-gray-500 mb-2">Sugerencias</h3>
+          <div className="grid grid-cols-2 gap-4 text-xs">
+            <ul className="space-y-1">
+              {hints.onlyLeft.map((hint, i) => (
+                <li key={i} className="p-2 rounded bg-yellow-900/20 text-blue-200">＋ {hint}</li>
+              ))}
+            </ul>
+            <ul className="space-y-1">
+              {hints.onlyRight.map((hint, i) => (
+                <li key={i} className="p-2 rounded bg-yellow-900/20 text-purple-200">＋ {hint}</li>
+              ))}
+            </ul>
+          </div>
+          {hints.shared.length > 0 && (
+            <ul className="mt-2 space-y-1 text-xs text-gray-400">
+              {hints.shared.map((hint, i) => (
+                <li key={i} className="p-2 rounded bg-gray-800/50">= {hint}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
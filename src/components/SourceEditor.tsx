@@ -0,0 +1,213 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { LineRange } from '../lib/ast';
+import { findMatchingBracket, tokenize } from '../lib/lexer';
+import type { Token, TokenKind } from '../lib/lexer';
+import { INDENT, editForArrow, editForDedent, editForEnter } from '../lib/editing';
+import type { TextEdit } from '../lib/editing';
+import type { Diagnostic } from '../lib/parser';
+
+interface SourceEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  // Lines to highlight, e.g. the statement selected in a report panel
+  highlightedLines?: LineRange | null;
+  // Syntax errors, underlined and explained at the end of their line
+  diagnostics?: Diagnostic[];
+  // 0-based line under the mouse pointer, null when it leaves the editor
+  onHoverLine?: (line: number | null) => void;
+}
+
+// Must match the `leading-5` and `p-4` classes below
+const LINE_HEIGHT_PX = 20;
+const PADDING_PX = 16;
+
+const TOKEN_COLORS: Partial<Record<TokenKind, string>> = {
+  keyword: 'text-purple-400 font-semibold',
+  literal: 'text-orange-300',
+  number: 'text-orange-300',
+  string: 'text-green-300',
+  operator: 'text-pink-400',
+  punct: 'text-gray-400',
+  comment: 'text-gray-500 italic',
+  invalid: 'text-red-400 underline decoration-wavy',
+};
+
+// Splits tokens into display lines, tagging identifiers used as calls
+const toLines = (tokens: Token[]) => {
+  const lines: Array<Array<Token & { call?: boolean }>> = [[]];
+  tokens.forEach((token, i) => {
+    if (token.kind === 'newline') {
+      lines.push([]);
+      return;
+    }
+    const next = tokens.slice(i + 1).find(t => t.kind !== 'space');
+    lines[lines.length - 1].push({ ...token, call: token.kind === 'identifier' && next?.text === '(' });
+  });
+  return lines;
+};
+
+// Bracket next to the caret and its partner; an unmatched one is flagged
+const bracketsAt = (tokens: Token[], value: string, caret: number | null) => {
+  if (caret === null) return null;
+  const offset = [caret, caret - 1].find(o => '()[]{}'.includes(value[o] ?? 'x'));
+  if (offset === undefined) return null;
+  const match = findMatchingBracket(tokens, offset);
+  return { offsets: match === null ? [offset] : [offset, match], matched: match !== null };
+};
+
+export const SourceEditor: React.FC<SourceEditorProps> = ({ value, onChange, placeholder, highlightedLines, diagnostics = [], onHoverLine }) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const backdropRef = useRef<HTMLDivElement>(null);
+  const gutterRef = useRef<HTMLDivElement>(null);
+  const [caret, setCaret] = useState<number | null>(null);
+  const hoverLineRef = useRef<number | null>(null);
+
+  const tokens = useMemo(() => tokenize(value), [value]);
+  const lines = useMemo(() => toLines(tokens), [tokens]);
+
+  const brackets = useMemo(() => bracketsAt(tokens, value, caret), [tokens, value, caret]);
+
+  const reportHover = (line: number | null) => {
+    if (!onHoverLine || hoverLineRef.current === line) return;
+    hoverLineRef.current = line;
+    onHoverLine(line);
+  };
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLTextAreaElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const line = Math.floor((e.clientY - rect.top + e.currentTarget.scrollTop - PADDING_PX) / LINE_HEIGHT_PX);
+    reportHover(line >= 0 && line < lines.length ? line : null);
+  };
+
+  const syncScroll = () => {
+    const textarea = textareaRef.current;
+    if (!textarea || !backdropRef.current || !gutterRef.current) return;
+    backdropRef.current.scrollTop = textarea.scrollTop;
+    backdropRef.current.scrollLeft = textarea.scrollLeft;
+    gutterRef.current.scrollTop = textarea.scrollTop;
+  };
+
+  // Bring the highlighted lines into view
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea || !highlightedLines) return;
+    const top = PADDING_PX + highlightedLines.start * LINE_HEIGHT_PX;
+    const bottom = PADDING_PX + (highlightedLines.end + 1) * LINE_HEIGHT_PX;
+    if (top < textarea.scrollTop || bottom > textarea.scrollTop + textarea.clientHeight) {
+      textarea.scrollTop = Math.max(0, top - textarea.clientHeight / 3);
+      syncScroll();
+    }
+  }, [highlightedLines]);
+
+  // execCommand keeps the edit on the browser's undo stack; fall back to a
+  // plain value update where it is unsupported.
+  const applyEdit = (edit: TextEdit) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    textarea.setSelectionRange(edit.from, edit.to);
+    if (!document.execCommand(edit.text ? 'insertText' : 'delete', false, edit.text)) {
+      onChange(value.slice(0, edit.from) + edit.text + value.slice(edit.to));
+      const position = edit.from + edit.text.length;
+      requestAnimationFrame(() => textarea.setSelectionRange(position, position));
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.nativeEvent.isComposing || e.altKey || e.ctrlKey || e.metaKey) return;
+    const { selectionStart, selectionEnd } = e.currentTarget;
+    let edit: TextEdit | null = null;
+
+    if (e.key === 'Enter' && !e.shiftKey) {
+      edit = editForEnter(value, selectionStart, selectionEnd);
+    } else if (e.key === 'Tab') {
+      // Keep focus in the editor even when there is nothing to dedent
+      e.preventDefault();
+      edit = e.shiftKey ? editForDedent(value, selectionStart) : { from: selectionStart, to: selectionEnd, text: INDENT };
+    } else if (e.key === '-' && selectionStart === selectionEnd) {
+      edit = editForArrow(value, selectionStart);
+    }
+
+    if (edit) {
+      e.preventDefault();
+      applyEdit(edit);
+    }
+  };
+
+  const trackCaret = (e: React.SyntheticEvent<HTMLTextAreaElement>) => {
+    const { selectionStart, selectionEnd } = e.currentTarget;
+    setCaret(selectionStart === selectionEnd ? selectionStart : null);
+  };
+
+  const isHighlighted = (i: number) => !!highlightedLines && i >= highlightedLines.start && i <= highlightedLines.end;
+  const diagnosticsAt = (i: number) => diagnostics.filter(d => d.line === i);
+  const isFlagged = (token: Token) =>
+    diagnostics.some(d => d.line === token.line && token.col < d.col + d.length && token.col + token.text.length > d.col);
+
+  return (
+    <div className="relative flex flex-1 min-h-0 bg-gray-900 border border-gray-700 rounded-lg overflow-hidden focus-within:ring-2 focus-within:ring-blue-500/50">
+      <div
+        ref={gutterRef}
+        aria-hidden
+        className="shrink-0 overflow-hidden py-4 pl-3 pr-2 border-r border-gray-800 font-mono text-sm leading-5 text-right text-gray-600 select-none"
+      >
+        {lines.map((_, i) => {
+          const errors = diagnosticsAt(i);
+          return (
+            <div
+              key={i}
+              className={errors.length > 0 ? 'text-red-400' : isHighlighted(i) ? 'text-blue-300' : undefined}
+              title={errors.map(d => d.message).join('\n') || undefined}
+            >
+              {i + 1}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="relative flex-1 min-w-0">
+        <div
+          ref={backdropRef}
+          aria-hidden
+          className="absolute inset-0 overflow-hidden p-4 font-mono text-sm leading-5 whitespace-pre text-gray-300 pointer-events-none"
+        >
+          {lines.map((line, i) => (
+            <div key={i} className={isHighlighted(i) ? 'bg-blue-500/20 -mx-4 px-4' : diagnosticsAt(i).length > 0 ? 'bg-red-500/10 -mx-4 px-4' : undefined}>
+              {line.length === 0 && diagnosticsAt(i).length === 0 ? ' ' : line.map(token => {
+                const bracket = brackets?.offsets.includes(token.offset);
+                const color = token.call ? 'text-yellow-300' : TOKEN_COLORS[token.kind];
+                const marker = bracket ? (brackets!.matched ? 'bg-gray-600 rounded-sm' : 'bg-red-900 rounded-sm') : '';
+                const flagged = isFlagged(token) ? 'underline decoration-wavy decoration-red-500' : '';
+                return color || marker || flagged ? (
+                  <span key={token.offset} className={`${color ?? ''} ${marker} ${flagged}`}>{token.text}</span>
+                ) : (
+                  token.text
+                );
+              })}
+              {diagnosticsAt(i).map((d, j) => (
+                <span key={`d${j}`} className="ml-6 text-xs text-red-400/90 italic">
+                  ● L{d.line + 1}:{d.col + 1} {d.message}
+                </span>
+              ))}
+            </div>
+          ))}
+        </div>
+        <textarea
+          ref={textareaRef}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onSelect={trackCaret}
+          onBlur={() => setCaret(null)}
+          onScroll={syncScroll}
+          onMouseMove={handleMouseMove}
+          onMouseLeave={() => reportHover(null)}
+          placeholder={placeholder}
+          wrap="off"
+          className="relative w-full h-full bg-transparent p-4 font-mono text-sm leading-5 text-transparent caret-gray-200 selection:bg-blue-500/30 placeholder:text-gray-600 focus:outline-none resize-none"
+          spellCheck={false}
+        />
+      </div>
+    </div>
+  );
+};
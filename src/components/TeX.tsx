@@ -0,0 +1,11 @@
+import React from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+
+// Inline KaTeX for a bare expression (no surrounding $)
+export const TeX: React.FC<{ tex: string }> = ({ tex }) => (
+  <ReactMarkdown remarkPlugins={[remarkMath]} rehypePlugins={[rehypeKatex]}>
+    {`$${tex}$`}
+  </ReactMarkdown>
+);
@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import { Activity, AlertCircle, AlertTriangle, CheckCircle, ChevronDown, ChevronRight, Info, XCircle } from 'lucide-react';
+import type { LlmComparison, Validation, ValidationIssue } from '../api';
+import { TeX } from './TeX';
+
+interface ValidationPanelProps {
+  validation?: Validation;
+}
+
+const STATUS_STYLES: Record<string, { icon: React.ReactNode; color: string }> = {
+  APPROVED: { icon: <CheckCircle className="w-5 h-5 text-green-400" />, color: 'text-green-400' },
+  WEAK: { icon: <AlertCircle className="w-5 h-5 text-yellow-400" />, color: 'text-yellow-400' },
+  REJECTED: { icon: <XCircle className="w-5 h-5 text-red-400" />, color: 'text-red-400' },
+};
+
+const SEVERITIES: Array<{ key: string; label: string; icon: React.ReactNode; color: string }> = [
+  { key: 'ERROR', label: 'Errores', icon: <XCircle className="w-4 h-4 text-red-400 shrink-0" />, color: 'bg-red-900 text-red-300' },
+  { key: 'WARNING', label: 'Advertencias', icon: <AlertTriangle className="w-4 h-4 text-yellow-400 shrink-0" />, color: 'bg-yellow-900 text-yellow-300' },
+  { key: 'INFO', label: 'Info', icon: <Info className="w-4 h-4 text-blue-400 shrink-0" />, color: 'bg-blue-900 text-blue-300' },
+];
+
+// What each bound strength says about the reported complexity
+const BOUND_STRENGTHS: Record<string, { color: string; meaning: string }> = {
+  STRONG: {
+    color: 'bg-green-900 text-green-300',
+    meaning: 'La cota está respaldada por una recurrencia resuelta o sumatorias cerradas: es ajustada.',
+  },
+  WEAK: {
+    color: 'bg-yellow-900 text-yellow-300',
+    meaning:
+      'La cota es un límite superior válido, pero no está demostrada ajustada: falta una recurrencia resuelta o sumatorias cerradas que la respalden, así que la complejidad real podría ser menor. Revise la derivación antes de usarla como Θ.',
+  },
+};
+
+const severityOf = (issue: ValidationIssue) => SEVERITIES.find(s => s.key === issue.severity.toUpperCase()) ?? SEVERITIES[2];
+
+// "BOUND_WEAK: Falta recurrencia…" → code BOUND_WEAK, message "Falta recurrencia…"
+const splitIssue = (issue: ValidationIssue) => {
+  const code = issue.code?.split(':')[0].trim();
+  const message = code && issue.message.startsWith(`${code}:`) ? issue.message.slice(code.length + 1).trim() : issue.message;
+  return { code, message };
+};
+
+// Boolean checks as pass/fail, anything else printed after the name
+const CheckRow: React.FC<{ name: string; value: unknown }> = ({ name, value }) => (
+  <li className="flex items-center gap-2">
+    {value === true && <CheckCircle className="w-4 h-4 text-green-400 shrink-0" />}
+    {value === false && <XCircle className="w-4 h-4 text-red-400 shrink-0" />}
+    <span className="text-gray-400">{name.replace(/_/g, ' ')}</span>
+    {typeof value !== 'boolean' && (
+      <span className="font-mono text-gray-300">{typeof value === 'string' ? value : JSON.stringify(value)}</span>
+    )}
+  </li>
+);
+
+const Concordance: React.FC<{ comparison: LlmComparison }> = ({ comparison }) => (
+  <div>
+    <span className="text-sm text-gray-500 uppercase tracking-wider font-bold">Determinista vs ML</span>
+    <div className="mt-2 grid grid-cols-[1fr_auto_1fr] items-center gap-3">
+      <div className="bg-gray-950 rounded-lg p-3 border border-gray-800">
+        <div className="text-xs text-gray-500 mb-1">Análisis determinista</div>
+        <div className="text-gray-200 [&_p]:inline">
+          {comparison.deterministic_result ? <TeX tex={comparison.deterministic_result} /> : '—'}
+        </div>
+      </div>
+      {comparison.concordance === undefined ? (
+        <span className="text-xs text-gray-500">?</span>
+      ) : comparison.concordance ? (
+        <span className="flex flex-col items-center text-xs text-green-400">
+          <CheckCircle className="w-5 h-5" /> concuerdan
+        </span>
+      ) : (
+        <span className="flex flex-col items-center text-xs text-red-400">
+          <XCircle className="w-5 h-5" /> discrepan
+        </span>
+      )}
+      <div className="bg-gray-950 rounded-lg p-3 border border-gray-800">
+        <div className="text-xs text-gray-500 mb-1">Minimodelo ML</div>
+        <div className="text-gray-200 font-mono text-sm">{comparison.ml_pattern?.replace(/_/g, ' ') ?? '—'}</div>
+        {comparison.ml_confidence !== undefined && (
+          <div className="mt-1 flex items-center gap-2">
+            <div className="h-1.5 flex-1 bg-gray-800 rounded-full overflow-hidden">
+              <div className="h-full bg-purple-500" style={{ width: `${comparison.ml_confidence * 100}%` }} />
+            </div>
+            <span className="text-xs text-gray-400">{(comparison.ml_confidence * 100).toFixed(1)}%</span>
+          </div>
+        )}
+      </div>
+    </div>
+    {comparison.analysis && <p className="mt-2 text-sm text-gray-400">{comparison.analysis}</p>}
+  </div>
+);
+
+// Status banner that expands into the full validation object: issues by
+// severity, bound strength, consistency checks and the ML concordance
+export const ValidationPanel: React.FC<ValidationPanelProps> = ({ validation }) => {
+  const [open, setOpen] = useState(false);
+  const [hidden, setHidden] = useState<Set<string>>(new Set());
+  const status = validation?.status?.toUpperCase() ?? '';
+  const style = STATUS_STYLES[status];
+  const issues = validation?.issues ?? [];
+  const strength = validation?.bound_strength?.toUpperCase();
+  const checks = Object.entries(validation?.consistency_checks ?? {});
+
+  const toggleSeverity = (key: string) =>
+    setHidden(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+
+  return (
+    <div className="bg-gray-900 rounded-xl border border-gray-800">
+      <button
+        onClick={() => setOpen(o => !o)}
+        disabled={!validation}
+        className="w-full flex items-center justify-between p-4 text-left disabled:cursor-default"
+      >
+        <div className="flex items-center gap-3">
+          {style?.icon ?? <Activity className="w-5 h-5 text-gray-400" />}
+          <div>
+            <h3 className={`font-bold ${style?.color ?? 'text-gray-400'}`}>Analysis Status: {validation?.status || 'UNKNOWN'}</h3>
+            <p className="text-xs text-gray-500">
+              Confidence: {validation?.confidence ? `${(validation.confidence * 100).toFixed(1)}%` : 'N/A'}
+              {strength && ` · Cota ${strength}`}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2 text-xs text-gray-400">
+          {issues.length > 0 && <span>{issues.length} issues found</span>}
+          {validation && (open ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />)}
+        </div>
+      </button>
+
+      {open && validation && (
+        <div className="border-t border-gray-800 p-4 space-y-6">
+          {strength && (
+            <div>
+              <span className="text-sm text-gray-500 uppercase tracking-wider font-bold">Fuerza de la cota</span>
+              <div className="mt-2 flex items-start gap-3">
+                <span className={`text-xs px-2 py-0.5 rounded shrink-0 ${BOUND_STRENGTHS[strength]?.color ?? 'bg-gray-800 text-gray-300'}`}>
+                  {strength}
+                </span>
+                <p className="text-sm text-gray-400">{BOUND_STRENGTHS[strength]?.meaning ?? 'Fuerza de cota reportada por el validador.'}</p>
+              </div>
+            </div>
+          )}
+
+          <div>
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-gray-500 uppercase tracking-wider font-bold">Problemas</span>
+              <div className="flex gap-1">
+                {SEVERITIES.map(severity => {
+                  const count = issues.filter(issue => severityOf(issue).key === severity.key).length;
+                  return (
+                    <button
+                      key={severity.key}
+                      onClick={() => toggleSeverity(severity.key)}
+                      className={`text-xs px-2 py-0.5 rounded transition-opacity ${severity.color} ${hidden.has(severity.key) ? 'opacity-30' : ''}`}
+                    >
+                      {severity.label} {count}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+            {issues.length === 0 ? (
+              <p className="mt-2 text-sm text-gray-500">Sin problemas reportados.</p>
+            ) : (
+              <ul className="mt-2 space-y-2">
+                {issues
+                  .filter(issue => !hidden.has(severityOf(issue).key))
+                  .map((issue, i) => {
+                    const { code, message } = splitIssue(issue);
+                    return (
+                      <li key={i} className="flex items-start gap-2 text-sm">
+                        {severityOf(issue).icon}
+                        <div>
+                          {code && <span className="font-mono text-xs text-gray-500 mr-2">{code}</span>}
+                          <span className="text-gray-300">{message}</span>
+                        </div>
+                      </li>
+                    );
+                  })}
+              </ul>
+            )}
+          </div>
+
+          <div>
+            <span className="text-sm text-gray-500 uppercase tracking-wider font-bold">Verificaciones de consistencia</span>
+            {checks.length === 0 ? (
+              <p className="mt-2 text-sm text-gray-500">El validador no reportó verificaciones.</p>
+            ) : (
+              <ul className="mt-2 space-y-1 text-sm">
+                {checks.map(([name, value]) => (
+                  <CheckRow key={name} name={name} value={value} />
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {validation.llm_comparison && <Concordance comparison={validation.llm_comparison} />}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,19 @@
+// Agent icons and colors for the SSE logs and the pipeline timeline
+export const AGENT_CONFIG: Record<string, { icon: string; color: string; bar: string; name: string }> = {
+  'parser': { icon: '📝', color: 'text-blue-400', bar: 'bg-blue-500', name: 'Parser' },
+  'analyzer': { icon: '🔍', color: 'text-purple-400', bar: 'bg-purple-500', name: 'Analyzer' },
+  'complexity': { icon: '📊', color: 'text-green-400', bar: 'bg-green-500', name: 'Complexity' },
+  'validator': { icon: '✅', color: 'text-yellow-400', bar: 'bg-yellow-500', name: 'Validator' },
+  'diagram': { icon: '📈', color: 'text-pink-400', bar: 'bg-pink-500', name: 'Diagram' },
+  'explainer': { icon: '💡', color: 'text-orange-400', bar: 'bg-orange-500', name: 'Explainer' },
+  'report': { icon: '📋', color: 'text-cyan-400', bar: 'bg-cyan-500', name: 'Report' },
+  'pipeline': { icon: '⚙️', color: 'text-gray-400', bar: 'bg-gray-500', name: 'Pipeline' },
+};
+
+export const STATE_ICONS: Record<string, string> = {
+  'started': '▶️',
+  'running': '⚙️',
+  'finished': '✅',
+  'error': '❌',
+  'skipped': '⏭️',
+};
@@ -0,0 +1,264 @@
+import type { AstNode } from '../api';
+
+// Helpers over the backend AST (Program → Function → Block → For/If/Assign/…)
+
+export interface LineRange {
+  // 0-based, inclusive
+  start: number;
+  end: number;
+}
+
+// The backend drops arithmetic operators (`{ arith: [j, 1] }` for `j + 1`);
+// printers emit this placeholder and resolveOperators() recovers them from source.
+export const UNKNOWN_OP = '\u2295';
+
+const asRecord = (value: unknown): Record<string, unknown> | null =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+
+export const isAstNode = (value: unknown): value is AstNode => typeof asRecord(value)?.type === 'string';
+
+// Pretty-prints an expression back into pseudocode, e.g. A[j ⊕ 1]
+export const formatExpr = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value).toUpperCase();
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) return value.map(formatExpr).join(', ');
+
+  const node = asRecord(value)!;
+  switch (node.type) {
+    case 'Expr':
+      return formatExpr(node.value);
+    case 'ArrayAccess':
+      return `${node.name}[${(Array.isArray(node.subs) ? node.subs : []).map(formatExpr).join(', ')}]`;
+    case 'Call':
+      return `${node.name}(${(Array.isArray(node.args) ? node.args : []).map(formatExpr).join(', ')})`;
+  }
+  if ('var' in node) return String(node.var);
+  if (Array.isArray(node.arith)) {
+    const ops = operatorsOf(node);
+    return formatOperands(
+      node.arith.map((item, i) => (needsParens(item, ops[i - 1], ops[i]) ? `(${formatExpr(item)})` : item)),
+      ops
+    );
+  }
+  if (Array.isArray(node.cmp)) return formatOperands(node.cmp, []);
+  if (Array.isArray(node.logic)) return formatOperands(node.logic, []);
+  if ('not' in node) return `NOT ${formatExpr(node.not)}`;
+  if ('neg' in node) return `-${formatExpr(node.neg)}`;
+  if ('str' in node) return `"${node.str}"`;
+  if (typeof node.type === 'string') return node.type;
+  return JSON.stringify(value);
+};
+
+const operatorsOf = (node: Record<string, unknown>): unknown[] =>
+  Array.isArray(node.ops) ? node.ops : typeof node.op === 'string' ? [node.op] : [];
+
+const precedence = (op: unknown) =>
+  typeof op !== 'string' ? 0 : op === '^' ? 3 : /^([*/%]|MOD|DIV)$/i.test(op) ? 2 : 1;
+
+// Only decidable when operators are known (local parses keep them in `ops`)
+const needsParens = (item: unknown, left: unknown, right: unknown): boolean => {
+  const record = asRecord(item);
+  const inner = record?.type === 'Expr' ? asRecord(record.value) : record;
+  if (!inner || !Array.isArray(inner.arith)) return false;
+  const innerOps = operatorsOf(inner);
+  if (innerOps.length === 0) return false;
+  const innerPrec = Math.min(...innerOps.map(precedence));
+  const outerPrec = Math.max(typeof left === 'string' ? precedence(left) : 0, typeof right === 'string' ? precedence(right) : 0);
+  return innerPrec < outerPrec || ((left === '-' || left === '/') && innerPrec === precedence(left));
+};
+
+const isOperatorToken = (item: unknown): item is string =>
+  typeof item === 'string' && /^([<>=!≤≥≠+\-*/]+|AND|OR|MOD|DIV)$/i.test(item.trim());
+
+// Operands may embed their operators as strings ([a, '>', b]) or not at all
+const formatOperands = (items: unknown[], ops: unknown[]): string => {
+  const parts: string[] = [];
+  let opIndex = 0;
+  items.forEach((item, i) => {
+    if (isOperatorToken(item)) {
+      parts.push(item);
+      return;
+    }
+    if (i > 0 && !isOperatorToken(items[i - 1])) parts.push(String(ops[opIndex++] ?? UNKNOWN_OP));
+    parts.push(formatExpr(item));
+  });
+  return parts.join(' ');
+};
+
+// One-line summary of a node, in the pseudocode dialect. With the node's
+// source line, operators missing from the AST are filled in.
+export const nodeLabel = (node: AstNode, sourceLine?: string): string => {
+  const fx = (value: unknown) => resolveOperators(formatExpr(value), sourceLine);
+  switch (node.type) {
+    case 'Program':
+      return 'Program';
+    case 'Function':
+      return `FUNCTION ${node.name}(${(Array.isArray(node.params) ? node.params : []).join(', ')})`;
+    case 'Block':
+      return 'BEGIN … END';
+    case 'For':
+      if (node.iterable !== undefined) return `FOR EACH ${node.var} IN ${fx(node.iterable)}`;
+      return `FOR ${node.var} ← ${fx(node.start)} TO ${fx(node.end)}${node.step ? ` STEP ${fx(node.step)}` : ''}`;
+    case 'While':
+      return `WHILE ${fx(node.cond)}`;
+    case 'If':
+      return `IF ${fx(node.cond)}`;
+    case 'Assign':
+      return `${fx(node.target)} ← ${fx(node.value)}`;
+    case 'Return':
+      return `RETURN ${fx(node.value)}`;
+    case 'Call':
+      return fx(node);
+    default:
+      return node.type;
+  }
+};
+
+// Structural children shown in the tree
+export const childrenOf = (node: AstNode): Array<{ label?: string; node: AstNode }> => {
+  const wrap = (value: unknown, label?: string) => (isAstNode(value) ? [{ label, node: value }] : []);
+  switch (node.type) {
+    case 'Program':
+      return (Array.isArray(node.items) ? node.items : []).flatMap(item => wrap(item));
+    case 'Block':
+      return (Array.isArray(node.statements) ? node.statements : []).flatMap(item => wrap(item));
+    case 'If':
+      return [...wrap(node.then_block, 'THEN'), ...wrap(node.else_block, 'ELSE')];
+    default:
+      return wrap(node.body);
+  }
+};
+
+// Expression fields worth expanding for debugging the parser
+export const expressionFields = (node: AstNode): Array<[string, unknown]> => {
+  const fields: Record<string, string[]> = {
+    For: ['start', 'end', 'step', 'iterable'],
+    While: ['cond'],
+    If: ['cond'],
+    Assign: ['target', 'value'],
+    Return: ['value'],
+  };
+  return (fields[node.type] ?? []).filter(key => node[key] !== undefined && node[key] !== null).map(key => [key, node[key]]);
+};
+
+// Paths where two ASTs differ, e.g. the local parse against the backend's.
+// `ops` is ignored since the backend does not keep operators.
+export const diffAst = (a: unknown, b: unknown, path = '$', limit = 20): string[] => {
+  const diffs: string[] = [];
+  const walk = (x: unknown, y: unknown, at: string) => {
+    if (diffs.length >= limit) return;
+    if (Array.isArray(x) && Array.isArray(y)) {
+      if (x.length !== y.length) diffs.push(`${at} (${x.length} ≠ ${y.length} elementos)`);
+      else x.forEach((item, i) => walk(item, y[i], `${at}[${i}]`));
+      return;
+    }
+    const rx = asRecord(x);
+    const ry = asRecord(y);
+    if (rx && ry) {
+      if (rx.type !== ry.type) {
+        diffs.push(`${at} (${String(rx.type ?? 'expr')} ≠ ${String(ry.type ?? 'expr')})`);
+        return;
+      }
+      const keys = new Set([...Object.keys(rx), ...Object.keys(ry)]);
+      keys.delete('ops');
+      keys.forEach(key => walk(rx[key] ?? null, ry[key] ?? null, `${at}.${key}`));
+      return;
+    }
+    if (x !== y) diffs.push(at);
+  };
+  walk(a, b, path);
+  return diffs;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Regex matching a printed expression in source, tolerant to spacing and
+// capturing every unknown operator.
+const expressionPattern = (printed: string) =>
+  printed
+    .split(UNKNOWN_OP)
+    .map(part => escapeRegExp(part.trim()).replace(/\s+/g, '\\s*'))
+    .join('\\s*([-+*/]|MOD|DIV)\\s*');
+
+// Fills UNKNOWN_OP placeholders with the operators used in `sourceLine`
+export const resolveOperators = (printed: string, sourceLine?: string): string => {
+  if (!printed.includes(UNKNOWN_OP) || !sourceLine) return printed;
+  const match = new RegExp(expressionPattern(printed), 'i').exec(sourceLine);
+  if (!match) return printed;
+  let i = 1;
+  return printed.replace(new RegExp(UNKNOWN_OP, 'g'), () => match[i++] ?? UNKNOWN_OP);
+};
+
+const OPENS_BLOCK = /\b(DO|THEN)\s*$/i;
+
+const blockEnd = (lines: string[], start: number): number => {
+  let depth = 0;
+  for (let i = start; i < lines.length; i++) {
+    const line = lines[i].trim();
+    const next = lines.slice(i + 1).find(l => l.trim() !== '')?.trim() ?? '';
+    if (/^BEGIN\b/i.test(line)) depth++;
+    else if (OPENS_BLOCK.test(line) && !/^BEGIN\b/i.test(next)) depth++;
+    if (/^END\b/i.test(line)) {
+      depth--;
+      if (depth <= 0 && i > start) return i;
+    }
+  }
+  return start;
+};
+
+const headerPattern = (node: AstNode): RegExp | null => {
+  switch (node.type) {
+    case 'Function':
+      return new RegExp(`^FUNCTION\\s+${escapeRegExp(String(node.name))}\\b`, 'i');
+    case 'For':
+      return new RegExp(`^FOR\\s+(EACH\\s+)?${escapeRegExp(String(node.var))}\\b`, 'i');
+    case 'While':
+      return /^WHILE\b/i;
+    case 'If':
+      return /^IF\b/i;
+    case 'Return':
+      return /^RETURN\b/i;
+    case 'Assign':
+      return new RegExp(`^${expressionPattern(formatExpr(node.target))}\\s*(←|<-|:=)`, 'i');
+    case 'Call':
+      return new RegExp(`^${escapeRegExp(String(node.name))}\\s*\\(`, 'i');
+    default:
+      return null;
+  }
+};
+
+// Maps each statement node to the source lines it spans. The AST carries no
+// positions, so nodes are matched in order against statement headers.
+export const mapAstToLines = (ast: AstNode, source: string): Map<AstNode, LineRange> => {
+  const lines = source.split('\n');
+  const ranges = new Map<AstNode, LineRange>();
+  let cursor = 0;
+
+  const visit = (node: AstNode) => {
+    const pattern = headerPattern(node);
+    if (pattern) {
+      const found = lines.findIndex((line, i) => i >= cursor && pattern.test(line.trim()));
+      if (found >= 0) {
+        const compound = ['Function', 'For', 'While', 'If'].includes(node.type);
+        ranges.set(node, { start: found, end: compound ? blockEnd(lines, found) : found });
+        cursor = found + 1;
+      }
+    }
+    childrenOf(node).forEach(child => visit(child.node));
+
+    // Blocks span their first to last mapped statement
+    if (node.type === 'Block' || node.type === 'Program') {
+      const childRanges = childrenOf(node).map(c => ranges.get(c.node)).filter((r): r is LineRange => !!r);
+      if (childRanges.length > 0) {
+        ranges.set(node, {
+          start: Math.min(...childRanges.map(r => r.start)),
+          end: Math.max(...childRanges.map(r => r.end)),
+        });
+      }
+    }
+  };
+
+  visit(ast);
+  return ranges;
+};
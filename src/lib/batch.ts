@@ -0,0 +1,150 @@
+import { analysisClient, describeError, isAbortError } from '../api';
+import type { AnalysisClient, AnalysisReport } from '../api';
+import { applyAgentEvent } from './pipelineRuns';
+import type { AgentRun } from './pipelineRuns';
+import type { ExpectedBounds, Preset } from './presets';
+import { checkExpectations, describeFailures, regressionPassed } from './regression';
+
+// Runs several programs through the backend with at most `concurrency`
+// analyses in flight, reporting each one's progress as it changes.
+
+export type BatchStatus = 'queued' | 'running' | 'done' | 'error' | 'cancelled';
+
+export interface BatchItem {
+  name: string;
+  code: string;
+  expected?: ExpectedBounds;
+  status: BatchStatus;
+  analysisId?: string;
+  report?: AnalysisReport;
+  agentRuns: AgentRun[];
+  error?: string;
+  // Wall-clock time from submission to the final report
+  durationMs?: number;
+}
+
+export interface BatchOptions {
+  concurrency: number;
+  signal: AbortSignal;
+  onUpdate: (index: number, patch: Partial<BatchItem>) => void;
+  client?: AnalysisClient;
+}
+
+export const queueBatch = (presets: Preset[]): BatchItem[] =>
+  presets.map(({ name, code, expected }) => ({ name, code, expected, status: 'queued', agentRuns: [] }));
+
+export const runBatch = async (items: BatchItem[], { concurrency, signal, onUpdate, client = analysisClient }: BatchOptions) => {
+  let next = 0;
+
+  const runOne = async (index: number) => {
+    const update = (patch: Partial<BatchItem>) => onUpdate(index, patch);
+    const started = Date.now();
+    let analysisId: string | undefined;
+    let runs: AgentRun[] = [];
+    update({ status: 'running' });
+    try {
+      analysisId = await client.startAnalysis(items[index].code, signal);
+      update({ analysisId });
+      const { reportUrl } = await client.streamProgress(analysisId, {
+        signal,
+        onEvent: event => {
+          if (event.kind !== 'agent') return;
+          runs = applyAgentEvent(runs, event);
+          update({ agentRuns: runs });
+        },
+      });
+      const report = await client.fetchReport(analysisId, reportUrl, signal);
+      update({ status: 'done', report, durationMs: Date.now() - started });
+    } catch (err) {
+      if (isAbortError(err) || signal.aborted) {
+        // Best effort, as for a single run
+        if (analysisId) client.cancelAnalysis(analysisId).catch(() => undefined);
+        update({ status: 'cancelled' });
+      } else {
+        update({ status: 'error', error: describeError(err), durationMs: Date.now() - started });
+      }
+    }
+  };
+
+  const worker = async () => {
+    while (next < items.length && !signal.aborted) await runOne(next++);
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, worker));
+  for (let i = next; i < items.length; i++) onUpdate(i, { status: 'cancelled' });
+};
+
+// Flat summary of one run, shared by the results table and the exports
+export interface BatchRow {
+  algorithm: string;
+  status: BatchStatus;
+  analysis_id: string;
+  time_big_o: string;
+  time_omega: string;
+  time_theta: string;
+  space_big_o: string;
+  best_case: string;
+  average_case: string;
+  worst_case: string;
+  validation_status: string;
+  confidence: number | null;
+  duration_ms: number | null;
+  // Against the preset's expected bounds; empty without a report or expectations
+  regression: 'pass' | 'fail' | '';
+  regression_diffs: string;
+  error: string;
+}
+
+export const batchRow = (item: BatchItem): BatchRow => {
+  const analysis = item.report?.complexity_analysis;
+  const checks = item.report && item.expected ? checkExpectations(item.expected, item.report) : null;
+  return {
+    algorithm: item.name,
+    status: item.status,
+    analysis_id: item.analysisId ?? '',
+    time_big_o: analysis?.complexity.time.big_o ?? '',
+    time_omega: analysis?.complexity.time.omega ?? '',
+    time_theta: analysis?.complexity.time.theta ?? '',
+    space_big_o: analysis?.complexity.space.big_o ?? '',
+    best_case: analysis?.cases?.best?.complexity ?? '',
+    average_case: analysis?.cases?.average?.complexity ?? '',
+    worst_case: analysis?.cases?.worst?.complexity ?? '',
+    validation_status: item.report?.validation?.status ?? '',
+    confidence: item.report?.validation?.confidence ?? null,
+    duration_ms: item.durationMs ?? null,
+    regression: checks ? (regressionPassed(checks) ? 'pass' : 'fail') : '',
+    regression_diffs: checks ? describeFailures(checks).join('; ') : '',
+    error: item.error ?? '',
+  };
+};
+
+const BATCH_COLUMNS: Array<keyof BatchRow> = [
+  'algorithm',
+  'status',
+  'analysis_id',
+  'time_big_o',
+  'time_omega',
+  'time_theta',
+  'space_big_o',
+  'best_case',
+  'average_case',
+  'worst_case',
+  'validation_status',
+  'confidence',
+  'duration_ms',
+  'regression',
+  'regression_diffs',
+  'error',
+];
+
+const csvField = (value: string | number | null) => {
+  const text = value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const batchToCsv = (items: BatchItem[]): string => {
+  const rows = items.map(batchRow);
+  return [BATCH_COLUMNS.join(','), ...rows.map(row => BATCH_COLUMNS.map(column => csvField(row[column])).join(','))].join('\n') + '\n';
+};
+
+export const batchToJson = (items: BatchItem[]): string => JSON.stringify(items.map(batchRow), null, 2);
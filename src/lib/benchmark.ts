@@ -0,0 +1,183 @@
+import type { AstNode } from '../api';
+import { parsePseudocode } from './parser';
+import { ExecutionLimitError, createArray, executeProgram } from './interpreter';
+import type { OperationCounts, Value } from './interpreter';
+
+// Empirical benchmark: runs the entry function over inputs of growing n and
+// records operation counts. Runs in a Web Worker (benchmark.worker.ts).
+
+export type InputOrder = 'random' | 'sorted' | 'reversed';
+
+type ParameterKind = 'array' | 'matrix' | 'graph' | 'marks' | 'size' | 'lower' | 'upper' | 'absent';
+
+export interface ParameterSpec {
+  name: string;
+  kind: ParameterKind;
+}
+
+export interface BenchmarkPoint {
+  n: number;
+  counts: OperationCounts;
+  total: number;
+  ms: number;
+}
+
+export interface BenchmarkRequest {
+  code: string;
+  order: InputOrder;
+  // Per-run budget; the series stops at the first run that exceeds it
+  maxOperations: number;
+}
+
+export type BenchmarkMessage =
+  | { kind: 'start'; entry: string; parameters: ParameterSpec[] }
+  | { kind: 'point'; point: BenchmarkPoint }
+  | { kind: 'done'; reason?: string }
+  | { kind: 'error'; message: string };
+
+// Roughly ×1.5 per step so exponential algorithms still get several points
+export const BENCHMARK_SIZES = [4, 6, 8, 12, 16, 24, 32, 48, 64, 96, 128, 192, 256, 384, 512, 768, 1024, 1536, 2048, 3072, 4096];
+
+// A series stops early once one run takes this long
+const MAX_RUN_MS = 3000;
+
+const SCALAR_KINDS: Array<[RegExp, ParameterKind]> = [
+  [/^(n|size|len|length|m)$/i, 'size'],
+  [/^(left|low|lo|start|first|begin|s|src|source|u|v|p)$/i, 'lower'],
+  [/^(right|high|hi|end|last|r)$/i, 'upper'],
+  [/^(target|key|x|value|val|item|k)$/i, 'absent'],
+];
+
+const walk = (value: unknown, visit: (node: Record<string, unknown>) => void) => {
+  if (Array.isArray(value)) value.forEach(item => walk(item, visit));
+  else if (value && typeof value === 'object') {
+    visit(value as Record<string, unknown>);
+    Object.values(value).forEach(child => walk(child, visit));
+  }
+};
+
+// Infers what each parameter of `fn` stands for from how the program uses it
+// and from the usual names in the course (A, G, visited, n, low/high, target)
+export const inferParameters = (program: AstNode, fn: AstNode): ParameterSpec[] => {
+  const indexed = new Map<string, number>();
+  const graphs = new Set<string>();
+  walk(program, node => {
+    if (node.type === 'ArrayAccess') {
+      const subs = Array.isArray(node.subs) ? node.subs.length : 1;
+      indexed.set(String(node.name), Math.max(indexed.get(String(node.name)) ?? 0, subs));
+    }
+    if (node.type === 'Call' && /^(adjacents|neighbors)$/i.test(String(node.name)) && Array.isArray(node.args)) {
+      walk(node.args[0], arg => {
+        if (typeof arg.var === 'string') graphs.add(arg.var);
+      });
+    }
+  });
+
+  return ((fn.params as string[]) ?? []).map(name => {
+    if (graphs.has(name) || /^(g|graph|grafo)$/i.test(name)) return { name, kind: 'graph' };
+    if (/visit|mark|seen/i.test(name)) return { name, kind: 'marks' };
+    if (indexed.has(name)) return { name, kind: indexed.get(name)! > 1 ? 'matrix' : 'array' };
+    const scalar = SCALAR_KINDS.find(([pattern]) => pattern.test(name));
+    return { name, kind: scalar ? scalar[1] : 'size' };
+  });
+};
+
+// Deterministic so repeated runs of the same code give the same counts
+export const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+export const generateValues = (n: number, order: InputOrder, random: () => number): number[] => {
+  const values = Array.from({ length: n }, () => Math.floor(random() * n * 10));
+  if (order === 'sorted') values.sort((a, b) => a - b);
+  if (order === 'reversed') values.sort((a, b) => b - a);
+  return values;
+};
+
+// Connected undirected graph on vertices 1..n: a path plus n random edges
+const generateGraph = (n: number, random: () => number): Value => {
+  const adjacency: number[][] = Array.from({ length: n + 1 }, () => []);
+  const connect = (a: number, b: number) => {
+    if (a === b || adjacency[a].includes(b)) return;
+    adjacency[a].push(b);
+    adjacency[b].push(a);
+  };
+  for (let v = 1; v < n; v++) connect(v, v + 1);
+  for (let i = 0; i < n; i++) connect(1 + Math.floor(random() * n), 1 + Math.floor(random() * n));
+  return { kind: 'graph', adjacency };
+};
+
+export const buildArguments = (specs: ParameterSpec[], n: number, order: InputOrder, random: () => number): Value[] =>
+  specs.map(({ kind }) => {
+    switch (kind) {
+      case 'array':
+        return createArray(generateValues(n, order, random));
+      case 'matrix': {
+        const matrix = createArray();
+        for (let i = 1; i <= n; i++) {
+          for (let j = 1; j <= n; j++) matrix.cells.set(`${i},${j}`, Math.floor(random() * 10));
+        }
+        matrix.length = n;
+        return matrix;
+      }
+      case 'graph':
+        return generateGraph(n, random);
+      case 'marks':
+        return { ...createArray(), length: n };
+      case 'lower':
+        return 1;
+      case 'upper':
+      case 'size':
+        return n;
+      case 'absent':
+        // Never present in generated data (values are ≥ 0): worst case for searches
+        return -1;
+    }
+  });
+
+// Functions named like a search get sorted input so binary search is correct
+export const defaultOrder = (entry: string): InputOrder => (/search|busqueda|búsqueda/i.test(entry) ? 'sorted' : 'random');
+
+export const entryFunction = (program: AstNode): AstNode | undefined =>
+  ((program.items as AstNode[]) ?? []).find(item => item.type === 'Function');
+
+export const runBenchmark = (request: BenchmarkRequest, emit: (message: BenchmarkMessage) => void) => {
+  const { ast, diagnostics } = parsePseudocode(request.code);
+  if (!ast) {
+    emit({ kind: 'error', message: `El código tiene errores de sintaxis (línea ${diagnostics[0].line + 1}: ${diagnostics[0].message})` });
+    return;
+  }
+  const fn = entryFunction(ast);
+  if (!fn) {
+    emit({ kind: 'error', message: 'No hay ninguna FUNCTION que ejecutar' });
+    return;
+  }
+  const entry = String(fn.name);
+  const parameters = inferParameters(ast, fn);
+  emit({ kind: 'start', entry, parameters });
+
+  for (const n of BENCHMARK_SIZES) {
+    const args = buildArguments(parameters, n, request.order, seededRandom(n));
+    const started = performance.now();
+    try {
+      const { counts } = executeProgram(ast, entry, args, { maxOperations: request.maxOperations });
+      const ms = performance.now() - started;
+      emit({ kind: 'point', point: { n, counts, total: counts.comparisons + counts.assignments + counts.arrayAccesses, ms } });
+      if (ms > MAX_RUN_MS) {
+        emit({ kind: 'done', reason: `n = ${n} tardó ${(ms / 1000).toFixed(1)} s` });
+        return;
+      }
+    } catch (err) {
+      if (err instanceof ExecutionLimitError) {
+        emit({ kind: 'done', reason: `n = ${n}: ${err.message}` });
+      } else {
+        emit({ kind: 'error', message: `n = ${n}: ${err instanceof Error ? err.message : String(err)}` });
+      }
+      return;
+    }
+  }
+  emit({ kind: 'done' });
+};
@@ -0,0 +1,7 @@
+import { runBenchmark } from './benchmark';
+import type { BenchmarkRequest } from './benchmark';
+
+// Keeps long interpreter runs off the UI thread; terminate() cancels a series
+self.onmessage = (event: MessageEvent<BenchmarkRequest>) => {
+  runBenchmark(event.data, message => self.postMessage(message));
+};
@@ -0,0 +1,159 @@
+import type { AnalysisReport, AstNode } from '../api';
+import { childrenOf, formatExpr, mapAstToLines } from './ast';
+import type { LineRange } from './ast';
+
+// Links the backend's control-flow graph to source lines. CFG labels are lossy
+// ("FOR ", "A[ ? ] := temp"), so nodes are matched by shape and order against
+// the AST statements, the same way mapAstToLines matches statements to lines.
+
+type CfgKind = 'terminal' | 'function' | 'end' | 'decision' | 'branch' | 'return' | 'statement';
+
+export interface CfgNode {
+  id: string;
+  label: string;
+  kind: CfgKind;
+}
+
+export interface CfgLinks {
+  chartKey: string;
+  // Node id → lines in the editor source and in pseudocode_normalized
+  source: Map<string, LineRange>;
+  normalized: Map<string, LineRange>;
+}
+
+// id followed directly by its shape: N3{"FOR "}, N12(["RETURN A"]), N13(([End f]))
+const NODE_DEFINITION = /^\s*([A-Za-z_]\w*)(\(\(|\(\[|\[\(|\{\{|\[|\{|\()(.*)$/;
+
+const decodeLabel = (raw: string): string =>
+  raw
+    .replace(/^[[({]+/, '')
+    .replace(/[)\]}]+\s*$/, '')
+    .replace(/^"|"$/g, '')
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&quot;/g, '"')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+    .trim();
+
+const kindOf = (id: string, shape: string, label: string): CfgKind => {
+  if (/^(START|END)$/i.test(id)) return 'terminal';
+  if (/^RETURN\b/i.test(label)) return 'return';
+  if (shape === '((') return 'end';
+  if (shape === '([' || shape === '[(') return 'function';
+  if (shape === '{{' || /^IF\b/i.test(label)) return 'branch';
+  if (shape === '{') return 'decision';
+  return 'statement';
+};
+
+export const parseCfgNodes = (chart: string): CfgNode[] => {
+  const nodes: CfgNode[] = [];
+  const seen = new Set<string>();
+  chart.split('\n').forEach(line => {
+    const match = NODE_DEFINITION.exec(line);
+    if (!match || seen.has(match[1])) return;
+    const [, id, shape, rest] = match;
+    const label = decodeLabel(rest);
+    seen.add(id);
+    nodes.push({ id, label, kind: kindOf(id, shape, label) });
+  });
+  return nodes;
+};
+
+interface Entry {
+  kind: CfgKind;
+  node: AstNode;
+}
+
+const STATEMENT_KINDS: Record<string, CfgKind> = {
+  For: 'decision',
+  While: 'decision',
+  Repeat: 'decision',
+  If: 'branch',
+  Return: 'return',
+  Assign: 'statement',
+  Let: 'statement',
+  Call: 'statement',
+};
+
+// Statements in the order the CFG builder visits them; each function also
+// yields an 'end' entry after its body
+const statementEntries = (ast: AstNode): Entry[] => {
+  const entries: Entry[] = [];
+  const visit = (node: AstNode) => {
+    if (node.type === 'Function') entries.push({ kind: 'function', node });
+    else if (STATEMENT_KINDS[node.type]) entries.push({ kind: STATEMENT_KINDS[node.type], node });
+    childrenOf(node).forEach(child => visit(child.node));
+    if (node.type === 'Function') entries.push({ kind: 'end', node });
+  };
+  visit(ast);
+  return entries;
+};
+
+const baseName = (text: string) => text.split(/\s*(?::=|←|<-)/)[0].split('[')[0].trim().toLowerCase();
+
+// Assignment labels keep their target name even when the index is lost
+const sameTarget = (node: CfgNode, entry: Entry): boolean =>
+  entry.node.type === 'Assign' && baseName(node.label) === baseName(formatExpr(entry.node.target));
+
+const linkNodes = (nodes: CfgNode[], entries: Entry[]): Map<string, Entry> => {
+  const links = new Map<string, Entry>();
+  let cursor = 0;
+  nodes.forEach(node => {
+    if (node.kind === 'terminal') return;
+    // Search up to the next function boundary so one unmatched node cannot skip a whole function
+    const window: number[] = [];
+    for (let i = cursor; i < entries.length; i++) {
+      if (i > cursor && entries[i].kind === 'function' && node.kind !== 'function') break;
+      if (entries[i].kind === node.kind) window.push(i);
+    }
+    const found = window.find(i => node.kind !== 'statement' || sameTarget(node, entries[i])) ?? window[0];
+    if (found === undefined) return;
+    links.set(node.id, entries[found]);
+    cursor = found + 1;
+  });
+  return links;
+};
+
+// Decisions and headers point at their first line, function ends at END
+const linkedRange = (entry: Entry, ranges: Map<AstNode, LineRange>): LineRange | undefined => {
+  const range = ranges.get(entry.node);
+  if (!range) return undefined;
+  if (entry.kind === 'end') return { start: range.end, end: range.end };
+  if (entry.kind === 'function' || entry.kind === 'decision' || entry.kind === 'branch') {
+    return { start: range.start, end: range.start };
+  }
+  return range;
+};
+
+const toLines = (links: Map<string, Entry>, ranges: Map<AstNode, LineRange>): Map<string, LineRange> => {
+  const lines = new Map<string, LineRange>();
+  links.forEach((entry, id) => {
+    const range = linkedRange(entry, ranges);
+    if (range) lines.set(id, range);
+  });
+  return lines;
+};
+
+// The CFG artifact of a report: the 'cfg_diagram' key or a control_flow_graph type
+export const findCfgArtifact = (report: AnalysisReport): string | null =>
+  Object.entries(report.artifacts ?? {}).find(
+    ([key, artifact]) =>
+      artifact.artifact_type === 'mermaid' && (key === 'cfg_diagram' || artifact.metadata?.type === 'control_flow_graph')
+  )?.[0] ?? null;
+
+export const buildCfgLinks = (report: AnalysisReport, source: string): CfgLinks | null => {
+  const chartKey = findCfgArtifact(report);
+  if (!chartKey || !report.ast) return null;
+  const links = linkNodes(parseCfgNodes(report.artifacts![chartKey].content), statementEntries(report.ast));
+  return {
+    chartKey,
+    source: toLines(links, mapAstToLines(report.ast, source)),
+    normalized: report.pseudocode_normalized
+      ? toLines(links, mapAstToLines(report.ast, report.pseudocode_normalized))
+      : new Map(),
+  };
+};
+
+export const nodesAtLine = (lines: Map<string, LineRange>, line: number): string[] =>
+  [...lines].filter(([, range]) => line >= range.start && line <= range.end).map(([id]) => id);
@@ -0,0 +1,78 @@
+import type { AnalysisReport } from '../api';
+
+// Field-by-field comparison of two reports
+
+export interface ComparisonRow {
+  section: string;
+  label: string;
+  left?: string;
+  right?: string;
+  // Rendered as math (bounds, recurrences) rather than plain text
+  math?: boolean;
+  differs: boolean;
+}
+
+// Spelling-insensitive form of a bound: "O(n²)", "O(n^{2})" and "O( n^2 )" are equal
+export const normalizeBound = (value: string): string =>
+  value
+    .replace(/\\(left|right|,|;|!)/g, '')
+    .replace(/[{}\s]/g, '')
+    .replace(/²/g, '^2')
+    .replace(/³/g, '^3')
+    .replace(/\\log/g, 'log')
+    .replace(/\\cdot|·|\*/g, '')
+    .toLowerCase();
+
+const row = (section: string, label: string, left: unknown, right: unknown, math = false): ComparisonRow => {
+  const l = left === undefined || left === null || left === '' ? undefined : String(left);
+  const r = right === undefined || right === null || right === '' ? undefined : String(right);
+  const differs = math ? normalizeBound(l ?? '') !== normalizeBound(r ?? '') : (l ?? '').trim() !== (r ?? '').trim();
+  return { section, label, left: l, right: r, math, differs };
+};
+
+export const compareReports = (a: AnalysisReport, b: AnalysisReport): ComparisonRow[] => {
+  const ca = a.complexity_analysis;
+  const cb = b.complexity_analysis;
+  const rows: ComparisonRow[] = [];
+
+  for (const [kind, label] of [['time', 'Tiempo'], ['space', 'Espacio']] as const) {
+    for (const bound of ['big_o', 'omega', 'theta'] as const) {
+      rows.push(row(label, bound === 'big_o' ? 'O' : bound === 'omega' ? 'Ω' : 'Θ', ca.complexity[kind][bound], cb.complexity[kind][bound], true));
+    }
+  }
+  for (const [key, label] of [['best', 'Mejor'], ['average', 'Promedio'], ['worst', 'Peor']] as const) {
+    rows.push(row('Casos', label, ca.cases?.[key]?.complexity, cb.cases?.[key]?.complexity, true));
+  }
+  rows.push(row('Recurrencia', 'Relación', ca.recurrence?.relation, cb.recurrence?.relation, true));
+  rows.push(row('Recurrencia', 'Forma cerrada', ca.recurrence?.closed_form, cb.recurrence?.closed_form, true));
+  rows.push(row('Validación', 'Estado', a.validation?.status?.toUpperCase(), b.validation?.status?.toUpperCase()));
+  rows.push(row(
+    'Validación',
+    'Confianza',
+    a.validation ? `${(a.validation.confidence * 100).toFixed(1)}%` : undefined,
+    b.validation ? `${(b.validation.confidence * 100).toFixed(1)}%` : undefined
+  ));
+  rows.push(row('Validación', 'Cota', a.validation?.bound_strength, b.validation?.bound_strength));
+
+  // Rows where neither report has a value are noise
+  return rows.filter(r => r.left !== undefined || r.right !== undefined);
+};
+
+export interface HintComparison {
+  shared: string[];
+  onlyLeft: string[];
+  onlyRight: string[];
+}
+
+export const compareHints = (a: AnalysisReport, b: AnalysisReport): HintComparison => {
+  const key = (text: string) => text.trim().toLowerCase();
+  const left = (a.hints ?? []).map(h => h.suggestion);
+  const right = (b.hints ?? []).map(h => h.suggestion);
+  const rightKeys = new Set(right.map(key));
+  const leftKeys = new Set(left.map(key));
+  return {
+    shared: left.filter(h => rightKeys.has(key(h))),
+    onlyLeft: left.filter(h => !rightKeys.has(key(h))),
+    onlyRight: right.filter(h => !leftKeys.has(key(h))),
+  };
+};
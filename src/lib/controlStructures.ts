@@ -0,0 +1,75 @@
+import type { AstNode, ConditionalInfo, ControlStructures, LoopInfo } from '../api';
+import { childrenOf, formatExpr, mapAstToLines, resolveOperators } from './ast';
+import type { LineRange } from './ast';
+
+// Nested loop/conditional outline built from the analyzer's control_structures
+
+export interface OutlineEntry {
+  kind: 'loop' | 'conditional';
+  info: LoopInfo | ConditionalInfo;
+  lines?: LineRange;
+  children: OutlineEntry[];
+}
+
+export const ADVANCE_TYPES: Record<string, { label: string; hint: string; color: string }> = {
+  linear: { label: 'lineal', hint: 'i ← i ± c · Θ(n) iteraciones', color: 'bg-green-900 text-green-300' },
+  multiplicative: { label: 'multiplicativo', hint: 'i ← i · c · Θ(log n) iteraciones', color: 'bg-blue-900 text-blue-300' },
+  divisive: { label: 'divisivo', hint: 'i ← i / c · Θ(log n) iteraciones', color: 'bg-blue-900 text-blue-300' },
+  constant: { label: 'constante', hint: 'Número fijo de iteraciones · Θ(1)', color: 'bg-gray-700 text-gray-300' },
+};
+
+export const advanceTypeOf = (type: string) =>
+  ADVANCE_TYPES[type.toLowerCase()] ?? { label: type, hint: 'Avance no clasificado', color: 'bg-yellow-900 text-yellow-300' };
+
+// Readable bound, with operators the backend drops recovered from the loop header
+export const formatBound = (value: unknown, headerLine?: string): string =>
+  value === undefined ? '—' : resolveOperators(formatExpr(value), headerLine);
+
+export const loopHeaderLine = (loop: LoopInfo, source: string): string | undefined => {
+  const pattern = new RegExp(`^(FOR|WHILE)\\b.*\\b${loop.variable.replace(/\W/g, '')}\\b`, 'i');
+  return source.split('\n').find(line => loop.variable && pattern.test(line.trim()));
+};
+
+// With the AST, loops and conditionals are matched in order to their nodes,
+// which gives exact nesting and source lines. Without it, `depth` is used.
+export const buildOutline = (structures: ControlStructures, ast: AstNode | undefined, source: string): OutlineEntry[] => {
+  const loops = [...structures.loops];
+  const conditionals = [...structures.conditionals];
+
+  if (ast) {
+    const ranges = mapAstToLines(ast, source);
+    const walk = (node: AstNode): OutlineEntry[] => {
+      const nested = childrenOf(node).flatMap(child => walk(child.node));
+      let info: LoopInfo | ConditionalInfo | undefined;
+      if (node.type === 'For' || node.type === 'While') {
+        const index = loops.findIndex(l => l.type === node.type && (node.type !== 'For' || l.variable === node.var));
+        if (index >= 0) info = loops.splice(index, 1)[0];
+      } else if (node.type === 'If' && conditionals.length > 0) {
+        info = conditionals.shift();
+      }
+      if (!info) return nested;
+      return [{ kind: node.type === 'If' ? 'conditional' : 'loop', info, lines: ranges.get(node), children: nested }];
+    };
+    const outline = walk(ast);
+    if (loops.length === 0 && conditionals.length === 0) return outline;
+  }
+
+  // Fallback: nest by depth, loops first in listed order
+  const roots: OutlineEntry[] = [];
+  const stack: OutlineEntry[] = [];
+  const entries: OutlineEntry[] = [
+    ...structures.loops.map(info => ({ kind: 'loop' as const, info, children: [] })),
+    ...structures.conditionals.map(info => ({ kind: 'conditional' as const, info, children: [] })),
+  ];
+  for (const entry of entries) {
+    if (entry.kind === 'conditional') {
+      const parent = [...stack].reverse().find(e => e.info.depth < entry.info.depth);
+      (parent ? parent.children : roots).push(entry);
+      continue;
+    }
+    while (stack.length > 0 && stack[stack.length - 1].info.depth >= entry.info.depth) stack.pop();
+    (stack.length > 0 ? stack[stack.length - 1].children : roots).push(entry);
+    stack.push(entry);
+  }
+  return roots;
+};
@@ -0,0 +1,299 @@
+import type { AstNode } from '../api';
+import { formatExpr, mapAstToLines } from './ast';
+import { parsePseudocode } from './parser';
+import { expandPolynomial } from './recurrence';
+
+// CLRS-style cost table: every statement gets a cost constant c_k and the
+// number of times it runs, derived from the enclosing loops. Lines inside
+// IF branches get an upper bound (≤), as if their branch were always taken;
+// WHILE, REPEAT and FOR EACH iterations are symbols t_k.
+
+export interface CostRow {
+  // 0-based line in the annotated pseudocode
+  line: number;
+  code: string;
+  // `►` pattern note from the backend
+  annotation: boolean;
+  // TeX; null for lines without cost (BEGIN, END, headers)
+  cost: string | null;
+  // Prefixed with ≤ inside an IF branch
+  times: string | null;
+  // Running total of cost · times within the function, ≤ once a branch line
+  // is included; null when not polynomial
+  total: string | null;
+}
+
+export interface FunctionTotal {
+  name: string;
+  // Row index after which the total goes
+  after: number;
+  // TeX of T(n), expanded when polynomial; an upper bound when worstCase
+  total: string;
+  // e.g. "O(n^{2})"; null when the count has symbols or sizes other than n
+  // or the function calls itself or another program function
+  bound: string | null;
+  // Some line of this function is inside an IF branch, so its count is an
+  // upper bound
+  worstCase: boolean;
+  // Calls to program functions are counted as one operation
+  recursive: boolean;
+}
+
+export interface CostTable {
+  rows: CostRow[];
+  functions: FunctionTotal[];
+  // t_k → what it counts
+  symbols: Array<[string, string]>;
+  // Some function has worstCase set
+  worstCase: boolean;
+  // Some function has recursive set
+  recursive: boolean;
+}
+
+interface Count {
+  // Parseable by expandPolynomial; null when it is not polynomial in n
+  plain: string | null;
+  tex: string;
+}
+
+type Frame =
+  | { kind: 'sum'; name: string; lo: Count; hi: Count }
+  | { kind: 'factor'; factor: Count };
+
+// Loop bounds the polynomial expander can read: arithmetic over one-letter names
+const plainOf = (expr: string): string | null =>
+  /^[\s\w+\-*/()]+$/.test(expr) && (expr.match(/[A-Za-z_]\w*/g) ?? []).every(name => /^[A-Za-z]$/.test(name)) ? expr : null;
+
+const texOf = (expr: string): string =>
+  expr
+    .replace(/[A-Za-z_]\w*/g, name =>
+      /^DIV$/i.test(name) ? '\\operatorname{div}' : /^MOD$/i.test(name) ? '\\bmod' : name.length > 1 ? `\\mathit{${name.replace(/_/g, '\\_')}}` : name
+    )
+    .replace(/\*/g, ' \\cdot ');
+
+const countOf = (expr: string): Count => ({ plain: plainOf(expr), tex: texOf(expr) });
+
+// True when the outer parentheses enclose the whole expression
+const wrapped = (tex: string) => {
+  if (!tex.startsWith('(') || !tex.endsWith(')')) return false;
+  let depth = 0;
+  for (let i = 0; i < tex.length - 1; i++) {
+    depth += tex[i] === '(' ? 1 : tex[i] === ')' ? -1 : 0;
+    if (depth === 0) return false;
+  }
+  return true;
+};
+
+const parenthesize = (tex: string) => (!wrapped(tex) && /[+-]/.test(tex.replace(/^-/, '')) ? `(${tex})` : tex);
+
+// hi − lo + extra, simplified when polynomial ("n - i - 1")
+const span = (lo: Count, hi: Count, extra: number): Count => {
+  const plain = lo.plain !== null && hi.plain !== null ? `(${hi.plain}) - (${lo.plain}) + ${extra}` : null;
+  const expanded = plain !== null ? expandPolynomial(plain) : null;
+  return { plain, tex: expanded ? expanded.flat : `${hi.tex} - ${parenthesize(lo.tex)} + ${extra}` };
+};
+
+const hasSymbol = (plain: string) => /\bt_\d/.test(plain);
+
+// Times a statement runs inside `frames`, `term` times per innermost iteration
+const timesIn = (frames: Frame[], term: Count): Count => {
+  let plain = term.plain;
+  let tex = term.tex;
+  for (let i = frames.length - 1; i >= 0; i--) {
+    const frame = frames[i];
+    if (frame.kind === 'sum' && tex === '1') {
+      // Σ 1 over the innermost loop is its number of iterations
+      const count = span(frame.lo, frame.hi, 1);
+      plain = count.plain;
+      tex = count.tex;
+    } else if (frame.kind === 'sum') {
+      // t_k varies between outer iterations, so it cannot be summed as a constant
+      plain = plain !== null && !hasSymbol(plain) && frame.lo.plain !== null && frame.hi.plain !== null ? `Σ_{${frame.name}=${frame.lo.plain}}^{${frame.hi.plain}} (${plain})` : null;
+      tex = `\\sum_{${frame.name}=${frame.lo.tex}}^{${frame.hi.tex}} ${parenthesize(tex)}`;
+    } else {
+      // Likewise a symbol nested in another symbolic loop
+      const varying = plain !== null && frame.factor.plain !== null && hasSymbol(plain) && hasSymbol(frame.factor.plain);
+      plain = plain !== null && frame.factor.plain !== null && !varying ? `(${frame.factor.plain}) * (${plain})` : null;
+      tex = tex === '1' ? frame.factor.tex : `${parenthesize(frame.factor.tex)} \\cdot ${parenthesize(tex)}`;
+    }
+  }
+  // Shown expanded unless a bound depends on an outer loop variable
+  const names = frames.flatMap(f => (f.kind === 'sum' ? [f.name] : []));
+  const mentioned = frames.flatMap(f => (f.kind === 'sum' ? [f.lo.tex, f.hi.tex] : [f.factor.tex])).concat(term.tex).join(' ');
+  const dependent = names.some(name => new RegExp(`\\b${name}\\b`).test(mentioned));
+  const expanded = plain !== null && !dependent ? expandPolynomial(plain) : null;
+  return { plain, tex: expanded ? expanded.tex : tex };
+};
+
+const ONE: Count = { plain: '1', tex: '1' };
+
+const isAnnotation = (line: string) => /^[►▶]/.test(line.trim());
+
+export const buildCostTable = (text: string): CostTable | null => {
+  const { ast } = parsePseudocode(text);
+  if (!ast) return null;
+  const lines = text.split('\n');
+  const ranges = mapAstToLines(ast, text);
+  const entries = new Map<number, { k: number; count: Count; upperBound: boolean }>();
+  const symbols: Array<[string, string]> = [];
+  const functionNames = new Set(((ast.items as AstNode[]) ?? []).filter(item => item.type === 'Function').map(item => String(item.name)));
+  const functions: Array<{ name: string; start: number; end: number; worstCase: boolean; recursive: boolean }> = [];
+  let costs = 0;
+  let current: { worstCase: boolean } | null = null;
+  // IF branches enclosing the statement being walked
+  let branches = 0;
+
+  const charge = (line: number | undefined, count: Count) => {
+    if (line === undefined || entries.has(line)) return;
+    entries.set(line, { k: ++costs, count, upperBound: branches > 0 });
+    if (current && branches > 0) current.worstCase = true;
+  };
+
+  const symbol = (what: string, line: number | undefined): Count => {
+    const name = `t_${symbols.length + 1}`;
+    symbols.push([`t_{${symbols.length + 1}}`, `${what} (línea ${(line ?? 0) + 1})`]);
+    return { plain: name, tex: `t_{${symbols.length}}` };
+  };
+
+  const callsProgram = (value: unknown): boolean => {
+    if (Array.isArray(value)) return value.some(callsProgram);
+    if (!value || typeof value !== 'object') return false;
+    const node = value as Record<string, unknown>;
+    if (node.type === 'Call' && functionNames.has(String(node.name))) return true;
+    return Object.values(node).some(callsProgram);
+  };
+
+  const walk = (node: AstNode | null | undefined, frames: Frame[]) => {
+    if (!node) return;
+    const line = ranges.get(node)?.start;
+    switch (node.type) {
+      case 'Program':
+        ((node.items as AstNode[]) ?? []).forEach(item => walk(item, frames));
+        return;
+      case 'Function': {
+        const range = ranges.get(node);
+        const fn = { name: String(node.name), start: range?.start ?? -1, end: range?.end ?? -1, worstCase: false, recursive: callsProgram(node.body) };
+        if (range) functions.push(fn);
+        current = fn;
+        walk(node.body as AstNode, []);
+        current = null;
+        return;
+      }
+      case 'Block':
+        ((node.statements as AstNode[]) ?? []).forEach(statement => walk(statement, frames));
+        return;
+      case 'For': {
+        if (node.iterable !== undefined) {
+          const t = symbol(`iteraciones del FOR EACH ${node.var}`, line);
+          charge(line, timesIn(frames, { plain: t.plain && `${t.plain} + 1`, tex: `${t.tex} + 1` }));
+          walk(node.body as AstNode, [...frames, { kind: 'factor', factor: t }]);
+          return;
+        }
+        const step = node.step === null || node.step === undefined ? 1 : Number(formatExpr(node.step));
+        let lo = countOf(formatExpr(node.start));
+        let hi = countOf(formatExpr(node.end));
+        if (step < 0) [lo, hi] = [hi, lo];
+        if (Math.abs(step) === 1) {
+          charge(line, timesIn(frames, span(lo, hi, 2)));
+          walk(node.body as AstNode, [...frames, { kind: 'sum', name: String(node.var), lo, hi }]);
+          return;
+        }
+        // Other steps: ⌊(hi − lo) / step⌋ + 1 iterations, not summed over the variable
+        const size = Number.isFinite(step) ? Math.abs(step) : null;
+        const iterations: Count = size
+          ? {
+              plain: lo.plain !== null && hi.plain !== null ? `((${hi.plain}) - (${lo.plain})) / ${size} + 1` : null,
+              tex: `\\frac{${hi.tex} - ${parenthesize(lo.tex)}}{${size}} + 1`,
+            }
+          : symbol(`iteraciones del FOR ${node.var}`, line);
+        charge(line, timesIn(frames, { plain: iterations.plain && `${iterations.plain} + 1`, tex: `${iterations.tex} + 1` }));
+        walk(node.body as AstNode, [...frames, { kind: 'factor', factor: iterations }]);
+        return;
+      }
+      case 'While': {
+        const t = symbol('evaluaciones de la condición del WHILE', line);
+        charge(line, timesIn(frames, t));
+        walk(node.body as AstNode, [...frames, { kind: 'factor', factor: { plain: `${t.plain} - 1`, tex: `${t.tex} - 1` } }]);
+        return;
+      }
+      case 'Repeat': {
+        const body = node.body as AstNode;
+        const bodyEnd = ranges.get(body)?.end ?? line ?? 0;
+        const until = lines.findIndex((l, i) => i > bodyEnd && /^UNTIL\b/i.test(l.trim()));
+        const t = symbol('iteraciones del REPEAT', until >= 0 ? until : line);
+        walk(body, [...frames, { kind: 'factor', factor: t }]);
+        charge(until >= 0 ? until : undefined, timesIn(frames, t));
+        return;
+      }
+      case 'If':
+        charge(line, timesIn(frames, ONE));
+        branches++;
+        walk(node.then_block as AstNode, frames);
+        walk(node.else_block as AstNode, frames);
+        branches--;
+        return;
+      default:
+        charge(line, timesIn(frames, ONE));
+    }
+  };
+
+  walk(ast, []);
+
+  const rows: CostRow[] = [];
+  const totals: FunctionTotal[] = [];
+  let running: string[] = [];
+  let polynomial = true;
+  let upperBound = false;
+  lines.forEach((code, line) => {
+    if (!code.trim()) return;
+    const fn = functions.find(f => f.start === line);
+    if (fn) {
+      running = [];
+      polynomial = true;
+      upperBound = false;
+    }
+    const entry = entries.get(line);
+    if (entry) {
+      if (entry.upperBound) upperBound = true;
+      if (entry.count.plain === null) polynomial = false;
+      else running.push(`c_${entry.k} * (${entry.count.plain})`);
+    }
+    const total = entry && polynomial ? expandPolynomial(running.join(' + ')) : null;
+    rows.push({
+      line,
+      code: code.trimEnd(),
+      annotation: isAnnotation(code),
+      cost: entry ? `c_{${entry.k}}` : null,
+      times: entry ? `${entry.upperBound ? '\\le ' : ''}${entry.count.tex}` : null,
+      total: total ? `${upperBound ? '\\le ' : ''}${total.tex}` : null,
+    });
+
+    const closing = functions.find(f => f.end === line);
+    if (closing) {
+      const own = [...entries].filter(([l]) => l > closing.start && l <= closing.end).map(([, e]) => e);
+      const expanded = polynomial && running.length > 0 ? expandPolynomial(running.join(' + ')) : null;
+      const hasSymbols = own.some(e => /t_\{/.test(e.count.tex));
+      // Loops bounded by m, k, … grow with those too, not only with n
+      const otherSizes = !!expanded && expanded.variables.some(name => name !== 'n' && !/^c_\d+$/.test(name));
+      totals.push({
+        name: closing.name,
+        after: rows.length - 1,
+        total: expanded ? expanded.tex : own.map(e => (e.count.tex === '1' ? `c_{${e.k}}` : `c_{${e.k}} \\cdot ${parenthesize(e.count.tex)}`)).join(' + ') || '0',
+        bound:
+          expanded && !hasSymbols && !otherSizes && !closing.recursive
+            ? `${closing.worstCase ? 'O' : '\\Theta'}(${expanded.degree === 0 ? '1' : expanded.degree === 1 ? 'n' : `n^{${expanded.degree}}`})`
+            : null,
+        worstCase: closing.worstCase,
+        recursive: closing.recursive,
+      });
+    }
+  });
+
+  return {
+    rows,
+    functions: totals,
+    symbols,
+    worstCase: totals.some(f => f.worstCase),
+    recursive: totals.some(f => f.recursive),
+  };
+};
@@ -0,0 +1,76 @@
+// The app's IndexedDB database: saved analyses (history) and the user's
+// algorithm library, one object store each.
+
+const DB_NAME = 'complexity-analyzer';
+// 1: analyses · 2: library
+const DB_VERSION = 2;
+
+export type StoreName = 'analyses' | 'library';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  const opening = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB no está disponible en este navegador'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains('analyses')) {
+        const store = db.createObjectStore('analyses', { keyPath: 'id' });
+        store.createIndex('createdAt', 'createdAt');
+      }
+      if (!db.objectStoreNames.contains('library')) db.createObjectStore('library', { keyPath: 'id' });
+    };
+    // A tab still on an older version holds the database open; fail instead
+    // of waiting for it so callers fall back, and retry on the next call
+    request.onblocked = () => reject(new Error('La base de datos está abierta en otra pestaña con una versión anterior; ciérrala y recarga'));
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer version in another tab upgrade
+      db.onversionchange = () => {
+        db.close();
+        if (dbPromise === opening) dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+  });
+  dbPromise = opening;
+  // Allow a later retry if opening failed (e.g. blocked in private mode)
+  opening.catch(() => {
+    if (dbPromise === opening) dbPromise = null;
+  });
+  return opening;
+};
+
+export const runInStore = async <T>(
+  name: StoreName,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(name, mode).objectStore(name));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Several writes that land together or not at all; resolves once committed
+export const runInTransaction = async (
+  name: StoreName,
+  action: (store: IDBObjectStore) => void
+): Promise<void> => {
+  const db = await openDb();
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(name, 'readwrite');
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transacción cancelada'));
+    action(transaction.objectStore(name));
+  });
+};
@@ -0,0 +1,10 @@
+// Saves content as a file through a temporary object URL
+export const downloadFile = (fileName: string, content: string | Blob, type?: string) => {
+  const blob = content instanceof Blob ? content : new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,71 @@
+// Editing rules for the pseudocode editor. Each helper returns the range to
+// replace and its new text, so the editor can apply it as a single undo step.
+
+export interface TextEdit {
+  from: number;
+  to: number;
+  text: string;
+}
+
+export const INDENT = '    ';
+
+const OPENS_AT_END = /\b(BEGIN|DO|THEN|ELSE)\s*$/i;
+const CLOSES = /^(END|UNTIL)\b/i;
+const ELECTRIC = /^(END|ELSE|UNTIL)\b/i;
+
+const indentOf = (line: string) => /^[ \t]*/.exec(line)![0];
+
+const nextNonBlank = (lines: string[], from: number) => lines.slice(from + 1).find(l => l.trim() !== '')?.trim() ?? '';
+
+// A `DO`/`THEN` followed by BEGIN opens nothing itself: the BEGIN does
+const opensBlock = (lines: string[], index: number) => {
+  const line = lines[index].trim();
+  if (/^(BEGIN|REPEAT)\b/i.test(line)) return true;
+  return /\b(DO|THEN)\s*$/i.test(line) && !/^BEGIN\b/i.test(nextNonBlank(lines, index));
+};
+
+// Indentation of the statement that opened the block `lines[index]` closes
+export const openerIndent = (lines: string[], index: number): string | null => {
+  let depth = 0;
+  for (let i = index - 1; i >= 0; i--) {
+    const line = lines[i].trim();
+    if (CLOSES.test(line)) depth++;
+    else if (opensBlock(lines, i)) {
+      if (depth === 0) return indentOf(lines[i]);
+      depth--;
+    }
+  }
+  return null;
+};
+
+// Enter: keep the indentation, indent after an opener, and snap a closing
+// END / ELSE / UNTIL back to its opener's column first.
+export const editForEnter = (value: string, selStart: number, selEnd: number): TextEdit => {
+  const lineStart = value.lastIndexOf('\n', selStart - 1) + 1;
+  const before = value.slice(lineStart, selStart);
+  const lines = value.slice(0, lineStart).split('\n');
+  lines[lines.length - 1] = before;
+
+  let current = before;
+  if (ELECTRIC.test(before.trim())) {
+    const opener = openerIndent(lines, lines.length - 1);
+    if (opener !== null) current = opener + before.trim();
+  }
+
+  const trimmed = current.trim();
+  let indent = indentOf(current);
+  if (OPENS_AT_END.test(trimmed) || /^REPEAT\b/i.test(trimmed)) indent += INDENT;
+
+  return { from: lineStart, to: selEnd, text: `${current}\n${indent}` };
+};
+
+// `<-` becomes `←` as soon as the dash is typed
+export const editForArrow = (value: string, caret: number): TextEdit | null =>
+  value[caret - 1] === '<' ? { from: caret - 1, to: caret, text: '←' } : null;
+
+// Shift+Tab: remove one indentation level from the caret's line
+export const editForDedent = (value: string, caret: number): TextEdit | null => {
+  const lineStart = value.lastIndexOf('\n', caret - 1) + 1;
+  const leading = /^ {1,4}|^\t/.exec(value.slice(lineStart));
+  return leading ? { from: lineStart, to: lineStart + leading[0].length, text: '' } : null;
+};
@@ -0,0 +1,124 @@
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import type { AnalysisReport } from '../api';
+import { ExportDocument } from '../components/ExportDocument';
+import { extractFunctionNames } from './history';
+import { renderMermaid } from './mermaid';
+import { collectDiagrams, splitStep } from './reportContent';
+import type { RenderedDiagram } from './reportContent';
+
+// Report export to Markdown (LaTeX math, Mermaid fences), standalone HTML
+// (MathML, inline SVG diagrams) and PDF through the browser's print dialog.
+
+export const reportTitle = (code: string): string => {
+  const names = extractFunctionNames(code);
+  return `Análisis de complejidad${names.length > 0 ? ` — ${names.join(', ')}` : ''}`;
+};
+
+export const exportFileName = (report: AnalysisReport, code: string, extension: string): string => {
+  const name = extractFunctionNames(code)[0] ?? 'reporte';
+  return `analisis-${name}-${report.analysis_id.slice(0, 8)}.${extension}`;
+};
+
+const math = (tex?: string) => (tex ? `$${tex}$` : '—');
+
+export const reportToMarkdown = (report: AnalysisReport, code: string): string => {
+  const { complexity, cases, recurrence } = report.complexity_analysis;
+  const out: string[] = [];
+  const section = (title: string, ...lines: string[]) => out.push(`## ${title}`, '', ...lines, '');
+
+  out.push(`# ${reportTitle(code)}`, '', `Analysis ID: \`${report.analysis_id}\``, '');
+  section('Código fuente', '```', code, '```');
+  section(
+    'Complejidad',
+    '| | O | Ω | Θ |',
+    '|---|---|---|---|',
+    ...(['time', 'space'] as const).map(kind =>
+      `| ${kind === 'time' ? 'Tiempo' : 'Espacio'} | ${math(complexity[kind].big_o)} | ${math(complexity[kind].omega)} | ${math(complexity[kind].theta)} |`
+    )
+  );
+
+  if (cases) {
+    section(
+      'Casos',
+      '| Caso | Complejidad | Descripción |',
+      '|---|---|---|',
+      ...([['best', 'Mejor'], ['average', 'Promedio'], ['worst', 'Peor']] as const)
+        .filter(([key]) => cases[key])
+        .map(([key, label]) => `| ${label} | ${math(cases[key]!.complexity)} | ${cases[key]!.description} |`)
+    );
+  }
+
+  if (recurrence) {
+    section(
+      'Recurrencia',
+      `$$${recurrence.relation}$$`,
+      '',
+      ...(recurrence.base_case ? [`Caso base: ${math(recurrence.base_case)}`, ''] : []),
+      ...(recurrence.closed_form ? [`Forma cerrada: ${math(recurrence.closed_form)}`, ''] : []),
+      ...(recurrence.solution_steps ?? []).map((step, i) => {
+        const { label, math: formula } = splitStep(step);
+        return `${i + 1}. ${label}${formula ? `: ${math(formula)}` : ''}`;
+      })
+    );
+  }
+
+  const invariant = typeof report.invariant_or_rule === 'string' ? report.invariant_or_rule : report.invariant_or_rule?.invariant;
+  if (invariant) section('Invariante', `> ${invariant}`);
+  if (report.explanation) section('Explicación', report.explanation);
+  if (report.hints && report.hints.length > 0) {
+    section('Sugerencias', ...report.hints.map(hint => `- **${hint.suggestion}**${hint.details ? ` — ${hint.details}` : ''}`));
+  }
+  if (report.pseudocode_normalized) section('Pseudocódigo normalizado', '```', report.pseudocode_normalized, '```');
+
+  const diagrams = collectDiagrams(report);
+  if (diagrams.length > 0) {
+    section('Diagramas', ...diagrams.flatMap(d => [`### ${d.title}`, '', '```mermaid', d.source.trim(), '```', '']));
+  }
+
+  return out.join('\n');
+};
+
+export const reportToHtml = async (report: AnalysisReport, code: string): Promise<string> => {
+  const diagrams: RenderedDiagram[] = [];
+  // Sequential: Mermaid does not support concurrent renders
+  for (const diagram of collectDiagrams(report)) {
+    let svg: string | null = null;
+    try {
+      svg = await renderMermaid(diagram.source);
+    } catch (err) {
+      console.warn(`Diagram "${diagram.title}" could not be rendered for export:`, err);
+    }
+    diagrams.push({ ...diagram, svg });
+  }
+
+  const markup = renderToStaticMarkup(
+    React.createElement(ExportDocument, {
+      report,
+      code,
+      title: reportTitle(code),
+      diagrams,
+      generatedAt: new Date(),
+    })
+  );
+  return `<!DOCTYPE html>\n${markup}`;
+};
+
+// Prints the document from a hidden iframe; "Save as PDF" yields the PDF
+export const printHtml = (html: string): Promise<void> =>
+  new Promise(resolve => {
+    const frame = document.createElement('iframe');
+    frame.style.position = 'fixed';
+    frame.style.width = '0';
+    frame.style.height = '0';
+    frame.style.border = '0';
+    frame.srcdoc = html;
+    frame.onload = () => {
+      frame.contentWindow?.focus();
+      frame.contentWindow?.print();
+      // print() blocks until the dialog closes in most browsers
+      setTimeout(() => frame.remove(), 1000);
+      resolve();
+    };
+    document.body.appendChild(frame);
+  });
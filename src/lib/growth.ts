@@ -0,0 +1,255 @@
+// Growth functions of n parsed from reported bounds like `O(n^2)` or
+// `\Theta(n \log n)`. Values are handled as natural logarithms so 2^n and n!
+// stay finite for large n.
+
+export interface Growth {
+  tex: string;
+  // ln f(n); -Infinity where f(n) = 0
+  logAt: (n: number) => number;
+}
+
+type Node = (logN: number, n: number) => number;
+
+const PHI = (1 + Math.sqrt(5)) / 2;
+
+// ln(e^a + e^b) without overflow
+const logAdd = (a: number, b: number): number => {
+  if (a === -Infinity) return b;
+  if (b === -Infinity) return a;
+  const max = Math.max(a, b);
+  return max + Math.log(Math.exp(a - max) + Math.exp(b - max));
+};
+
+const logSubtract = (a: number, b: number): number => (b >= a ? -Infinity : a + Math.log(1 - Math.exp(b - a)));
+
+// ln Γ(x + 1) by Stirling's series; exact enough for plotting x!
+const logFactorial = (x: number): number => {
+  if (x < 2) return 0;
+  if (x < 20) {
+    let sum = 0;
+    for (let i = 2; i <= Math.round(x); i++) sum += Math.log(i);
+    return sum;
+  }
+  return x * Math.log(x) - x + 0.5 * Math.log(2 * Math.PI * x) + 1 / (12 * x);
+};
+
+const SUPERSCRIPTS = '⁰¹²³⁴⁵⁶⁷⁸⁹';
+const SUBSCRIPTS = '₀₁₂₃₄₅₆₇₈₉';
+
+// LaTeX noise and plain-text spellings rewritten to one notation
+const cleanBound = (tex: string): string =>
+  tex
+    .replace(/[⁰¹²³⁴⁵⁶⁷⁸⁹]+/g, digits => `^(${[...digits].map(d => SUPERSCRIPTS.indexOf(d)).join('')})`)
+    .replace(/[₀₁₂₃₄₅₆₇₈₉]+/g, digits => `_(${[...digits].map(d => SUBSCRIPTS.indexOf(d)).join('')})`)
+    .replace(/\bBig-?O\b/gi, 'O')
+    .replace(/(?<!\\)\b(Theta|Omega)\b/g, '\\$1')
+    .replace(/\\left|\\right|\\[,;!]|\\quad|\$/g, '')
+    .replace(/\\(?:mathcal|mathrm|operatorname)\{(\w+)\}/g, '$1')
+    .replace(/\\(?:cdot|times)|[·×]/g, '*')
+    .replace(/\\(?:log|lg|ln)(?![a-z])/gi, 'log')
+    .replace(/\b(?:lg|ln)\b/g, 'log')
+    .replace(/\\sqrt/g, 'sqrt')
+    .replace(/\\(?:var)?phi|φ/g, 'phi')
+    .replace(/\\frac\{([^{}]*)\}\{([^{}]*)\}/g, '($1)/($2)')
+    .replace(/\{/g, '(')
+    .replace(/\}/g, ')')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const WRAPPER = /^(O|o|\\Omega|\\omega|\\Theta|Ω|Θ|ω)\s*\((.*)\)$/;
+const WRAPPER_SYMBOLS: Record<string, string> = { '\\Omega': 'Ω', '\\omega': 'ω', '\\Theta': 'Θ' };
+
+// Strips the asymptotic wrapper and LaTeX noise: "\Theta\left( n^{2} \right)" → "n^(2)".
+// Plain-text notation is accepted too: "Theta(n²)", "Big-O(n log₂ n)", "n·lg n"
+export const normalizeBound = (tex: string): string => {
+  const text = cleanBound(tex);
+  return WRAPPER.exec(text)?.[2].trim() ?? text;
+};
+
+// The asymptotic notation around a bound as O, o, Ω, ω or Θ; null when bare
+export const boundWrapper = (tex: string): string | null => {
+  const symbol = WRAPPER.exec(cleanBound(tex))?.[1];
+  if (!symbol) return null;
+  return WRAPPER_SYMBOLS[symbol] ?? symbol;
+};
+
+// Recursive descent over + - * / ^ !, implicit products ("n log n", "2n"),
+// log with optional base/power (log_2 n, log^2 n) and sqrt
+const parseExpression = (text: string): Node | null => {
+  // Known words first, so "nlogn" reads as n · log n
+  const tokens = text.match(/\d+(?:\.\d+)?|log|sqrt|phi|[a-z]|[-+*/^()!_]/gi) ?? [];
+  if (tokens.join('') !== text.replace(/\s+/g, '')) return null;
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const next = () => tokens[pos++];
+
+  const startsPrimary = (token?: string) => token !== undefined && /^(\d|n$|log|sqrt|phi|e$|\()/i.test(token);
+
+  const parseSum = (): Node => {
+    let left = parseProduct();
+    while (peek() === '+' || peek() === '-') {
+      const op = next();
+      const l = left;
+      const r = parseProduct();
+      left = op === '+' ? (ln, n) => logAdd(l(ln, n), r(ln, n)) : (ln, n) => logSubtract(l(ln, n), r(ln, n));
+    }
+    return left;
+  };
+
+  const parseProduct = (): Node => {
+    let left = parsePower();
+    for (;;) {
+      const token = peek();
+      if (token === '*' || token === '/') {
+        next();
+        const l = left;
+        const r = parsePower();
+        left = token === '*' ? (ln, n) => l(ln, n) + r(ln, n) : (ln, n) => l(ln, n) - r(ln, n);
+      } else if (startsPrimary(token)) {
+        const l = left;
+        const r = parsePower();
+        left = (ln, n) => l(ln, n) + r(ln, n);
+      } else {
+        return left;
+      }
+    }
+  };
+
+  const parsePower = (): Node => {
+    let base = parsePostfix();
+    while (peek() === '^') {
+      next();
+      const b = base;
+      const exponent = parsePostfix();
+      // ln(b^e) = e · ln b, with e itself in linear scale
+      base = (ln, n) => Math.exp(exponent(ln, n)) * b(ln, n);
+    }
+    return base;
+  };
+
+  const parsePostfix = (): Node => {
+    let node = parsePrimary();
+    while (peek() === '!') {
+      next();
+      const inner = node;
+      node = (ln, n) => logFactorial(Math.exp(inner(ln, n)));
+    }
+    return node;
+  };
+
+  const parsePrimary = (): Node => {
+    const token = next();
+    if (token === undefined) throw new Error('fin inesperado');
+    if (/^\d/.test(token)) {
+      const value = Math.log(Number(token));
+      return () => value;
+    }
+    if (token === '(') {
+      const inner = parseSum();
+      if (next() !== ')') throw new Error("falta ')'");
+      return inner;
+    }
+    const word = token.toLowerCase();
+    if (word === 'n') return ln => ln;
+    if (word === 'phi') return () => Math.log(PHI);
+    // Euler's number only as a base (e^n); a bare e or E is more likely a
+    // size such as the number of edges
+    if (token === 'e' && peek() === '^') return () => 1;
+    if (word === 'sqrt') {
+      const inner = parsePostfix();
+      return (ln, n) => inner(ln, n) / 2;
+    }
+    if (word === 'log') {
+      // The base only changes a constant factor
+      if (peek() === '_') {
+        next();
+        parsePrimary();
+      }
+      let power: Node = () => 0;
+      if (peek() === '^') {
+        next();
+        power = parsePrimary();
+      }
+      const argument = parsePostfix();
+      return (ln, n) => {
+        const value = argument(ln, n) / Math.LN2;
+        return value <= 0 ? -Infinity : Math.exp(power(ln, n)) * Math.log(value);
+      };
+    }
+    throw new Error(`símbolo desconocido '${token}'`);
+  };
+
+  try {
+    const node = parseSum();
+    return pos === tokens.length ? node : null;
+  } catch {
+    return null;
+  }
+};
+
+export const parseGrowth = (tex: string): Growth | null => {
+  const node = parseExpression(normalizeBound(tex));
+  if (!node) return null;
+  return { tex, logAt: (n: number) => node(Math.log(n), n) };
+};
+
+// Order of growth: 0 for the same class up to a constant factor, else the
+// sign of a − b. Decided by whether the log ratio drifts between n = 10^6 and
+// n = 10^12, where lower-order terms no longer matter
+export const compareGrowth = (a: Growth, b: Growth): number => {
+  const near = a.logAt(1e6) - b.logAt(1e6);
+  const far = a.logAt(1e12) - b.logAt(1e12);
+  if (!Number.isFinite(near) || !Number.isFinite(far)) return Math.sign(a.logAt(1e12) - b.logAt(1e12)) || 0;
+  const drift = far - near;
+  return Math.abs(drift) < 0.1 ? 0 : Math.sign(drift);
+};
+
+// Reference classes, slowest to fastest growth
+export const GROWTH_CLASSES: Growth[] = ['1', '\\log n', 'n', 'n \\log n', 'n^2', 'n^2 \\log n', 'n^3', '2^n'].map(
+  tex => parseGrowth(tex)!
+);
+
+export interface Sample {
+  n: number;
+  value: number;
+}
+
+// Least squares of ln(value) = k · ln(n) + c; k is the empirical exponent
+export const fitPowerLaw = (samples: Sample[]): { exponent: number; r2: number } | null => {
+  const points = samples.filter(s => s.n > 0 && s.value > 0).map(s => [Math.log(s.n), Math.log(s.value)]);
+  if (points.length < 2) return null;
+  const meanX = points.reduce((sum, [x]) => sum + x, 0) / points.length;
+  const meanY = points.reduce((sum, [, y]) => sum + y, 0) / points.length;
+  const sxx = points.reduce((sum, [x]) => sum + (x - meanX) ** 2, 0);
+  const sxy = points.reduce((sum, [x, y]) => sum + (x - meanX) * (y - meanY), 0);
+  const syy = points.reduce((sum, [, y]) => sum + (y - meanY) ** 2, 0);
+  if (sxx === 0) return null;
+  const exponent = sxy / sxx;
+  return { exponent, r2: syy === 0 ? 1 : (sxy * sxy) / (sxx * syy) };
+};
+
+// Constant c minimizing the log error of c · f(n) against the samples, and
+// the spread of that error (0 when the shape matches exactly)
+export const fitConstant = (growth: Growth, samples: Sample[]): { logScale: number; spread: number } | null => {
+  const residuals = samples
+    .filter(s => s.value > 0)
+    .map(s => Math.log(s.value) - growth.logAt(s.n))
+    .filter(Number.isFinite);
+  if (residuals.length === 0) return null;
+  const mean = residuals.reduce((a, b) => a + b, 0) / residuals.length;
+  const spread = Math.sqrt(residuals.reduce((sum, r) => sum + (r - mean) ** 2, 0) / residuals.length);
+  return { logScale: mean, spread };
+};
+
+// Reference class whose shape best matches the larger half of the samples,
+// where lower-order terms matter least
+export const bestGrowthClass = (samples: Sample[]): Growth | null => {
+  const tail = samples.filter(s => s.value > 0).slice(-Math.max(3, Math.ceil(samples.length / 2)));
+  if (tail.length < 3) return null;
+  let best: { growth: Growth; spread: number } | null = null;
+  for (const growth of GROWTH_CLASSES) {
+    const fit = fitConstant(growth, tail);
+    if (fit && (!best || fit.spread < best.spread)) best = { growth, spread: fit.spread };
+  }
+  return best?.growth ?? null;
+};
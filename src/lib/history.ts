@@ -0,0 +1,64 @@
+import type { AnalysisReport } from '../api';
+import { runInStore } from './db';
+import type { AgentRun } from './pipelineRuns';
+
+// Past analyses, persisted in IndexedDB so they survive reloads and can be
+// reopened without calling the backend.
+
+export interface LogEntry {
+  timestamp: Date;
+  agent?: string;
+  state?: string;
+  message: string;
+  type: 'info' | 'success' | 'error' | 'warning' | 'agent';
+  details?: string;
+}
+
+export interface HistoryEntry {
+  // The backend's analysis_id
+  id: string;
+  createdAt: number;
+  code: string;
+  functionNames: string[];
+  report: AnalysisReport;
+  logs: LogEntry[];
+  agentRuns: AgentRun[];
+}
+
+const run = <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+  runInStore('analyses', mode, action);
+
+export const extractFunctionNames = (code: string): string[] =>
+  [...code.matchAll(/^\s*(?:FUNCTION|PROCEDURE)\s+([\w]+)/gim)].map(m => m[1]);
+
+export const saveAnalysis = (entry: Omit<HistoryEntry, 'functionNames'>): Promise<HistoryEntry> => {
+  const stored: HistoryEntry = { ...entry, functionNames: extractFunctionNames(entry.code) };
+  return run('readwrite', store => store.put(stored)).then(() => stored);
+};
+
+// Newest first
+export const listAnalyses = async (): Promise<HistoryEntry[]> => {
+  const entries = await run<HistoryEntry[]>('readonly', store => store.getAll());
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deleteAnalysis = (id: string): Promise<void> => run('readwrite', store => store.delete(id)).then(() => undefined);
+
+export const clearHistory = (): Promise<void> => run('readwrite', store => store.clear()).then(() => undefined);
+
+// Case-insensitive match on function names and reported bounds; every word must match
+export const matchesQuery = (entry: HistoryEntry, query: string): boolean => {
+  const { time, space } = entry.report.complexity_analysis.complexity;
+  const haystack = [
+    ...entry.functionNames,
+    entry.id,
+    time.big_o, time.omega, time.theta,
+    space.big_o, space.omega, space.theta,
+  ].filter(Boolean).join(' ').toLowerCase();
+  const compact = haystack.replace(/\s+/g, '');
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .every(word => haystack.includes(word) || compact.includes(word));
+};
@@ -0,0 +1,434 @@
+import type { AstNode } from '../api';
+
+// Tree-walking interpreter for the AST produced by parsePseudocode. It counts
+// basic operations so measured work can be compared with the reported bound.
+//
+// Conventions of the course dialect: arrays are 1-based unless declared with
+// LET A[0..n], `/` between integers is integer division, FOR bounds are
+// inclusive and evaluated once, and AND/OR short-circuit.
+
+export interface ArrayValue {
+  kind: 'array';
+  // Subscripts joined by ',' → value; unset cells read as null
+  cells: Map<string, Value>;
+  length?: number;
+  // Backing list for enqueue/dequeue
+  queue: Value[];
+}
+
+export interface GraphValue {
+  kind: 'graph';
+  // 1-based adjacency lists
+  adjacency: number[][];
+}
+
+export type Value = number | boolean | string | null | Value[] | ArrayValue | GraphValue;
+
+export interface OperationCounts {
+  comparisons: number;
+  assignments: number;
+  arrayAccesses: number;
+}
+
+export interface Frame {
+  fn: string;
+  scope: Map<string, Value>;
+}
+
+// Hooks for tracing a run step by step; the benchmark runs without them
+export interface ExecutionObserver {
+  // Before a statement runs, and before every loop condition check
+  statement?: (node: AstNode, frame: Frame, stack: readonly Frame[]) => void;
+  arrayRead?: (array: ArrayValue, key: string) => void;
+  arrayWrite?: (array: ArrayValue, key: string) => void;
+  compare?: () => void;
+}
+
+export interface ExecutionLimits {
+  // Aborts once comparisons + assignments + array accesses exceed this
+  maxOperations?: number;
+  maxDepth?: number;
+  observer?: ExecutionObserver;
+}
+
+export interface ExecutionResult {
+  value: Value;
+  counts: OperationCounts;
+}
+
+export class RuntimeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RuntimeError';
+  }
+}
+
+// The run hit maxOperations or maxDepth; counts so far are still meaningful
+export class ExecutionLimitError extends RuntimeError {
+  readonly counts: OperationCounts;
+
+  constructor(message: string, counts: OperationCounts) {
+    super(message);
+    this.name = 'ExecutionLimitError';
+    this.counts = counts;
+  }
+}
+
+interface ReturnSignal {
+  value: Value;
+}
+
+type Scope = Map<string, Value>;
+
+export const createArray = (values: Value[] = [], base = 1): ArrayValue => ({
+  kind: 'array',
+  cells: new Map(values.map((value, i) => [String(i + base), value])),
+  length: values.length,
+  queue: [],
+});
+
+export const isArrayValue = (value: Value): value is ArrayValue =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && value.kind === 'array';
+
+const isGraphValue = (value: Value): value is GraphValue =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && value.kind === 'graph';
+
+const truthy = (value: Value): boolean => value !== null && value !== false && value !== 0 && value !== '';
+
+const toNumber = (value: Value, context: string): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  throw new RuntimeError(`Se esperaba un número en ${context}, llegó ${describeValue(value)}`);
+};
+
+export const describeValue = (value: Value): string => {
+  if (value === null) return 'NIL';
+  if (Array.isArray(value)) return `[${value.map(describeValue).join(', ')}]`;
+  if (isArrayValue(value)) return `arreglo(${value.length ?? value.cells.size})`;
+  if (isGraphValue(value)) return `grafo(${value.adjacency.length - 1})`;
+  return String(value);
+};
+
+const asQueue = (value: Value, name: string): ArrayValue => {
+  if (!isArrayValue(value)) throw new RuntimeError(`${name} espera una cola, llegó ${describeValue(value)}`);
+  return value;
+};
+
+const numeric = (fn: (...xs: number[]) => number, name: string) => (args: Value[]) =>
+  fn(...args.map((arg, i) => toNumber(arg, `el argumento ${i + 1} de ${name}`)));
+
+// Library functions, matched case-insensitively; they count no operations
+const BUILTINS: Record<string, (args: Value[]) => Value> = {
+  min: numeric(Math.min, 'min'),
+  max: numeric(Math.max, 'max'),
+  floor: numeric(Math.floor, 'floor'),
+  ceil: numeric(Math.ceil, 'ceil'),
+  abs: numeric(Math.abs, 'abs'),
+  sqrt: numeric(Math.sqrt, 'sqrt'),
+  pow: numeric(Math.pow, 'pow'),
+  log: numeric(Math.log2, 'log'),
+  lg: numeric(Math.log2, 'lg'),
+  ln: numeric(Math.log, 'ln'),
+  length: ([array]) => (isArrayValue(array) ? array.length ?? array.cells.size : Array.isArray(array) ? array.length : 0),
+  enqueue: ([queue, item]) => {
+    asQueue(queue, 'enqueue').queue.push(item);
+    return null;
+  },
+  push: ([stack, item]) => {
+    asQueue(stack, 'push').queue.push(item);
+    return null;
+  },
+  dequeue: ([queue]) => asQueue(queue, 'dequeue').queue.shift() ?? null,
+  pop: ([stack]) => asQueue(stack, 'pop').queue.pop() ?? null,
+  isempty: ([queue]) => (isArrayValue(queue) ? queue.queue.length === 0 : Array.isArray(queue) ? queue.length === 0 : true),
+  adjacents: ([graph, vertex]) => {
+    if (!isGraphValue(graph)) throw new RuntimeError(`adjacents espera un grafo, llegó ${describeValue(graph)}`);
+    return graph.adjacency[toNumber(vertex, 'adjacents')] ?? [];
+  },
+  print: () => null,
+};
+BUILTINS.size = BUILTINS.length;
+BUILTINS.neighbors = BUILTINS.adjacents;
+
+const functionsOf = (program: AstNode): Map<string, AstNode> =>
+  new Map(
+    (Array.isArray(program.items) ? (program.items as AstNode[]) : [])
+      .filter(item => item.type === 'Function')
+      .map(fn => [String(fn.name), fn])
+  );
+
+export const executeProgram = (
+  program: AstNode,
+  entry: string,
+  args: Value[],
+  limits: ExecutionLimits = {}
+): ExecutionResult => {
+  const { maxOperations = Infinity, maxDepth = 5000, observer } = limits;
+  const functions = functionsOf(program);
+  const counts: OperationCounts = { comparisons: 0, assignments: 0, arrayAccesses: 0 };
+  const stack: Frame[] = [];
+  let operations = 0;
+
+  const step = (node: AstNode) => observer?.statement?.(node, stack[stack.length - 1], stack);
+
+  const count = (kind: keyof OperationCounts) => {
+    counts[kind]++;
+    if (++operations > maxOperations) {
+      throw new ExecutionLimitError(`Límite de ${maxOperations.toLocaleString()} operaciones alcanzado`, counts);
+    }
+  };
+
+  const lookup = (scope: Scope, name: string): Value => {
+    if (!scope.has(name)) throw new RuntimeError(`La variable '${name}' no tiene valor`);
+    return scope.get(name)!;
+  };
+
+  const cellKey = (node: AstNode, scope: Scope): string =>
+    (Array.isArray(node.subs) ? node.subs : []).map(sub => toNumber(evaluate(sub, scope), `el índice de ${node.name}`)).join(',');
+
+  const readCell = (node: AstNode, scope: Scope): Value => {
+    const name = String(node.name);
+    const array = lookup(scope, name);
+    const key = cellKey(node, scope);
+    count('arrayAccesses');
+    if (isArrayValue(array)) {
+      observer?.arrayRead?.(array, key);
+      return array.cells.get(key) ?? null;
+    }
+    if (Array.isArray(array)) return array[Number(key) - 1] ?? null;
+    throw new RuntimeError(`'${name}' no es un arreglo`);
+  };
+
+  const writeCell = (node: AstNode, scope: Scope, value: Value) => {
+    const name = String(node.name);
+    // Arrays spring into existence on first write, like L and R in merge
+    if (!scope.has(name)) scope.set(name, createArray());
+    const array = scope.get(name)!;
+    if (!isArrayValue(array)) throw new RuntimeError(`'${name}' no es un arreglo`);
+    const key = cellKey(node, scope);
+    count('arrayAccesses');
+    array.cells.set(key, value);
+    observer?.arrayWrite?.(array, key);
+  };
+
+  const arith = (op: string, a: Value, b: Value): Value => {
+    if (op === '+' && (typeof a === 'string' || typeof b === 'string')) return `${describeValue(a)}${describeValue(b)}`;
+    const x = toNumber(a, `'${op}'`);
+    const y = toNumber(b, `'${op}'`);
+    switch (op) {
+      case '+':
+        return x + y;
+      case '-':
+        return x - y;
+      case '*':
+        return x * y;
+      case '/':
+        if (y === 0) throw new RuntimeError('División por cero');
+        return Number.isInteger(x) && Number.isInteger(y) ? Math.floor(x / y) : x / y;
+      case 'DIV':
+        if (y === 0) throw new RuntimeError('División por cero');
+        return Math.floor(x / y);
+      case '%':
+      case 'MOD':
+        if (y === 0) throw new RuntimeError('División por cero');
+        return ((x % y) + y) % y;
+      case '^':
+        return x ** y;
+    }
+    throw new RuntimeError(`Operador desconocido '${op}'`);
+  };
+
+  const compare = (op: string, a: Value, b: Value): boolean => {
+    count('comparisons');
+    observer?.compare?.();
+    switch (op) {
+      case '=':
+      case '==':
+        return a === b;
+      case '!=':
+      case '<>':
+      case '≠':
+        return a !== b;
+    }
+    const x = toNumber(a, `'${op}'`);
+    const y = toNumber(b, `'${op}'`);
+    switch (op) {
+      case '<':
+        return x < y;
+      case '>':
+        return x > y;
+      case '<=':
+      case '≤':
+        return x <= y;
+      case '>=':
+      case '≥':
+        return x >= y;
+    }
+    throw new RuntimeError(`Comparación desconocida '${op}'`);
+  };
+
+  const evaluate = (expr: unknown, scope: Scope): Value => {
+    if (expr === null || expr === undefined) return null;
+    if (typeof expr === 'number' || typeof expr === 'boolean' || typeof expr === 'string') return expr;
+    const node = expr as Record<string, unknown>;
+    switch (node.type) {
+      case 'Expr':
+        return evaluate(node.value, scope);
+      case 'ArrayAccess':
+        return readCell(node as AstNode, scope);
+      case 'Call':
+        return call(node as AstNode, scope);
+    }
+    if ('var' in node) return lookup(scope, String(node.var));
+    if ('str' in node) return String(node.str);
+    if ('neg' in node) return -toNumber(evaluate(node.neg, scope), 'el signo menos');
+    if ('not' in node) return !truthy(evaluate(node.not, scope));
+    if (Array.isArray(node.arith)) {
+      const ops = Array.isArray(node.ops) ? (node.ops as string[]) : [];
+      return node.arith.slice(1).reduce<Value>(
+        (acc, operand, i) => arith(ops[i] ?? '?', acc, evaluate(operand, scope)),
+        evaluate(node.arith[0], scope)
+      );
+    }
+    if (Array.isArray(node.cmp)) {
+      const [a, op, b] = node.cmp;
+      return compare(String(op), evaluate(a, scope), evaluate(b, scope));
+    }
+    if (Array.isArray(node.logic)) {
+      const items = node.logic;
+      let result = truthy(evaluate(items[0], scope));
+      for (let i = 1; i < items.length; i += 2) {
+        const isAnd = String(items[i]).toUpperCase() === 'AND';
+        if (isAnd ? !result : result) continue;
+        result = truthy(evaluate(items[i + 1], scope));
+      }
+      return result;
+    }
+    throw new RuntimeError('Expresión no soportada');
+  };
+
+  const call = (node: AstNode, scope: Scope): Value => {
+    const name = String(node.name);
+    const args = (Array.isArray(node.args) ? node.args : []).map(arg => evaluate(arg, scope));
+    const fn = functions.get(name);
+    if (fn) return invoke(fn, args);
+    const builtin = BUILTINS[name.toLowerCase()];
+    if (builtin) return builtin(args);
+    throw new RuntimeError(`La función '${name}' no está definida`);
+  };
+
+  const invoke = (fn: AstNode, args: Value[]): Value => {
+    if (stack.length >= maxDepth) {
+      throw new ExecutionLimitError(`Profundidad de recursión mayor que ${maxDepth}`, counts);
+    }
+    const params = Array.isArray(fn.params) ? (fn.params as string[]) : [];
+    const scope: Scope = new Map(params.map((param, i) => [param, args[i] ?? null]));
+    stack.push({ fn: String(fn.name), scope });
+    const signal = execute(fn.body as AstNode, scope);
+    stack.pop();
+    return signal?.value ?? null;
+  };
+
+  const assign = (target: unknown, value: Value, scope: Scope) => {
+    if (typeof target === 'string') scope.set(target, value);
+    else writeCell(target as AstNode, scope, value);
+    count('assignments');
+  };
+
+  const execute = (node: AstNode | null | undefined, scope: Scope): ReturnSignal | undefined => {
+    if (!node) return undefined;
+    if (node.type !== 'Block' && node.type !== 'For' && node.type !== 'While' && node.type !== 'Repeat') step(node);
+    switch (node.type) {
+      case 'Block':
+        for (const statement of (node.statements as AstNode[]) ?? []) {
+          const signal = execute(statement, scope);
+          if (signal) return signal;
+        }
+        return undefined;
+      case 'Assign':
+        assign(node.target, evaluate(node.value, scope), scope);
+        return undefined;
+      case 'Let': {
+        const dims = Array.isArray(node.dims) ? (node.dims as AstNode[]) : [];
+        const first = dims[0];
+        const length = first
+          ? toNumber(evaluate(first.end, scope), 'LET') - toNumber(evaluate(first.start, scope), 'LET') + 1
+          : 0;
+        scope.set(String(node.name), { ...createArray(), length });
+        return undefined;
+      }
+      case 'Call':
+        call(node, scope);
+        return undefined;
+      case 'Return':
+        return { value: evaluate(node.value, scope) };
+      case 'If':
+        return truthy(evaluate(node.cond, scope))
+          ? execute(node.then_block as AstNode, scope)
+          : execute(node.else_block as AstNode, scope);
+      case 'While':
+        for (;;) {
+          step(node);
+          if (!truthy(evaluate(node.cond, scope))) return undefined;
+          const signal = execute(node.body as AstNode, scope);
+          if (signal) return signal;
+        }
+      case 'Repeat':
+        for (;;) {
+          const signal = execute(node.body as AstNode, scope);
+          if (signal) return signal;
+          step(node);
+          if (truthy(evaluate(node.cond, scope))) return undefined;
+        }
+      case 'For':
+        return node.iterable !== undefined ? executeForEach(node, scope) : executeFor(node, scope);
+    }
+    throw new RuntimeError(`Sentencia no soportada: ${node.type}`);
+  };
+
+  const executeFor = (node: AstNode, scope: Scope): ReturnSignal | undefined => {
+    const name = String(node.var);
+    const start = toNumber(evaluate(node.start, scope), 'el inicio del FOR');
+    const end = toNumber(evaluate(node.end, scope), 'el final del FOR');
+    const increment = node.step == null ? 1 : toNumber(evaluate(node.step, scope), 'el paso del FOR');
+    if (increment === 0) throw new RuntimeError('El paso del FOR no puede ser 0');
+
+    // The header runs once per iteration plus the failing check: assignment
+    // (init, then increment) and bound comparison each time
+    for (let i = start; ; i += increment) {
+      step(node);
+      assign(name, i, scope);
+      count('comparisons');
+      if (increment > 0 ? i > end : i < end) return undefined;
+      const signal = execute(node.body as AstNode, scope);
+      if (signal) return signal;
+    }
+  };
+
+  const executeForEach = (node: AstNode, scope: Scope): ReturnSignal | undefined => {
+    const iterable = evaluate(node.iterable, scope);
+    const items = Array.isArray(iterable)
+      ? iterable
+      : isArrayValue(iterable)
+        ? [...iterable.cells.values()]
+        : null;
+    if (!items) throw new RuntimeError(`FOR EACH no puede recorrer ${describeValue(iterable)}`);
+    for (const item of items) {
+      step(node);
+      assign(String(node.var), item, scope);
+      const signal = execute(node.body as AstNode, scope);
+      if (signal) return signal;
+    }
+    return undefined;
+  };
+
+  const fn = functions.get(entry);
+  if (!fn) throw new RuntimeError(`La función '${entry}' no está definida`);
+  try {
+    return { value: invoke(fn, args), counts };
+  } catch (err) {
+    // Deep recursion can exhaust the JS stack before maxDepth
+    if (err instanceof RangeError) throw new ExecutionLimitError('Pila de ejecución agotada', counts);
+    throw err;
+  }
+};
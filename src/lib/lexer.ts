@@ -0,0 +1,124 @@
+// Lexer for the pseudocode dialect used by the presets (FUNCTION/BEGIN/END,
+// FOR … TO … DO, WHILE, FOR EACH … IN, LET A[1..n], ←).
+// Whitespace and comments are kept so the tokens reproduce the source exactly.
+
+export type TokenKind =
+  | 'keyword'
+  | 'literal'
+  | 'identifier'
+  | 'number'
+  | 'string'
+  | 'operator'
+  | 'punct'
+  | 'comment'
+  | 'space'
+  | 'newline'
+  | 'invalid';
+
+export interface Token {
+  kind: TokenKind;
+  text: string;
+  // Offset in the source, and 0-based line / column
+  offset: number;
+  line: number;
+  col: number;
+}
+
+export const KEYWORDS = new Set([
+  'FUNCTION', 'PROCEDURE', 'BEGIN', 'END',
+  'FOR', 'EACH', 'IN', 'TO', 'DOWNTO', 'STEP', 'DO',
+  'WHILE', 'REPEAT', 'UNTIL',
+  'IF', 'THEN', 'ELSE',
+  'RETURN', 'LET', 'CALL',
+  'AND', 'OR', 'NOT', 'MOD', 'DIV',
+]);
+
+export const LITERALS = new Set(['TRUE', 'FALSE', 'NULL', 'NIL']);
+
+// Longest first, so `<-` wins over `<` and `..` over `.`
+const OPERATORS = ['<-', ':=', '<=', '>=', '==', '!=', '<>', '..', '←', '≤', '≥', '≠', '<', '>', '=', '+', '-', '*', '/', '^', '%'];
+const PUNCT = '()[]{},;:.⌊⌋⌈⌉';
+export const OPEN_BRACKETS: Record<string, string> = { '(': ')', '[': ']', '{': '}', '⌊': '⌋', '⌈': '⌉' };
+export const CLOSE_BRACKETS: Record<string, string> = { ')': '(', ']': '[', '}': '{', '⌋': '⌊', '⌉': '⌈' };
+
+export const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let offset = 0;
+  let line = 0;
+  let col = 0;
+
+  const push = (kind: TokenKind, text: string) => {
+    tokens.push({ kind, text, offset, line, col });
+    offset += text.length;
+    if (kind === 'newline') {
+      line++;
+      col = 0;
+    } else {
+      col += text.length;
+    }
+  };
+
+  while (offset < source.length) {
+    const rest = source.slice(offset);
+    const char = rest[0];
+
+    if (char === '\n') {
+      push('newline', char);
+      continue;
+    }
+    const space = /^[ \t\r]+/.exec(rest);
+    if (space) {
+      push('space', space[0]);
+      continue;
+    }
+    // `// …` and the backend's `► …` annotations run to end of line
+    if (rest.startsWith('//') || char === '►' || char === '▶') {
+      push('comment', /^[^\n]*/.exec(rest)![0]);
+      continue;
+    }
+    const word = /^[A-Za-z_áéíóúñÁÉÍÓÚÑ][\wáéíóúñÁÉÍÓÚÑ]*/.exec(rest);
+    if (word) {
+      const upper = word[0].toUpperCase();
+      push(KEYWORDS.has(upper) ? 'keyword' : LITERALS.has(upper) ? 'literal' : 'identifier', word[0]);
+      continue;
+    }
+    const number = /^\d+(\.\d+(?!\.))?/.exec(rest);
+    if (number) {
+      push('number', number[0]);
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      const end = rest.indexOf(char, 1);
+      const lineEnd = rest.indexOf('\n');
+      const closed = end > 0 && (lineEnd < 0 || end < lineEnd);
+      push(closed ? 'string' : 'invalid', closed ? rest.slice(0, end + 1) : rest.slice(0, lineEnd < 0 ? undefined : lineEnd));
+      continue;
+    }
+    const operator = OPERATORS.find(op => rest.startsWith(op));
+    if (operator) {
+      push('operator', operator);
+      continue;
+    }
+    push(PUNCT.includes(char) ? 'punct' : 'invalid', char);
+  }
+
+  return tokens;
+};
+
+// Offset of the bracket matching the one at `offset`, or null if unbalanced
+export const findMatchingBracket = (tokens: Token[], offset: number): number | null => {
+  const index = tokens.findIndex(t => t.offset === offset && t.kind === 'punct');
+  if (index < 0) return null;
+  const text = tokens[index].text;
+  const forward = text in OPEN_BRACKETS;
+  if (!forward && !(text in CLOSE_BRACKETS)) return null;
+  const partner = forward ? OPEN_BRACKETS[text] : CLOSE_BRACKETS[text];
+
+  let depth = 0;
+  for (let i = index; forward ? i < tokens.length : i >= 0; i += forward ? 1 : -1) {
+    if (tokens[i].kind !== 'punct') continue;
+    if (tokens[i].text === text) depth++;
+    else if (tokens[i].text === partner && --depth === 0) return tokens[i].offset;
+  }
+  return null;
+};
@@ -0,0 +1,147 @@
+import { runInStore, runInTransaction } from './db';
+import { PREDEFINED_ALGORITHMS } from './presets';
+
+// User algorithm library, persisted in IndexedDB next to the history. The
+// built-in presets are listed alongside as a read-only collection, and the
+// user's entries can be exported to JSON and imported elsewhere (e.g. an
+// exercise set handed out by a teacher).
+
+export type AlgorithmCategory = 'sorting' | 'searching' | 'graphs' | 'dp' | 'recursion' | 'other';
+
+export const CATEGORIES: Array<{ id: AlgorithmCategory; label: string }> = [
+  { id: 'sorting', label: 'Ordenamiento' },
+  { id: 'searching', label: 'Búsqueda' },
+  { id: 'graphs', label: 'Grafos' },
+  { id: 'dp', label: 'Programación dinámica' },
+  { id: 'recursion', label: 'Recursión' },
+  { id: 'other', label: 'Otros' },
+];
+
+export interface LibraryEntry {
+  id: string;
+  name: string;
+  code: string;
+  category: AlgorithmCategory;
+  tags: string[];
+  createdAt: number;
+  updatedAt: number;
+  // Presets shipped with the app; cannot be edited or deleted
+  builtIn?: boolean;
+}
+
+// An entry as edited by the user; `id` and `createdAt` only when it exists
+export type LibraryDraft = Pick<LibraryEntry, 'name' | 'code' | 'category' | 'tags'> & Partial<Pick<LibraryEntry, 'id' | 'createdAt'>>;
+
+const FILE_FORMAT = 'complexity-analyzer-library';
+const FILE_VERSION = 1;
+
+export const BUILT_IN_ENTRIES: LibraryEntry[] = PREDEFINED_ALGORITHMS.map(preset => ({
+  id: `builtin:${preset.name}`,
+  name: preset.name,
+  code: preset.code,
+  category: preset.category,
+  tags: preset.tags ?? [],
+  createdAt: 0,
+  updatedAt: 0,
+  builtIn: true,
+}));
+
+const isCategory = (value: unknown): value is AlgorithmCategory => CATEGORIES.some(c => c.id === value);
+
+// "DP, Recursión ,dp" → ["dp", "recursión"]
+export const parseTags = (text: string): string[] => [
+  ...new Set(
+    text
+      .split(',')
+      .map(tag => tag.trim().toLowerCase())
+      .filter(Boolean)
+  ),
+];
+
+// Sorted by name
+export const listLibrary = async (): Promise<LibraryEntry[]> => {
+  const entries = await runInStore<LibraryEntry[]>('library', 'readonly', store => store.getAll());
+  return entries.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+const toEntry = (draft: LibraryDraft, now: number): LibraryEntry => ({
+  ...draft,
+  id: draft.id ?? crypto.randomUUID(),
+  createdAt: draft.createdAt ?? now,
+  updatedAt: now,
+});
+
+// Creates the entry when `id` is absent, otherwise replaces it
+export const saveLibraryEntry = (entry: LibraryDraft): Promise<LibraryEntry> => {
+  const stored = toEntry(entry, Date.now());
+  return runInStore('library', 'readwrite', store => store.put(stored)).then(() => stored);
+};
+
+export const deleteLibraryEntry = (id: string): Promise<void> =>
+  runInStore('library', 'readwrite', store => store.delete(id)).then(() => undefined);
+
+export const exportLibrary = (entries: LibraryEntry[]): string =>
+  JSON.stringify(
+    {
+      format: FILE_FORMAT,
+      version: FILE_VERSION,
+      entries: entries.map(({ name, code, category, tags }) => ({ name, code, category, tags })),
+    },
+    null,
+    2
+  );
+
+// Entries of an exported file, without ids; throws with a readable message
+// when the file is not a library export
+export const parseLibraryFile = (text: string): LibraryDraft[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('El archivo no es JSON válido');
+  }
+  const file = data as { format?: unknown; entries?: unknown };
+  if (!file || file.format !== FILE_FORMAT || !Array.isArray(file.entries)) {
+    throw new Error('El archivo no es una biblioteca de algoritmos exportada');
+  }
+  return file.entries.map((raw: unknown, i: number) => {
+    const entry = (raw ?? {}) as Record<string, unknown>;
+    if (typeof entry.name !== 'string' || !entry.name.trim() || typeof entry.code !== 'string') {
+      throw new Error(`Entrada ${i + 1}: faltan el nombre o el código`);
+    }
+    return {
+      name: entry.name.trim(),
+      code: entry.code,
+      category: isCategory(entry.category) ? entry.category : 'other',
+      tags: Array.isArray(entry.tags) ? parseTags(entry.tags.filter(t => typeof t === 'string').join(',')) : [],
+    };
+  });
+};
+
+// Saves the imported entries in one transaction, so a failure leaves the
+// library as it was. Exact copies (same name and code) of existing entries or
+// of earlier ones in the file are skipped; resolves to the number added
+export const importLibrary = async (text: string, existing: LibraryEntry[]): Promise<number> => {
+  const seen = new Set(existing.map(e => JSON.stringify([e.name, e.code])));
+  const incoming = parseLibraryFile(text).filter(entry => {
+    const key = JSON.stringify([entry.name, entry.code]);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  if (incoming.length === 0) return 0;
+  const now = Date.now();
+  await runInTransaction('library', store => incoming.forEach(entry => store.put(toEntry(entry, now))));
+  return incoming.length;
+};
+
+// Case-insensitive match on name, category label and tags; every word must match
+export const matchesLibraryQuery = (entry: LibraryEntry, query: string): boolean => {
+  const category = CATEGORIES.find(c => c.id === entry.category)?.label ?? '';
+  const haystack = [entry.name, category, ...entry.tags].join(' ').toLowerCase();
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .every(word => haystack.includes(word));
+};
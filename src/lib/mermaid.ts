@@ -0,0 +1,72 @@
+import mermaid from 'mermaid';
+
+mermaid.initialize({
+  startOnLoad: false,
+  theme: 'default',
+  securityLevel: 'loose',
+  flowchart: {
+    useMaxWidth: true,
+    htmlLabels: true,
+  },
+});
+
+// Fixes backend generation issues: reserved class names and a missing type prefix
+export const sanitizeMermaid = (chart: string): string => {
+  const sanitized = chart
+    .replace(/classDef call /g, 'classDef callNode ')
+    .replace(/:::call/g, ':::callNode')
+    .replace(/classDef default /g, 'classDef defaultStyle ')
+    .replace(/:::default/g, ':::defaultStyle');
+
+  const hasValidPrefix = /^(graph|flowchart|sequenceDiagram|classDiagram|stateDiagram|erDiagram|journey|gantt|pie|quadrantChart|requirementDiagram|gitGraph|mindmap|timeline)/i.test(sanitized.trim());
+  return hasValidPrefix ? sanitized : 'graph TD\n' + sanitized;
+};
+
+// Renders a chart to an SVG string
+export const renderMermaid = async (chart: string): Promise<string> => {
+  const id = `mermaid-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+  const { svg } = await mermaid.render(id, sanitizeMermaid(chart));
+  return svg;
+};
+
+// Rasterizes a rendered SVG on a white background; scale > 1 keeps text sharp
+export const svgToPng = (svg: string, scale = 2): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const root = new DOMParser().parseFromString(svg, 'image/svg+xml').documentElement;
+    const viewBox = (root.getAttribute('viewBox') ?? '').split(/[\s,]+/).map(Number);
+    const width = viewBox[2] || Number.parseFloat(root.getAttribute('width') ?? '') || 800;
+    const height = viewBox[3] || Number.parseFloat(root.getAttribute('height') ?? '') || 600;
+    // Mermaid emits width="100%" plus a max-width style; the image needs a fixed size
+    root.setAttribute('width', String(width));
+    root.setAttribute('height', String(height));
+    root.removeAttribute('style');
+
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.ceil(width * scale);
+      canvas.height = Math.ceil(height * scale);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Canvas 2D no disponible'));
+        return;
+      }
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      try {
+        canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('No se pudo generar el PNG'))), 'image/png');
+      } catch (err) {
+        // Some browsers taint the canvas when labels use foreignObject
+        reject(err);
+      }
+    };
+    image.onerror = () => reject(new Error('No se pudo rasterizar el diagrama'));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(new XMLSerializer().serializeToString(root))}`;
+  });
+
+// Chart id of a rendered flowchart node; the DOM id looks like "flowchart-N9-7"
+export const mermaidNodeId = (element: Element): string => {
+  const raw = element.getAttribute('data-id') ?? element.id;
+  return /flowchart-(.+)-\d+$/.exec(raw)?.[1] ?? raw;
+};
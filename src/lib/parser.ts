@@ -0,0 +1,485 @@
+import type { AstNode } from '../api';
+import { tokenize } from './lexer';
+import type { Token } from './lexer';
+
+// Recursive-descent parser for the pseudocode dialect. It produces the same
+// node shapes as the backend `ast` (Program → Function → Block → For/If/…,
+// expressions as { type: 'Expr', value }), plus the `ops` the backend drops.
+
+export interface Diagnostic {
+  // 0-based line and column
+  line: number;
+  col: number;
+  length: number;
+  message: string;
+}
+
+export interface ParseResult {
+  ast: AstNode | null;
+  diagnostics: Diagnostic[];
+}
+
+class ParseError extends Error {
+  readonly token: Token;
+
+  constructor(message: string, token: Token) {
+    super(message);
+    this.name = 'ParseError';
+    this.token = token;
+  }
+}
+
+const ASSIGN_OPS = new Set(['←', '<-', ':=']);
+const COMPARISON_OPS = new Set(['<', '>', '<=', '>=', '==', '=', '!=', '<>', '≤', '≥', '≠']);
+const ADDITIVE_OPS = new Set(['+', '-']);
+const MULTIPLICATIVE_OPS = new Set(['*', '/', '%', 'MOD', 'DIV']);
+
+// Array accesses and calls are used as-is; everything else is wrapped
+const wrap = (value: unknown): unknown => {
+  const node = value as AstNode | null;
+  return node && typeof node === 'object' && (node.type === 'ArrayAccess' || node.type === 'Call')
+    ? node
+    : { type: 'Expr', value };
+};
+
+const block = (statements: AstNode[]): AstNode => ({ type: 'Block', statements });
+
+export const parsePseudocode = (source: string): ParseResult => {
+  const tokens = tokenize(source).filter(t => t.kind !== 'space' && t.kind !== 'comment');
+  const lines = source.split('\n');
+  const eof: Token = { kind: 'newline', text: '', offset: source.length, line: lines.length - 1, col: lines[lines.length - 1].length };
+  const diagnostics: Diagnostic[] = [];
+  let pos = 0;
+
+  const peek = () => tokens[pos] ?? eof;
+  const next = () => tokens[pos++] ?? eof;
+  const atLineEnd = () => peek().kind === 'newline';
+  const isKeyword = (token: Token, ...words: string[]) =>
+    token.kind === 'keyword' && words.includes(token.text.toUpperCase());
+  const describe = (token: Token) =>
+    token === eof ? 'fin del archivo' : token.kind === 'newline' ? 'fin de línea' : `'${token.text}'`;
+
+  const report = (err: unknown) => {
+    if (!(err instanceof ParseError)) throw err;
+    const { line, col, text } = err.token;
+    // One diagnostic per line keeps cascades out of the way
+    if (diagnostics.some(d => d.line === line)) return;
+    diagnostics.push({ line, col, length: Math.max(1, text.length), message: err.message });
+  };
+
+  const expect = (text: string, what = `'${text}'`): Token => {
+    const token = peek();
+    if (token.text.toUpperCase() !== text.toUpperCase() || token.kind === 'string') {
+      throw new ParseError(`Se esperaba ${what}, llegó ${describe(token)}`, token);
+    }
+    return next();
+  };
+
+  const expectIdentifier = (what = 'un identificador'): string => {
+    const token = peek();
+    if (token.kind !== 'identifier') throw new ParseError(`Se esperaba ${what}, llegó ${describe(token)}`, token);
+    return next().text;
+  };
+
+  const skipNewlines = () => {
+    while (peek() !== eof && peek().kind === 'newline') next();
+  };
+
+  const skipLine = () => {
+    while (!atLineEnd()) next();
+  };
+
+  const endStatement = () => {
+    if (peek().text === ';') next();
+    if (!atLineEnd()) throw new ParseError(`Se esperaba fin de línea, llegó ${describe(peek())}`, peek());
+    if (peek() !== eof) next();
+  };
+
+  // A header line may end in BEGIN (IF c THEN BEGIN), left for the body to open
+  const endHeader = () => {
+    if (!isKeyword(peek(), 'BEGIN')) endStatement();
+  };
+
+  // A broken header still lets its body parse, so one typo does not unbalance
+  // every END that follows.
+  const header = (parse: () => void) => {
+    try {
+      parse();
+      endHeader();
+    } catch (err) {
+      report(err);
+      skipLine();
+      if (peek() !== eof) next();
+    }
+  };
+
+  // --- Expressions ---------------------------------------------------------
+
+  const parseExpression = (): unknown => parseOr();
+
+  const parseLogic = (word: string, operand: () => unknown) => (): unknown => {
+    const items = [operand()];
+    while (isKeyword(peek(), word)) {
+      items.push(next().text.toUpperCase(), operand());
+    }
+    return items.length === 1 ? items[0] : { logic: items.map((item, i) => (i % 2 ? item : wrap(item))) };
+  };
+
+  const parseNot = (): unknown => {
+    if (isKeyword(peek(), 'NOT')) {
+      next();
+      return { not: wrap(parseNot()) };
+    }
+    return parseComparison();
+  };
+
+  const parseAnd = parseLogic('AND', parseNot);
+  const parseOr = parseLogic('OR', parseAnd);
+
+  const parseComparison = (): unknown => {
+    const left = parseAdditive();
+    if (peek().kind !== 'operator' || !COMPARISON_OPS.has(peek().text)) return left;
+    const op = next().text;
+    return { cmp: [wrap(left), op, wrap(parseAdditive())] };
+  };
+
+  const parseArith = (ops: Set<string>, operand: () => unknown) => (): unknown => {
+    const items = [operand()];
+    const used: string[] = [];
+    while ((peek().kind === 'operator' || peek().kind === 'keyword') && ops.has(peek().text.toUpperCase())) {
+      used.push(next().text.toUpperCase());
+      items.push(operand());
+    }
+    return items.length === 1 ? items[0] : { arith: items.map(wrap), ops: used };
+  };
+
+  const parseUnary = (): unknown => {
+    if (peek().text === '-' && peek().kind === 'operator') {
+      next();
+      const operand = parseUnary();
+      return typeof operand === 'number' ? -operand : { neg: wrap(operand) };
+    }
+    return parsePower();
+  };
+
+  const parseMultiplicative = parseArith(MULTIPLICATIVE_OPS, parseUnary);
+  const parseAdditive = parseArith(ADDITIVE_OPS, parseMultiplicative);
+
+  const parsePower = (): unknown => {
+    const base = parsePrimary();
+    if (peek().text !== '^') return base;
+    next();
+    return { arith: [wrap(base), wrap(parseUnary())], ops: ['^'] };
+  };
+
+  const parseArguments = (close: string): unknown[] => {
+    const open = next();
+    const items: unknown[] = [];
+    if (peek().text !== close) {
+      do {
+        items.push(wrap(parseExpression()));
+      } while (peek().text === ',' && next());
+    }
+    if (peek().text !== close) {
+      throw new ParseError(`Se esperaba '${close}' para cerrar el '${open.text}' de la columna ${open.col + 1}, llegó ${describe(peek())}`, peek());
+    }
+    next();
+    return items;
+  };
+
+  const parsePrimary = (): unknown => {
+    const token = peek();
+    switch (token.kind) {
+      case 'number':
+        next();
+        return Number(token.text);
+      case 'string':
+        next();
+        return { str: token.text.slice(1, -1) };
+      case 'literal':
+        next();
+        return token.text.toUpperCase() === 'TRUE' ? true : token.text.toUpperCase() === 'FALSE' ? false : null;
+      case 'identifier': {
+        next();
+        if (peek().text === '(') return { type: 'Call', name: token.text, args: parseArguments(')') };
+        if (peek().text === '[') return { type: 'ArrayAccess', name: token.text, subs: parseArguments(']') };
+        return { var: token.text };
+      }
+      case 'punct':
+        // ⌊x⌋ and ⌈x⌉ read as the floor / ceil builtins
+        if (token.text === '⌊' || token.text === '⌈') {
+          return { type: 'Call', name: token.text === '⌊' ? 'floor' : 'ceil', args: parseArguments(token.text === '⌊' ? '⌋' : '⌉') };
+        }
+        if (token.text === '(') {
+          next();
+          const inner = parseExpression();
+          if (peek().text !== ')') {
+            throw new ParseError(`Se esperaba ')' para cerrar el '(' de la columna ${token.col + 1}, llegó ${describe(peek())}`, peek());
+          }
+          next();
+          return inner;
+        }
+    }
+    throw new ParseError(`Se esperaba una expresión, llegó ${describe(token)}`, token);
+  };
+
+  // --- Statements ----------------------------------------------------------
+
+  // Statements up to one of `terminators` (left unconsumed)
+  const parseStatements = (opener: Token, terminators: string[]): AstNode[] => {
+    const statements: AstNode[] = [];
+    for (;;) {
+      skipNewlines();
+      const token = peek();
+      if (token === eof) {
+        throw new ParseError(
+          `Falta ${terminators[0]} para el ${opener.text.toUpperCase()} de la línea ${opener.line + 1}`,
+          opener
+        );
+      }
+      if (isKeyword(token, ...terminators)) return statements;
+      try {
+        if (isKeyword(token, 'END', 'ELSE', 'UNTIL')) {
+          throw new ParseError(`${token.text.toUpperCase()} inesperado dentro del ${opener.text.toUpperCase()} de la línea ${opener.line + 1}`, token);
+        }
+        statements.push(parseStatement());
+      } catch (err) {
+        report(err);
+        skipLine();
+      }
+    }
+  };
+
+  const parseClosing = (word: string) => {
+    expect(word);
+    endStatement();
+  };
+
+  // An END indented left of its opener's line most likely closes an outer
+  // block: report the opener as unclosed and leave the END for its real owner.
+  const closeBlock = (opener: Token) => {
+    const token = peek();
+    if (isKeyword(token, 'END') && token.line > opener.line && token.col < lines[opener.line].search(/\S/)) {
+      report(new ParseError(`Falta END para el ${opener.text.toUpperCase()} de la línea ${opener.line + 1}`, opener));
+      return;
+    }
+    parseClosing('END');
+  };
+
+  const parseBeginBlock = (): AstNode => {
+    const begin = expect('BEGIN');
+    endStatement();
+    const statements = parseStatements(begin, ['END']);
+    closeBlock(begin);
+    return block(statements);
+  };
+
+  // Body of FOR / WHILE: either BEGIN … END or statements closed by END
+  const parseBody = (opener: Token): AstNode => {
+    skipNewlines();
+    if (isKeyword(peek(), 'BEGIN')) return parseBeginBlock();
+    const statements = parseStatements(opener, ['END']);
+    closeBlock(opener);
+    return block(statements);
+  };
+
+  const parseFor = (keyword: Token): AstNode => {
+    const node: AstNode = { type: 'For', var: '' };
+    header(() => {
+      if (isKeyword(peek(), 'EACH')) {
+        next();
+        node.var = expectIdentifier('la variable del FOR EACH');
+        expect('IN');
+        node.iterable = wrap(parseExpression());
+      } else {
+        node.var = expectIdentifier('la variable del FOR');
+        if (!ASSIGN_OPS.has(peek().text)) throw new ParseError(`Se esperaba ← tras la variable del FOR, llegó ${describe(peek())}`, peek());
+        next();
+        node.start = wrap(parseExpression());
+        const direction = peek();
+        if (!isKeyword(direction, 'TO', 'DOWNTO')) throw new ParseError(`Se esperaba TO, llegó ${describe(direction)}`, direction);
+        next();
+        node.end = wrap(parseExpression());
+        node.step = null;
+        if (isKeyword(peek(), 'STEP')) {
+          next();
+          node.step = wrap(parseExpression());
+        } else if (isKeyword(direction, 'DOWNTO')) {
+          node.step = wrap(-1);
+        }
+      }
+      expect('DO', 'DO al final del FOR');
+    });
+    node.body = parseBody(keyword);
+    return node;
+  };
+
+  const parseWhile = (keyword: Token): AstNode => {
+    const node: AstNode = { type: 'While', cond: null };
+    header(() => {
+      node.cond = wrap(parseExpression());
+      expect('DO', 'DO al final del WHILE');
+    });
+    node.body = parseBody(keyword);
+    return node;
+  };
+
+  const parseRepeat = (keyword: Token): AstNode => {
+    endStatement();
+    const body = block(parseStatements(keyword, ['UNTIL']));
+    expect('UNTIL');
+    const cond = wrap(parseExpression());
+    endStatement();
+    return { type: 'Repeat', body, cond };
+  };
+
+  // IF c THEN BEGIN … END [ELSE BEGIN … END]  or  IF c THEN … [ELSE …] END
+  const parseIf = (keyword: Token): AstNode => {
+    const node: AstNode = { type: 'If', cond: null, then_block: null, else_block: null };
+    header(() => {
+      node.cond = wrap(parseExpression());
+      expect('THEN', 'THEN al final del IF');
+    });
+    skipNewlines();
+
+    if (isKeyword(peek(), 'BEGIN')) {
+      node.then_block = parseBeginBlock();
+      skipNewlines();
+      if (isKeyword(peek(), 'ELSE')) {
+        const elseToken = next();
+        endHeader();
+        node.else_block = parseBody(elseToken);
+      }
+      return node;
+    }
+
+    node.then_block = block(parseStatements(keyword, ['END', 'ELSE']));
+    if (isKeyword(peek(), 'ELSE')) {
+      const elseToken = next();
+      endStatement();
+      node.else_block = block(parseStatements(elseToken, ['END']));
+    }
+    closeBlock(keyword);
+    return node;
+  };
+
+  const parseLet = (): AstNode => {
+    const name = expectIdentifier('el nombre de la variable');
+    if (ASSIGN_OPS.has(peek().text)) {
+      next();
+      const value = wrap(parseExpression());
+      endStatement();
+      return { type: 'Assign', target: name, value };
+    }
+    const open = expect('[');
+    const dims: unknown[] = [];
+    do {
+      const start = parseExpression();
+      if (peek().text === '..') {
+        next();
+        dims.push({ type: 'Range', start: wrap(start), end: wrap(parseExpression()) });
+      } else {
+        dims.push({ type: 'Range', start: wrap(1), end: wrap(start) });
+      }
+    } while (peek().text === ',' && next());
+    if (peek().text !== ']') {
+      throw new ParseError(`Se esperaba ']' para cerrar el '[' de la columna ${open.col + 1}, llegó ${describe(peek())}`, peek());
+    }
+    next();
+    endStatement();
+    return { type: 'Let', name, dims };
+  };
+
+  const parseStatement = (): AstNode => {
+    const token = next();
+    if (token.kind === 'keyword') {
+      switch (token.text.toUpperCase()) {
+        case 'FOR':
+          return parseFor(token);
+        case 'WHILE':
+          return parseWhile(token);
+        case 'REPEAT':
+          return parseRepeat(token);
+        case 'IF':
+          return parseIf(token);
+        case 'LET':
+          return parseLet();
+        case 'RETURN': {
+          const value = atLineEnd() ? null : wrap(parseExpression());
+          endStatement();
+          return { type: 'Return', value };
+        }
+        case 'CALL': {
+          const call = parsePrimary() as AstNode;
+          if (call?.type !== 'Call') throw new ParseError('Se esperaba una llamada tras CALL', token);
+          endStatement();
+          return call;
+        }
+        case 'FUNCTION':
+        case 'PROCEDURE':
+          throw new ParseError(`${token.text.toUpperCase()} no puede declararse dentro de otro bloque`, token);
+      }
+      throw new ParseError(`Sentencia inesperada: ${describe(token)}`, token);
+    }
+
+    if (token.kind !== 'identifier') throw new ParseError(`Se esperaba una sentencia, llegó ${describe(token)}`, token);
+
+    // Call statement: f(x)
+    if (peek().text === '(') {
+      pos--;
+      const call = parsePrimary() as AstNode;
+      endStatement();
+      return call;
+    }
+
+    const target = peek().text === '[' ? { type: 'ArrayAccess', name: token.text, subs: parseArguments(']') } : token.text;
+    if (!ASSIGN_OPS.has(peek().text)) {
+      const hint = peek().text === '=' ? ' (la asignación usa ←)' : '';
+      throw new ParseError(`Se esperaba ←, llegó ${describe(peek())}${hint}`, peek());
+    }
+    next();
+    const value = wrap(parseExpression());
+    endStatement();
+    return { type: 'Assign', target, value };
+  };
+
+  const parseFunction = (keyword: Token): AstNode => {
+    const node: AstNode = { type: 'Function', name: '', params: [] };
+    header(() => {
+      node.name = expectIdentifier('el nombre de la función');
+      expect('(');
+      const params: string[] = [];
+      if (peek().text !== ')') {
+        do {
+          params.push(expectIdentifier('un parámetro'));
+        } while (peek().text === ',' && next());
+      }
+      expect(')');
+      node.params = params;
+    });
+    skipNewlines();
+    if (!isKeyword(peek(), 'BEGIN')) {
+      throw new ParseError(`Se esperaba BEGIN tras la cabecera de ${keyword.text.toUpperCase()}, llegó ${describe(peek())}`, peek());
+    }
+    node.body = parseBeginBlock();
+    return node;
+  };
+
+  const items: AstNode[] = [];
+  for (;;) {
+    skipNewlines();
+    const token = peek();
+    if (token === eof) break;
+    try {
+      if (isKeyword(token, 'FUNCTION', 'PROCEDURE')) items.push(parseFunction(next()));
+      else if (isKeyword(token, 'END', 'ELSE', 'UNTIL')) throw new ParseError(`${token.text.toUpperCase()} sin bloque que cerrar`, token);
+      else items.push(parseStatement());
+    } catch (err) {
+      report(err);
+      skipLine();
+    }
+  }
+
+  diagnostics.sort((a, b) => a.line - b.line || a.col - b.col);
+  return { ast: diagnostics.length === 0 ? { type: 'Program', items } : null, diagnostics };
+};
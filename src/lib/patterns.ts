@@ -0,0 +1,134 @@
+// Reference entries for the algorithmic patterns reported by the backend,
+// keyed by the identifiers of both the rule-based detector and the ML model
+
+export interface PatternReference {
+  id: string;
+  // Other identifiers the backend uses for the same family
+  aliases: string[];
+  name: string;
+  // TeX of the usual time bound
+  complexity: string;
+  summary: string;
+  // What to look for in the code
+  signs: string[];
+  examples: string[];
+}
+
+export const PATTERN_REFERENCE: PatternReference[] = [
+  {
+    id: 'iterativo_simple',
+    aliases: ['bucle_simple', 'lineal', 'iterativo_lineal'],
+    name: 'Iterativo simple',
+    complexity: '\\Theta(n)',
+    summary: 'Un único ciclo recorre la entrada haciendo trabajo constante por elemento.',
+    signs: ['Un FOR de 1 a n o un WHILE cuyo índice avanza de a uno', 'Cuerpo sin ciclos ni llamadas costosas'],
+    examples: ['Búsqueda lineal', 'Suma o máximo de un arreglo'],
+  },
+  {
+    id: 'iterativo_anidado',
+    aliases: ['bucles_anidados', 'ciclos_anidados', 'anidado'],
+    name: 'Iterativo anidado',
+    complexity: '\\Theta(n^k)',
+    summary:
+      'Ciclos dentro de ciclos: con k niveles que dependen de n el trabajo crece como n^k. Si el ciclo interno depende del externo (j de i a n), la suma Σ (n − i) sigue siendo del mismo orden.',
+    signs: ['FOR/WHILE anidados cuyos límites dependen de n', 'Comparaciones entre pares de elementos'],
+    examples: ['Bubble Sort, Insertion Sort, Selection Sort (k = 2)', 'Multiplicación de matrices clásica (k = 3)'],
+  },
+  {
+    id: 'logaritmico',
+    aliases: ['busqueda_binaria', 'iterativo_logaritmico', 'division_del_espacio'],
+    name: 'Logarítmico',
+    complexity: '\\Theta(\\log n)',
+    summary: 'Cada iteración descarta una fracción constante del espacio de búsqueda, así que hay log n iteraciones.',
+    signs: ['Índice que se multiplica o divide por una constante', 'Intervalo [izq, der] que se parte a la mitad'],
+    examples: ['Búsqueda binaria', 'Exponenciación rápida'],
+  },
+  {
+    id: 'divide_y_venceras',
+    aliases: ['divide_y_conquista', 'divide_and_conquer', 'recursivo_divide'],
+    name: 'Divide y vencerás',
+    complexity: '\\Theta(n \\log n)',
+    summary:
+      'El problema se parte en a subproblemas de tamaño n/b que se resuelven recursivamente y se combinan; el teorema maestro sobre T(n) = a T(n/b) + f(n) da la cota (n log n cuando a = b y la combinación es lineal).',
+    signs: ['Dos o más llamadas recursivas sobre mitades', 'Un paso de combinación (merge, partición)'],
+    examples: ['Merge Sort', 'Quick Sort (caso promedio)', 'Multiplicación de Karatsuba'],
+  },
+  {
+    id: 'recursivo_lineal',
+    aliases: ['recursion_lineal', 'recursivo_simple', 'recursivo'],
+    name: 'Recursivo lineal',
+    complexity: '\\Theta(n)',
+    summary: 'Una sola llamada recursiva que reduce n en una constante: T(n) = T(n − 1) + O(1).',
+    signs: ['Una llamada recursiva con n − 1', 'Caso base para n pequeño'],
+    examples: ['Factorial', 'Suma recursiva de un arreglo'],
+  },
+  {
+    id: 'recursivo_multiple',
+    aliases: ['recursion_multiple', 'recursivo_exponencial', 'exponencial', 'arbol_recursivo'],
+    name: 'Recursivo múltiple',
+    complexity: '\\Theta(2^n)',
+    summary:
+      'Varias llamadas recursivas que reducen n en una constante: el árbol de recursión crece exponencialmente (φ^n para Fibonacci ingenuo).',
+    signs: ['Dos o más llamadas con n − 1, n − 2…', 'Subproblemas repetidos sin memorizar'],
+    examples: ['Fibonacci ingenuo', 'Torres de Hanói'],
+  },
+  {
+    id: 'programacion_dinamica',
+    aliases: ['dinamica', 'memoizacion', 'dynamic_programming'],
+    name: 'Programación dinámica',
+    complexity: '\\Theta(n \\cdot m)',
+    summary: 'Cada subproblema se resuelve una vez y se guarda en una tabla; el costo es el tamaño de la tabla por el costo de cada celda.',
+    signs: ['Tabla o arreglo que se llena a partir de celdas anteriores', 'Recurrencia sobre índices en lugar de llamadas'],
+    examples: ['Mochila 0/1', 'Subsecuencia común más larga', 'Fibonacci con tabla'],
+  },
+  {
+    id: 'backtracking',
+    aliases: ['vuelta_atras', 'busqueda_exhaustiva', 'fuerza_bruta'],
+    name: 'Backtracking',
+    complexity: 'O(b^d)',
+    summary: 'Explora el árbol de decisiones, deshaciendo elecciones que no llevan a solución; con ramificación b y profundidad d el peor caso es b^d.',
+    signs: ['Recursión dentro de un ciclo sobre las opciones', 'Marcar, recurrir y desmarcar'],
+    examples: ['N reinas', 'Permutaciones', 'Sudoku'],
+  },
+  {
+    id: 'voraz',
+    aliases: ['greedy', 'algoritmo_voraz'],
+    name: 'Voraz',
+    complexity: '\\Theta(n \\log n)',
+    summary: 'Toma en cada paso la mejor opción local, normalmente tras ordenar la entrada, que domina el costo.',
+    signs: ['Ordenamiento previo seguido de un recorrido', 'Sin volver atrás sobre decisiones'],
+    examples: ['Selección de actividades', 'Kruskal', 'Cambio de monedas (sistemas canónicos)'],
+  },
+  {
+    id: 'recorrido_grafo',
+    aliases: ['grafos', 'bfs', 'dfs', 'recorrido_de_grafos'],
+    name: 'Recorrido de grafos',
+    complexity: '\\Theta(V + E)',
+    summary: 'Cada vértice se visita una vez y cada arista se examina una (dirigido) o dos veces (no dirigido).',
+    signs: ['Cola o pila de vértices pendientes', 'Arreglo de visitados', 'FOR EACH sobre adyacentes'],
+    examples: ['BFS', 'DFS', 'Orden topológico'],
+  },
+];
+
+const normalizeId = (id: string) =>
+  id
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .trim()
+    .toLowerCase()
+    .replace(/[\s-]+/g, '_');
+
+export const findPattern = (id: string): PatternReference | undefined => {
+  const key = normalizeId(id);
+  return PATTERN_REFERENCE.find(p => p.id === key || p.aliases.includes(key));
+};
+
+// "iterativo_anidado" → "Iterativo anidado" for identifiers without an entry
+export const patternLabel = (id: string) => {
+  const known = findPattern(id);
+  if (known) return known.name;
+  const words = id.replace(/_/g, ' ').trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+export const patternHref = (id: string) => `#/patterns/${findPattern(id)?.id ?? id}`;
@@ -0,0 +1,51 @@
+import type { AgentEvent } from '../api';
+
+// Execution span of one agent, reconstructed from its SSE events
+export interface AgentRun {
+  agent: string;
+  state: string;
+  startedAt?: number;
+  finishedAt?: number;
+  // Duration reported by the backend, more precise than the client clock
+  duration_ms?: number;
+  summary?: string;
+}
+
+const ENDED_STATES = new Set(['finished', 'error', 'skipped']);
+
+export const isRunEnded = (run: AgentRun) => ENDED_STATES.has(run.state);
+
+// Folds one agent event into the run list, keeping first-seen order
+export const applyAgentEvent = (runs: AgentRun[], event: AgentEvent, now = Date.now()): AgentRun[] => {
+  const state = event.state ?? 'running';
+  const previous = runs.find(r => r.agent === event.agent);
+  const run: AgentRun = { ...(previous ?? { agent: event.agent, state }), state };
+
+  if (event.summary) run.summary = event.summary;
+  if (event.duration_ms !== undefined) run.duration_ms = event.duration_ms;
+
+  if (ENDED_STATES.has(state)) {
+    run.finishedAt = now;
+    // Without a 'started' event (e.g. after polling), derive it from the duration
+    run.startedAt ??= now - (run.duration_ms ?? 0);
+  } else {
+    run.startedAt ??= now;
+  }
+
+  return previous ? runs.map(r => (r === previous ? run : r)) : [...runs, run];
+};
+
+export const runDuration = (run: AgentRun, now = Date.now()): number => {
+  if (run.duration_ms !== undefined && isRunEnded(run)) return run.duration_ms;
+  if (run.startedAt === undefined) return 0;
+  return (run.finishedAt ?? now) - run.startedAt;
+};
+
+// Overall [start, end] window covered by the runs
+export const timelineBounds = (runs: AgentRun[], now = Date.now()) => {
+  const starts = runs.map(r => r.startedAt).filter((t): t is number => t !== undefined);
+  if (starts.length === 0) return null;
+  const start = Math.min(...starts);
+  const end = Math.max(...runs.map(r => (r.startedAt ?? start) + runDuration(r, now)));
+  return { start, end: Math.max(end, start + 1) };
+};
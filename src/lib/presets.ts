@@ -0,0 +1,358 @@
+import type { AlgorithmCategory } from './library';
+
+// Sample algorithms offered in the editor and used by the batch run
+
+// Known answers for the regression run; each list holds the accepted bounds
+export interface ExpectedBounds {
+  worst?: string[];
+  best?: string[];
+  space?: string[];
+}
+
+export interface Preset {
+  name: string;
+  code: string;
+  category: AlgorithmCategory;
+  tags?: string[];
+  expected?: ExpectedBounds;
+}
+
+export const PREDEFINED_ALGORITHMS: Preset[] = [
+  {
+    name: "01. Búsqueda Lineal",
+    category: 'searching',
+    tags: ['iterativo'],
+    expected: { worst: ['\\Theta(n)'], best: ['\\Theta(1)'], space: ['\\Theta(1)'] },
+    code: `FUNCTION linearSearch(A, n, target)
+BEGIN
+    FOR i ← 1 TO n DO
+        IF A[i] == target THEN
+            RETURN i
+        END
+    END
+    RETURN -1
+END`
+  },
+  {
+    name: "02. Suma de Array",
+    category: 'other',
+    tags: ['iterativo'],
+    expected: { worst: ['\\Theta(n)'], best: ['\\Theta(n)'], space: ['\\Theta(1)'] },
+    code: `FUNCTION sumArray(A, n)
+BEGIN
+    sum ← 0
+    FOR i ← 1 TO n DO
+        sum ← sum + A[i]
+    END
+    RETURN sum
+END`
+  },
+  {
+    name: "03. BubbleSort",
+    category: 'sorting',
+    tags: ['iterativo', 'comparación'],
+    expected: { worst: ['\\Theta(n^2)'], best: ['\\Theta(n^2)'], space: ['\\Theta(1)'] },
+    code: `FUNCTION bubbleSort(A, n)
+BEGIN
+    FOR i ← 1 TO n - 1 DO
+        FOR j ← 1 TO n - i DO
+            IF A[j] > A[j + 1] THEN
+                temp ← A[j]
+                A[j] ← A[j + 1]
+                A[j + 1] ← temp
+            END
+        END
+    END
+    RETURN A
+END`
+  },
+  {
+    name: "04. InsertionSort",
+    category: 'sorting',
+    tags: ['iterativo', 'comparación'],
+    expected: { worst: ['\\Theta(n^2)'], best: ['\\Theta(n)'], space: ['\\Theta(1)'] },
+    code: `FUNCTION insertionSort(A, n)
+BEGIN
+    FOR i ← 2 TO n DO
+        key ← A[i]
+        j ← i - 1
+        WHILE j >= 1 AND A[j] > key DO
+            A[j + 1] ← A[j]
+            j ← j - 1
+        END
+        A[j + 1] ← key
+    END
+    RETURN A
+END`
+  },
+  {
+    name: "05. SelectionSort",
+    category: 'sorting',
+    tags: ['iterativo', 'comparación'],
+    expected: { worst: ['\\Theta(n^2)'], best: ['\\Theta(n^2)'], space: ['\\Theta(1)'] },
+    code: `FUNCTION selectionSort(A, n)
+BEGIN
+    FOR i ← 1 TO n - 1 DO
+        minIdx ← i
+        FOR j ← i + 1 TO n DO
+            IF A[j] < A[minIdx] THEN
+                minIdx ← j
+            END
+        END
+        temp ← A[i]
+        A[i] ← A[minIdx]
+        A[minIdx] ← temp
+    END
+    RETURN A
+END`
+  },
+  {
+    name: "06. Bucles Anidados Dependientes (Triangular)",
+    category: 'other',
+    tags: ['bucles anidados'],
+    expected: { worst: ['\\Theta(n^2)'], best: ['\\Theta(n^2)'], space: ['\\Theta(1)'] },
+    code: `FUNCTION triangularSum(n)
+BEGIN
+    total ← 0
+    FOR i ← 1 TO n DO
+        FOR j ← 1 TO i DO
+            total ← total + 1
+        END
+    END
+    RETURN total
+END`
+  },
+  {
+    name: "07. Búsqueda Binaria",
+    category: 'searching',
+    tags: ['divide y vencerás'],
+    expected: { worst: ['\\Theta(\\log n)'], best: ['\\Theta(1)'], space: ['\\Theta(1)'] },
+    code: `FUNCTION binarySearch(A, n, target)
+BEGIN
+    left ← 1
+    right ← n
+    WHILE left <= right DO
+        mid ← (left + right) / 2
+        IF A[mid] == target THEN
+            RETURN mid
+        END
+        IF A[mid] < target THEN
+            left ← mid + 1
+        ELSE
+            right ← mid - 1
+        END
+    END
+    RETURN -1
+END`
+  },
+  {
+    name: "08. Búsqueda Exponencial",
+    category: 'searching',
+    tags: ['divide y vencerás'],
+    expected: { worst: ['\\Theta(\\log n)'], best: ['\\Theta(1)'], space: ['\\Theta(1)'] },
+    code: `FUNCTION exponentialSearch(A, n, target)
+BEGIN
+    IF A[1] == target THEN
+        RETURN 1
+    END
+    i ← 1
+    WHILE i < n AND A[i] <= target DO
+        i ← i * 2
+    END
+    RETURN binarySearch(A, max(1, i DIV 2), min(i, n), target)
+END
+
+FUNCTION binarySearch(A, left, right, target)
+BEGIN
+    WHILE left <= right DO
+        mid ← (left + right) / 2
+        IF A[mid] == target THEN
+            RETURN mid
+        END
+        IF A[mid] < target THEN
+            left ← mid + 1
+        ELSE
+            right ← mid - 1
+        END
+    END
+    RETURN -1
+END`
+  },
+  {
+    name: "09. MergeSort",
+    category: 'sorting',
+    tags: ['recursión', 'divide y vencerás'],
+    expected: { worst: ['\\Theta(n \\log n)'], best: ['\\Theta(n \\log n)'], space: ['\\Theta(n)'] },
+    code: `FUNCTION mergeSort(A, left, right)
+BEGIN
+    IF left < right THEN
+        mid ← (left + right) / 2
+        mergeSort(A, left, mid)
+        mergeSort(A, mid + 1, right)
+        merge(A, left, mid, right)
+    END
+    RETURN A
+END
+
+FUNCTION merge(A, left, mid, right)
+BEGIN
+    n1 ← mid - left + 1
+    n2 ← right - mid
+    FOR i ← 1 TO n1 DO
+        L[i] ← A[left + i - 1]
+    END
+    FOR j ← 1 TO n2 DO
+        R[j] ← A[mid + j]
+    END
+    i ← 1
+    j ← 1
+    k ← left
+    WHILE i <= n1 AND j <= n2 DO
+        IF L[i] <= R[j] THEN
+            A[k] ← L[i]
+            i ← i + 1
+        ELSE
+            A[k] ← R[j]
+            j ← j + 1
+        END
+        k ← k + 1
+    END
+    RETURN A
+END`
+  },
+  {
+    name: "10. QuickSort",
+    category: 'sorting',
+    tags: ['recursión', 'divide y vencerás'],
+    expected: { worst: ['\\Theta(n^2)'], best: ['\\Theta(n \\log n)'] },
+    code: `FUNCTION quickSort(A, low, high)
+BEGIN
+    IF low < high THEN
+        pivot ← partition(A, low, high)
+        quickSort(A, low, pivot - 1)
+        quickSort(A, pivot + 1, high)
+    END
+    RETURN A
+END
+
+FUNCTION partition(A, low, high)
+BEGIN
+    pivot ← A[high]
+    i ← low - 1
+    FOR j ← low TO high - 1 DO
+        IF A[j] <= pivot THEN
+            i ← i + 1
+            temp ← A[i]
+            A[i] ← A[j]
+            A[j] ← temp
+        END
+    END
+    temp ← A[i + 1]
+    A[i + 1] ← A[high]
+    A[high] ← temp
+    RETURN i + 1
+END`
+  },
+  {
+    name: "11. Fibonacci Recursivo",
+    category: 'recursion',
+    tags: ['exponencial'],
+    expected: { worst: ['\\Theta(\\phi^n)', 'O(2^n)'], space: ['\\Theta(n)'] },
+    code: `FUNCTION fibonacci(n)
+BEGIN
+    IF n <= 1 THEN
+        RETURN n
+    END
+    RETURN fibonacci(n - 1) + fibonacci(n - 2)
+END`
+  },
+  {
+    name: "12. Factorial Recursivo",
+    category: 'recursion',
+    expected: { worst: ['\\Theta(n)'], best: ['\\Theta(n)'], space: ['\\Theta(n)'] },
+    code: `FUNCTION factorial(n)
+BEGIN
+    IF n <= 1 THEN
+        RETURN 1
+    END
+    RETURN n * factorial(n - 1)
+END`
+  },
+  {
+    name: "13. Fibonacci con DP",
+    category: 'dp',
+    tags: ['iterativo'],
+    expected: { worst: ['\\Theta(n)'], best: ['\\Theta(n)'], space: ['\\Theta(n)'] },
+    code: `FUNCTION fibonacciDP(n)
+BEGIN
+    LET F[0..n]
+    F[0] ← 0
+    F[1] ← 1
+    FOR i ← 2 TO n DO
+        F[i] ← F[i - 1] + F[i - 2]
+    END
+    RETURN F[n]
+END`
+  },
+  {
+    name: "14. BFS (Grafos)",
+    category: 'graphs',
+    tags: ['cola'],
+    expected: { worst: ['\\Theta(V + E)', '\\Theta(n + m)'], space: ['\\Theta(V)', '\\Theta(n)'] },
+    code: `FUNCTION BFS(G, s, n)
+BEGIN
+    LET visited[1..n]
+    LET queue[1..n]
+    FOR i ← 1 TO n DO
+        visited[i] ← FALSE
+    END
+    visited[s] ← TRUE
+    enqueue(queue, s)
+    WHILE NOT isEmpty(queue) DO
+        u ← dequeue(queue)
+        FOR EACH v IN adjacents(G, u) DO
+            IF NOT visited[v] THEN
+                visited[v] ← TRUE
+                enqueue(queue, v)
+            END
+        END
+    END
+    RETURN visited
+END`
+  },
+  {
+    name: "15. DFS (Grafos)",
+    category: 'graphs',
+    tags: ['recursión'],
+    expected: { worst: ['\\Theta(V + E)', '\\Theta(n + m)'], space: ['\\Theta(V)', '\\Theta(n)'] },
+    code: `FUNCTION DFS(G, v, visited)
+BEGIN
+    visited[v] ← TRUE
+    FOR EACH u IN adjacents(G, v) DO
+        IF NOT visited[u] THEN
+            DFS(G, u, visited)
+        END
+    END
+    RETURN visited
+END`
+  },
+  {
+    name: "16. Multiplicación de Matrices",
+    category: 'other',
+    tags: ['matrices', 'bucles anidados'],
+    expected: { worst: ['\\Theta(n^3)'], best: ['\\Theta(n^3)'], space: ['\\Theta(n^2)'] },
+    code: `FUNCTION matrixMultiply(A, B, n)
+BEGIN
+    LET C[1..n, 1..n]
+    FOR i ← 1 TO n DO
+        FOR j ← 1 TO n DO
+            C[i, j] ← 0
+            FOR k ← 1 TO n DO
+                C[i, j] ← C[i, j] + A[i, k] * B[k, j]
+            END
+        END
+    END
+    RETURN C
+END`
+  },
+];
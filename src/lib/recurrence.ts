@@ -0,0 +1,709 @@
+import { compareGrowth, parseGrowth } from './growth';
+import type { Growth } from './growth';
+
+// Independent solver for the recurrences the backend reports, to cross-check
+// its closed form. Handles polynomial summations (Σ_{i=1}^{n} Σ_{j=1}^{i} c),
+// divide and conquer (master theorem, Akra–Bazzi for unequal splits) and
+// linear recurrences with constant coefficients (Fibonacci). Steps are
+// Markdown with inline TeX.
+
+export type RecurrenceMethod = 'summation' | 'master' | 'akra-bazzi' | 'linear';
+
+export interface RecurrenceSolution {
+  method: RecurrenceMethod;
+  // e.g. "\Theta(n^{2})"
+  closedForm: string;
+  growth: Growth;
+  steps: string[];
+}
+
+export class RecurrenceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecurrenceError';
+  }
+}
+
+// --- Parsing -----------------------------------------------------------------
+
+type Expr =
+  | { t: 'num'; v: number }
+  | { t: 'var'; name: string }
+  | { t: 'call'; arg: Expr }
+  | { t: 'add' | 'sub' | 'mul' | 'div' | 'pow'; l: Expr; r: Expr }
+  | { t: 'neg'; e: Expr }
+  | { t: 'log'; arg: Expr; power: number }
+  | { t: 'sqrt'; arg: Expr }
+  | { t: 'sum'; name: string; lo: Expr; hi: Expr; body: Expr };
+
+// Right-hand side only, without side conditions ("para n > 1", ", T(1) = c")
+const normalize = (relation: string): string => {
+  let text = relation
+    .split(/\\q?quad|\\text|,|;|\s(?:si|para|if|for|when|cuando|donde|where)\s|\bn\s*(?:[<>≤≥]|\\[lg]eq?)/i)[0]
+    .replace(/\$|\\left|\\right|\\[,;!]|\\displaystyle|\\limits/g, ' ')
+    .replace(/\\(?:mathcal|mathrm|operatorname)\{(\w+)\}/g, '$1')
+    .replace(/\\[lr](?:floor|ceil)|[⌊⌋⌈⌉]/g, '')
+    .replace(/\\(?:cdot|times)|[·×]/g, '*')
+    .replace(/\\sum|∑/g, 'Σ')
+    .replace(/\\Theta/g, 'Θ')
+    .replace(/\\Omega/g, 'Ω')
+    .replace(/\\(?:log|lg|ln)(?![a-z])/gi, 'log')
+    .replace(/\\sqrt/g, 'sqrt')
+    .replace(/\\[dt]?frac/g, 'frac')
+    .replace(/\\(?:var)?phi|φ/g, 'phi');
+  const eq = text.indexOf('=');
+  // "T(n) = …": the relation proper starts after the first '='
+  if (eq >= 0 && /T\s*\(/.test(text.slice(0, eq))) text = text.slice(eq + 1);
+  return text.trim();
+};
+
+const TOKEN = /\d+(?:\.\d+)?|log|ln|lg|sqrt|frac|phi|[A-Za-zΘΩΣ]|[-+*/^()_{}=]/g;
+
+const parseRelation = (relation: string): Expr => {
+  const text = normalize(relation);
+  const tokens = text.match(TOKEN) ?? [];
+  if (tokens.length === 0) throw new RecurrenceError('La relación está vacía');
+  if (tokens.join('') !== text.replace(/\s+/g, '')) throw new RecurrenceError('La relación contiene símbolos no reconocidos');
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const next = () => tokens[pos++];
+  const expect = (token: string) => {
+    if (next() !== token) throw new RecurrenceError(`Se esperaba '${token}'`);
+  };
+  const closing = (open: string) => (open === '{' ? '}' : ')');
+
+  const startsPrimary = (token?: string) => token !== undefined && /^(\d|[A-Za-zΘΩΣ({]|log|ln|lg|sqrt|frac|phi)/.test(token);
+
+  const parseSum = (): Expr => {
+    let left = parseProduct();
+    while (peek() === '+' || peek() === '-') {
+      const t = next() === '+' ? 'add' : 'sub';
+      left = { t, l: left, r: parseProduct() };
+    }
+    return left;
+  };
+
+  const parseProduct = (): Expr => {
+    let left = parseUnary();
+    for (;;) {
+      const token = peek();
+      if (token === '*' || token === '/') {
+        next();
+        left = { t: token === '*' ? 'mul' : 'div', l: left, r: parseUnary() };
+      } else if (startsPrimary(token)) {
+        left = { t: 'mul', l: left, r: parseUnary() };
+      } else {
+        return left;
+      }
+    }
+  };
+
+  const parseUnary = (): Expr => {
+    if (peek() === '-') {
+      next();
+      return { t: 'neg', e: parseUnary() };
+    }
+    return parsePower();
+  };
+
+  const parsePower = (): Expr => {
+    const base = parsePrimary();
+    if (peek() !== '^') return base;
+    next();
+    return { t: 'pow', l: base, r: parsePrimary() };
+  };
+
+  // "{…}", "(…)" or a single primary (for exponents, bounds and subscripts)
+  const parseGroup = (): Expr => {
+    const token = peek();
+    if (token === '{' || token === '(') {
+      next();
+      const inner = parseSum();
+      expect(closing(token));
+      return inner;
+    }
+    return parsePrimary();
+  };
+
+  const parseName = (first: string): string => {
+    if (peek() !== '_') return first;
+    next();
+    const sub = next();
+    if (sub === '{') {
+      const parts: string[] = [];
+      while (peek() !== undefined && peek() !== '}') parts.push(next());
+      expect('}');
+      return `${first}_${parts.join('')}`;
+    }
+    return `${first}_${sub}`;
+  };
+
+  const parsePrimary = (): Expr => {
+    const token = next();
+    if (token === undefined) throw new RecurrenceError('La relación termina de forma inesperada');
+    if (/^\d/.test(token)) return { t: 'num', v: Number(token) };
+    if (token === '(' || token === '{') {
+      const inner = parseSum();
+      expect(closing(token));
+      return inner;
+    }
+    if (token === 'frac') {
+      const numerator = parseGroup();
+      return { t: 'div', l: numerator, r: parseGroup() };
+    }
+    if (token === 'sqrt') return { t: 'sqrt', arg: parseGroup() };
+    if (token === 'phi') return { t: 'num', v: (1 + Math.sqrt(5)) / 2 };
+    if (token === 'log' || token === 'ln' || token === 'lg') {
+      // The base only changes a constant factor
+      if (peek() === '_') {
+        next();
+        parseGroup();
+      }
+      let power = 1;
+      if (peek() === '^') {
+        next();
+        const exponent = parseGroup();
+        if (exponent.t !== 'num') throw new RecurrenceError('Solo se admiten potencias numéricas de log');
+        power = exponent.v;
+      }
+      return { t: 'log', arg: parsePower(), power };
+    }
+    if (token === 'Σ') {
+      expect('_');
+      const braced = peek() === '{';
+      if (braced) next();
+      const name = parseName(next());
+      expect('=');
+      const lo = braced ? parseSum() : parsePrimary();
+      if (braced) expect('}');
+      expect('^');
+      const hi = parseGroup();
+      return { t: 'sum', name, lo, hi, body: parseProduct() };
+    }
+    if ((token === 'T' || token === 'O' || token === 'Θ' || token === 'Ω') && peek() === '(') {
+      next();
+      const inner = parseSum();
+      expect(')');
+      // Asymptotic wrappers stand for their argument
+      return token === 'T' ? { t: 'call', arg: inner } : inner;
+    }
+    if (/^[A-Za-z]$/.test(token)) return { t: 'var', name: parseName(token) };
+    throw new RecurrenceError(`Símbolo inesperado '${token}'`);
+  };
+
+  const expr = parseSum();
+  if (pos !== tokens.length) throw new RecurrenceError(`Símbolo inesperado '${tokens[pos]}'`);
+  return expr;
+};
+
+const contains = (expr: Expr, t: Expr['t']): boolean => {
+  if (expr.t === t) return true;
+  return Object.values(expr).some(child => typeof child === 'object' && child !== null && contains(child as Expr, t));
+};
+
+// --- Polynomials (for summations and call arguments) -------------------------
+
+// Monomial key "c^1*n^2" (sorted) → coefficient; "" is the constant term
+type Poly = Map<string, number>;
+
+const EPS = 1e-9;
+
+const monomial = (key: string): Map<string, number> =>
+  new Map(key ? key.split('*').map(part => {
+    const [name, exp] = part.split('^');
+    return [name, Number(exp)];
+  }) : []);
+
+const keyOf = (powers: Map<string, number>): string =>
+  [...powers].filter(([, exp]) => exp > 0).sort(([a], [b]) => a.localeCompare(b)).map(([name, exp]) => `${name}^${exp}`).join('*');
+
+const constant = (v: number): Poly => new Map(v === 0 ? [] : [['', v]]);
+
+const addTo = (poly: Poly, key: string, coef: number) => {
+  const value = (poly.get(key) ?? 0) + coef;
+  if (Math.abs(value) < EPS) poly.delete(key);
+  else poly.set(key, value);
+};
+
+const polyAdd = (a: Poly, b: Poly, sign = 1): Poly => {
+  const result = new Map(a);
+  b.forEach((coef, key) => addTo(result, key, sign * coef));
+  return result;
+};
+
+const polyMul = (a: Poly, b: Poly): Poly => {
+  const result: Poly = new Map();
+  a.forEach((ca, ka) => b.forEach((cb, kb) => {
+    const powers = monomial(ka);
+    monomial(kb).forEach((exp, name) => powers.set(name, (powers.get(name) ?? 0) + exp));
+    addTo(result, keyOf(powers), ca * cb);
+  }));
+  return result;
+};
+
+const polyPow = (a: Poly, exp: number): Poly => {
+  let result = constant(1);
+  for (let i = 0; i < exp; i++) result = polyMul(result, a);
+  return result;
+};
+
+const degreeIn = (poly: Poly, name: string): number =>
+  Math.max(0, ...[...poly.keys()].map(key => monomial(key).get(name) ?? 0));
+
+// Coefficient polynomials of name^0, name^1, …
+const splitBy = (poly: Poly, name: string): Poly[] => {
+  const parts: Poly[] = Array.from({ length: degreeIn(poly, name) + 1 }, () => new Map());
+  poly.forEach((coef, key) => {
+    const powers = monomial(key);
+    const exp = powers.get(name) ?? 0;
+    powers.delete(name);
+    addTo(parts[exp], keyOf(powers), coef);
+  });
+  return parts;
+};
+
+const binomial = (n: number, k: number): number => {
+  let result = 1;
+  for (let i = 1; i <= k; i++) result = (result * (n - k + i)) / i;
+  return result;
+};
+
+// Bernoulli numbers with B1 = +1/2, so Σ_{v=1}^{m} v^p = (1/(p+1)) Σ_j C(p+1, j) B_j m^(p+1-j)
+const bernoulli = (count: number): number[] => {
+  const b = [1];
+  for (let m = 1; m < count; m++) {
+    let sum = 0;
+    for (let k = 0; k < m; k++) sum += binomial(m + 1, k) * b[k];
+    b.push(-sum / (m + 1));
+  }
+  b[1] = 0.5;
+  return b;
+};
+
+// Σ_{v=1}^{m} v^p as a polynomial in m (Faulhaber)
+const powerSum = (p: number, m: Poly): Poly => {
+  const b = bernoulli(p + 1);
+  let result: Poly = new Map();
+  for (let j = 0; j <= p; j++) {
+    result = polyAdd(result, polyMul(constant((binomial(p + 1, j) * b[j]) / (p + 1)), polyPow(m, p + 1 - j)));
+  }
+  return result;
+};
+
+interface SumStep {
+  name: string;
+  lo: Poly;
+  hi: Poly;
+  body: Poly;
+  result: Poly;
+}
+
+const toPoly = (expr: Expr, sums: SumStep[]): Poly => {
+  switch (expr.t) {
+    case 'num':
+      return constant(expr.v);
+    case 'var':
+      return new Map([[`${expr.name}^1`, 1]]);
+    case 'add':
+    case 'sub':
+      return polyAdd(toPoly(expr.l, sums), toPoly(expr.r, sums), expr.t === 'add' ? 1 : -1);
+    case 'mul':
+      return polyMul(toPoly(expr.l, sums), toPoly(expr.r, sums));
+    case 'neg':
+      return polyAdd(new Map(), toPoly(expr.e, sums), -1);
+    case 'div': {
+      const divisor = toPoly(expr.r, sums);
+      const value = divisor.get('');
+      if (divisor.size !== 1 || value === undefined) throw new RecurrenceError('Solo se admiten divisiones entre constantes en las sumatorias');
+      return polyMul(toPoly(expr.l, sums), constant(1 / value));
+    }
+    case 'pow': {
+      const exponent = toPoly(expr.r, sums);
+      const value = exponent.get('') ?? 0;
+      if (exponent.size > 1 || !Number.isInteger(value) || value < 0) throw new RecurrenceError('Solo se admiten potencias enteras en las sumatorias');
+      return polyPow(toPoly(expr.l, sums), value);
+    }
+    case 'sum': {
+      const body = toPoly(expr.body, sums);
+      const lo = toPoly(expr.lo, sums);
+      const hi = toPoly(expr.hi, sums);
+      const below = polyAdd(lo, constant(1), -1);
+      const result = splitBy(body, expr.name).reduce(
+        (sum, coef, p) => polyAdd(sum, polyMul(coef, polyAdd(powerSum(p, hi), powerSum(p, below), -1))),
+        new Map() as Poly
+      );
+      sums.push({ name: expr.name, lo, hi, body, result });
+      return result;
+    }
+    default:
+      throw new RecurrenceError('La sumatoria contiene términos no polinómicos (log, raíces o llamadas)');
+  }
+};
+
+// --- Formatting --------------------------------------------------------------
+
+const fraction = (x: number): [number, number] | null => {
+  for (let q = 1; q <= 720; q++) {
+    const p = Math.round(x * q);
+    if (Math.abs(x * q - p) < 1e-7) return [p, q];
+  }
+  return null;
+};
+
+const numberTex = (x: number): string => {
+  const f = fraction(x);
+  if (!f) return x.toFixed(3);
+  return f[1] === 1 ? String(f[0]) : `${f[0] < 0 ? '-' : ''}\\frac{${Math.abs(f[0])}}{${f[1]}}`;
+};
+
+const nameTex = (name: string): string => name.replace(/_(.+)$/, '_{$1}');
+
+const polyTex = (poly: Poly): string => {
+  if (poly.size === 0) return '0';
+  const terms = [...poly].sort(([a], [b]) => {
+    const byN = (monomial(b).get('n') ?? 0) - (monomial(a).get('n') ?? 0);
+    return byN !== 0 ? byN : b.length - a.length;
+  });
+  return terms
+    .map(([key, coef], i) => {
+      const vars = [...monomial(key)].map(([name, exp]) => (exp === 1 ? nameTex(name) : `${nameTex(name)}^{${exp}}`)).join(' ');
+      const magnitude = Math.abs(coef);
+      const factor = vars && Math.abs(magnitude - 1) < EPS ? '' : numberTex(magnitude);
+      const sign = coef < 0 ? (i === 0 ? '-' : ' - ') : i === 0 ? '' : ' + ';
+      return `${sign}${factor}${factor && vars ? '\\,' : ''}${vars}`;
+    })
+    .join('');
+};
+
+// --- Asymptotic classes base^n · n^k · log^j n --------------------------------
+
+interface Asymptotic {
+  base: number;
+  k: number;
+  j: number;
+}
+
+const ONE: Asymptotic = { base: 1, k: 0, j: 0 };
+
+const compareAsymptotic = (a: Asymptotic, b: Asymptotic): number => {
+  if (Math.abs(a.base - b.base) > EPS) return a.base - b.base;
+  if (Math.abs(a.k - b.k) > EPS) return a.k - b.k;
+  return a.j - b.j;
+};
+
+const PHI = (1 + Math.sqrt(5)) / 2;
+
+const baseTex = (base: number): string => {
+  if (Math.abs(base - PHI) < 1e-6) return '\\phi';
+  const f = fraction(base);
+  return f && f[1] === 1 ? String(f[0]) : base.toFixed(3);
+};
+
+const asymptoticTex = ({ base, k, j }: Asymptotic, exponentTex?: string): string => {
+  const parts: string[] = [];
+  if (base > 1 + EPS) parts.push(`${baseTex(base)}^{n}`);
+  if (Math.abs(k) > EPS) {
+    const exponent = exponentTex ?? numberTex(k);
+    parts.push(exponent === '1' ? 'n' : `n^{${exponent}}`);
+  }
+  if (Math.abs(j) > EPS) parts.push(Math.abs(j - 1) < EPS ? '\\log n' : `\\log^{${numberTex(j)}} n`);
+  return parts.length > 0 ? parts.join(' ') : '1';
+};
+
+const asymptoticGrowth = ({ base, k, j }: Asymptotic, tex: string): Growth => ({
+  tex,
+  logAt: (n: number) => n * Math.log(base) + k * Math.log(n) + j * Math.log(Math.log2(n)),
+});
+
+// n^{p} with the trivial exponents written out
+const powerTex = (exponent: string): string => (exponent === '0' ? '1' : exponent === '1' ? 'n' : `n^{${exponent}}`);
+
+const theta = (a: Asymptotic, exponentTex?: string) => `\\Theta(${asymptoticTex(a, exponentTex)})`;
+
+// Dominant term of a non-recursive cost like "c n^2 + n log n"
+const asymptotic = (expr: Expr): Asymptotic => {
+  switch (expr.t) {
+    case 'num':
+      return ONE;
+    case 'var':
+      return expr.name === 'n' ? { base: 1, k: 1, j: 0 } : ONE;
+    case 'add':
+    case 'sub': {
+      const l = asymptotic(expr.l);
+      const r = asymptotic(expr.r);
+      return compareAsymptotic(l, r) >= 0 ? l : r;
+    }
+    case 'mul':
+    case 'div': {
+      const l = asymptotic(expr.l);
+      const r = asymptotic(expr.r);
+      const sign = expr.t === 'mul' ? 1 : -1;
+      return { base: l.base * r.base ** sign, k: l.k + sign * r.k, j: l.j + sign * r.j };
+    }
+    case 'neg':
+      return asymptotic(expr.e);
+    case 'sqrt': {
+      const inner = asymptotic(expr.arg);
+      return { base: Math.sqrt(inner.base), k: inner.k / 2, j: inner.j / 2 };
+    }
+    case 'log': {
+      const inner = asymptotic(expr.arg);
+      if (inner.base > 1 + EPS) return { base: 1, k: expr.power, j: 0 };
+      return inner.k > EPS ? { base: 1, k: 0, j: expr.power } : ONE;
+    }
+    case 'pow': {
+      const exponent = toPoly(expr.r, []);
+      const linear = exponent.get('n^1') ?? 0;
+      if ([...exponent.keys()].every(key => key === '' || key === 'n^1') && Math.abs(linear) > EPS) {
+        // b^(αn + β) = Θ((b^α)^n)
+        if (expr.l.t !== 'num') throw new RecurrenceError('Solo se admiten exponenciales de base numérica');
+        return { base: expr.l.v ** linear, k: 0, j: 0 };
+      }
+      const power = exponent.get('') ?? 0;
+      if (exponent.size > 1) throw new RecurrenceError('Exponente no reconocido en f(n)');
+      const inner = asymptotic(expr.l);
+      return { base: inner.base ** power, k: inner.k * power, j: inner.j * power };
+    }
+    case 'sum':
+      return { base: 1, k: degreeIn(toPoly(expr, []), 'n'), j: 0 };
+    case 'call':
+      throw new RecurrenceError('T(·) aparece dentro de un término no lineal');
+  }
+};
+
+// --- Solvers -----------------------------------------------------------------
+
+const solveSummation = (expr: Expr): RecurrenceSolution => {
+  const sums: SumStep[] = [];
+  const poly = toPoly(expr, sums);
+  const steps = sums.map(
+    ({ name, lo, hi, body, result }) =>
+      `$\\sum_{${nameTex(name)}=${polyTex(lo)}}^{${polyTex(hi)}} ${body.size > 1 ? `(${polyTex(body)})` : polyTex(body)} = ${polyTex(result)}$`
+  );
+  if (sums.length > 1) steps.push(`Total: $T(n) = ${polyTex(poly)}$`);
+  const degree = degreeIn(poly, 'n');
+  const result: Asymptotic = { base: 1, k: degree, j: 0 };
+  const closedForm = theta(result);
+  steps.push(`Término dominante ($n^{${degree}}$): $T(n) = ${closedForm}$`);
+  return { method: 'summation', closedForm, growth: asymptoticGrowth(result, closedForm), steps };
+};
+
+interface CallTerm {
+  coef: number;
+  // n/b splits as scale = 1/b; n - k shifts as shift = k
+  scale?: number;
+  shift?: number;
+}
+
+const splitTerms = (expr: Expr, sign = 1): Array<[number, Expr]> => {
+  if (expr.t === 'add') return [...splitTerms(expr.l, sign), ...splitTerms(expr.r, sign)];
+  if (expr.t === 'sub') return [...splitTerms(expr.l, sign), ...splitTerms(expr.r, -sign)];
+  return [[sign, expr]];
+};
+
+// Numeric coefficient and call of a product like "2T(n/2)" or "T(n-1) / 2"
+const factorCall = (expr: Expr): { coef: number; call: Expr | null } => {
+  if (expr.t === 'call') return { coef: 1, call: expr.arg };
+  if (expr.t === 'num') return { coef: expr.v, call: null };
+  if (expr.t === 'mul' || (expr.t === 'div' && expr.r.t === 'num')) {
+    const l = factorCall(expr.l);
+    const r = factorCall(expr.r);
+    if (l.call && r.call) throw new RecurrenceError('Producto de dos llamadas recursivas');
+    return { coef: expr.t === 'mul' ? l.coef * r.coef : l.coef / r.coef, call: l.call ?? r.call };
+  }
+  throw new RecurrenceError('Los coeficientes de T(·) deben ser numéricos');
+};
+
+// null for non-recursive terms
+const callTerm = (sign: number, expr: Expr): CallTerm | null => {
+  if (!contains(expr, 'call')) return null;
+  const { coef, call } = factorCall(expr);
+  if (!call || sign * coef <= 0) throw new RecurrenceError('Término recursivo no reconocido');
+  const arg = toPoly(call, []);
+  if ([...arg.keys()].some(key => key !== '' && key !== 'n^1')) throw new RecurrenceError('El argumento de T(·) debe ser lineal en n');
+  const slope = arg.get('n^1') ?? 0;
+  const offset = arg.get('') ?? 0;
+  if (Math.abs(slope - 1) < EPS && offset < 0 && Number.isInteger(offset)) return { coef: sign * coef, shift: -offset };
+  if (slope > EPS && slope < 1 - EPS) return { coef: sign * coef, scale: slope };
+  throw new RecurrenceError('T(·) debe llamarse con n - k o con una fracción de n');
+};
+
+const costOf = (terms: Array<[number, Expr]>): { cost: Asymptotic | null; tex: string } => {
+  if (terms.length === 0) return { cost: null, tex: '0' };
+  const cost = terms.map(([, e]) => asymptotic(e)).reduce((a, b) => (compareAsymptotic(a, b) >= 0 ? a : b));
+  return { cost, tex: `\\Theta(${asymptoticTex(cost)})` };
+};
+
+// Root of g on [lo, hi] by bisection; g increasing
+const bisect = (g: (x: number) => number, lo: number, hi: number): number => {
+  for (let i = 0; i < 200; i++) {
+    const mid = (lo + hi) / 2;
+    if (g(mid) < 0) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+};
+
+const solveDivideAndConquer = (calls: CallTerm[], fTerms: Array<[number, Expr]>): RecurrenceSolution => {
+  const { cost, tex: fTex } = costOf(fTerms);
+  const scales = [...new Set(calls.map(c => c.scale!))];
+  const steps: string[] = [];
+  let p: number;
+  let exponentTex: string | undefined;
+  const single = scales.length === 1;
+
+  if (single) {
+    const a = calls.reduce((sum, c) => sum + c.coef, 0);
+    const b = 1 / scales[0];
+    p = Math.log(a) / Math.log(b);
+    const exact = fraction(p);
+    exponentTex = exact && exact[1] <= 4 ? numberTex(p) : `\\log_{${numberTex(b)}} ${numberTex(a)}`;
+    steps.push(`Divide y vencerás $T(n) = a\\,T(n/b) + f(n)$ con $a = ${numberTex(a)}$, $b = ${numberTex(b)}$, $f(n) = ${fTex}$`);
+    steps.push(`Exponente crítico: $\\log_{b} a = \\log_{${numberTex(b)}} ${numberTex(a)}${exact ? ` = ${numberTex(p)}` : ` \\approx ${p.toFixed(3)}`}$`);
+  } else {
+    const terms = calls.map(c => `${c.coef === 1 ? '' : `${numberTex(c.coef)}\\,`}(${numberTex(c.scale!)})^{p}`).join(' + ');
+    p = bisect(x => 1 - calls.reduce((sum, c) => sum + c.coef * c.scale! ** x, 0), -20, 20);
+    steps.push(`Subproblemas de distinto tamaño: teorema de Akra–Bazzi con $f(n) = ${fTex}$`);
+    steps.push(`$p$ tal que $${terms} = 1$: $p \\approx ${p.toFixed(3)}$`);
+    const exact = fraction(p);
+    if (exact && exact[1] <= 4) p = exact[0] / exact[1];
+  }
+
+  const critical: Asymptotic = { base: 1, k: p, j: 0 };
+  let result: Asymptotic;
+  const name = single ? 'del teorema maestro' : 'de Akra–Bazzi';
+  const pTex = exponentTex ?? (fraction(p) ? numberTex(p) : p.toFixed(3));
+  if (!cost || (cost.base <= 1 + EPS && cost.k < p - EPS)) {
+    result = critical;
+    steps.push(`$f(n) = O(n^{${pTex} - \\varepsilon})$: caso 1 ${name}, domina el trabajo de las hojas`);
+  } else if (cost.base <= 1 + EPS && Math.abs(cost.k - p) < EPS) {
+    if (cost.j < 0) throw new RecurrenceError('f(n) con logaritmos en el denominador no está soportado');
+    result = { base: 1, k: p, j: cost.j + 1 };
+    steps.push(`$f(n) = \\Theta(${powerTex(pTex)}${cost.j > 0 ? ` ${asymptoticTex({ base: 1, k: 0, j: cost.j })}` : ''})$: caso 2 ${name}, cada nivel aporta lo mismo`);
+  } else {
+    result = cost;
+    steps.push(`$f(n) = \\Omega(n^{${pTex} + \\varepsilon})$ y es regular: caso 3 ${name}, domina el trabajo de la raíz`);
+  }
+  const closedForm = theta(result, result === critical || result.k === p ? pTex : undefined);
+  steps.push(`$T(n) = ${closedForm}$`);
+  return { method: single ? 'master' : 'akra-bazzi', closedForm, growth: asymptoticGrowth(result, closedForm), steps };
+};
+
+const solveLinear = (calls: CallTerm[], fTerms: Array<[number, Expr]>): RecurrenceSolution => {
+  const byShift = new Map<number, number>();
+  calls.forEach(c => byShift.set(c.shift!, (byShift.get(c.shift!) ?? 0) + c.coef));
+  const shifts = [...byShift].sort(([a], [b]) => a - b);
+  const order = shifts[shifts.length - 1][0];
+  const total = shifts.reduce((sum, [, a]) => sum + a, 0);
+  const { cost, tex: fTex } = costOf(fTerms);
+  const steps: string[] = [];
+
+  const callsTex = shifts.map(([s, a]) => `${a === 1 ? '' : numberTex(a)}T(n-${s})`).join(' + ');
+  steps.push(`Recurrencia lineal de orden ${order}: $T(n) = ${callsTex} + f(n)$ con $f(n) = ${fTex}$`);
+  const rhs = shifts
+    .map(([s, a]) => {
+      const power = order - s;
+      const x = power === 0 ? '' : power === 1 ? 'x' : `x^{${power}}`;
+      return `${a === 1 && x ? '' : numberTex(a)}${x}`;
+    })
+    .join(' + ');
+  steps.push(`Ecuación característica: $${order === 1 ? 'x' : `x^{${order}}`} = ${rhs}$`);
+
+  // Σ a_s r^(-s) = 1 has a single positive root, the dominant one
+  const r = Math.abs(total - 1) < EPS ? 1 : bisect(x => 1 - shifts.reduce((sum, [s, a]) => sum + a * x ** -s, 0), 1e-6, Math.max(1, total) + 1);
+  let result: Asymptotic;
+  if (r > 1 + EPS) {
+    steps.push(`Raíz dominante: $r = ${baseTex(r)}${baseTex(r) === '\\phi' ? ' \\approx 1.618' : ''}$`);
+    if (cost && cost.base > r + 1e-6) {
+      result = cost;
+      steps.push('$f(n)$ crece más rápido que $r^n$ y domina');
+    } else if (cost && Math.abs(cost.base - r) < 1e-6) {
+      result = { ...cost, k: cost.k + 1 };
+      steps.push('$f(n)$ crece como $r^n$: se multiplica por $n$');
+    } else {
+      result = { base: r, k: 0, j: 0 };
+      steps.push('La solución homogénea $r^n$ domina a $f(n)$');
+    }
+  } else if (Math.abs(r - 1) < EPS) {
+    result = cost && cost.base > 1 + EPS ? cost : { base: 1, k: (cost?.k ?? 0) + 1, j: cost?.j ?? 0 };
+    steps.push(`Raíz dominante $r = 1$: la recurrencia suma $f$ sobre $\\Theta(n)$ niveles`);
+  } else {
+    result = cost ?? ONE;
+    steps.push(`Raíz dominante $r = ${r.toFixed(3)} < 1$: domina $f(n)$`);
+  }
+  const closedForm = theta(result);
+  steps.push(`$T(n) = ${closedForm}$`);
+  return { method: 'linear', closedForm, growth: asymptoticGrowth(result, closedForm), steps };
+};
+
+export const solveRecurrence = (relation: string): RecurrenceSolution => {
+  const expr = parseRelation(relation);
+  if (!contains(expr, 'call')) {
+    if (!contains(expr, 'sum')) throw new RecurrenceError('La relación no contiene T(·) ni sumatorias');
+    return solveSummation(expr);
+  }
+  const calls: CallTerm[] = [];
+  const fTerms: Array<[number, Expr]> = [];
+  for (const [sign, term] of splitTerms(expr)) {
+    const call = callTerm(sign, term);
+    if (call) calls.push(call);
+    else fTerms.push([sign, term]);
+  }
+  if (calls.every(c => c.scale !== undefined)) return solveDivideAndConquer(calls, fTerms);
+  if (calls.every(c => c.shift !== undefined)) return solveLinear(calls, fTerms);
+  throw new RecurrenceError('La relación mezcla T(n - k) con T(n/b)');
+};
+
+export type ClosedFormCheck = 'match' | 'loose' | 'mismatch';
+
+// Compares the backend's closed form ("Θ(n^2)", "T(n) = c/2 n^2 + c/2 n")
+// with the solution; an O(·) above it or an Ω(·) below it is a valid but
+// loose bound. Symbolic constants (c, c_1, d) count as 1. null when the
+// closed form cannot be parsed
+export const checkClosedForm = (solution: RecurrenceSolution, closedForm: string): ClosedFormCheck | null => {
+  const eq = closedForm.lastIndexOf('=');
+  const rhs = (eq >= 0 ? closedForm.slice(eq + 1) : closedForm).trim();
+  const reported = parseGrowth(rhs.replace(/\b[cd](?:_\{?\d+\}?)?(?![a-z])/g, '1'));
+  if (!reported) return null;
+  const order = compareGrowth(reported, solution.growth);
+  if (order === 0) return 'match';
+  const wrapper = /^\\?(O|Omega|Ω)\s*\(/.exec(rhs)?.[1];
+  if (wrapper === 'O' && order > 0) return 'loose';
+  if ((wrapper === 'Omega' || wrapper === 'Ω') && order < 0) return 'loose';
+  return 'mismatch';
+};
+
+// Grouped by powers of n: "(c_{1} + c_{2})\,n^{2} + c_{3}\,n + c_{4}"
+const groupedTex = (poly: Poly): string => {
+  const parts = splitBy(poly, 'n');
+  const terms: string[] = [];
+  for (let d = parts.length - 1; d >= 0; d--) {
+    const part = parts[d];
+    if (part.size === 0) continue;
+    const power = d === 0 ? '' : d === 1 ? 'n' : `n^{${d}}`;
+    const [[key, coef]] = [...part];
+    let factor: string;
+    if (part.size > 1) factor = `(${polyTex(part)})`;
+    else if (key === '' && power && Math.abs(Math.abs(coef) - 1) < EPS) factor = coef < 0 ? '-' : '';
+    else factor = polyTex(part);
+    terms.push(`${factor}${factor && factor !== '-' && power ? '\\,' : ''}${power}`);
+  }
+  if (terms.length === 0) return '0';
+  return terms.map((term, i) => (i === 0 ? term : term.startsWith('-') ? ` - ${term.slice(1)}` : ` + ${term}`)).join('');
+};
+
+// Expands a polynomial expression with summations, e.g. the execution count
+// "Σ_{i=0}^{n-1} (n - i)"; null when it is not polynomial. `tex` groups by
+// powers of n, `flat` lists monomials; `degree` is the degree in n alone and
+// `variables` every name left in the result
+export const expandPolynomial = (
+  expression: string
+): { tex: string; flat: string; degree: number; variables: string[] } | null => {
+  try {
+    const poly = toPoly(parseRelation(expression), []);
+    const variables = [...new Set([...poly.keys()].flatMap(key => [...monomial(key).keys()]))].sort();
+    return { tex: groupedTex(poly), flat: polyTex(poly), degree: degreeIn(poly, 'n'), variables };
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,52 @@
+import type { AnalysisReport } from '../api';
+import { boundWrapper, compareGrowth, normalizeBound, parseGrowth } from './growth';
+import type { ExpectedBounds } from './presets';
+
+// Golden-answer comparison of a backend report against a preset's known
+// bounds. Bounds match when they name the same growth class, whatever the
+// notation (n^2, n², \Theta, Theta), and use the same wrapper: an expected
+// Θ(n²) is not met by O(n²). A bare bound (n²) matches any wrapper.
+
+export type CheckVerdict = 'pass' | 'fail' | 'missing';
+
+export interface RegressionCheck {
+  label: string;
+  // Accepted answers, any of which passes
+  expected: string[];
+  actual?: string;
+  verdict: CheckVerdict;
+}
+
+// Unparsable bounds (e.g. V + E) fall back to comparing the normalized text
+export const sameBound = (a: string, b: string): boolean => {
+  const wrappers = [boundWrapper(a), boundWrapper(b)];
+  if (wrappers[0] && wrappers[1] && wrappers[0] !== wrappers[1]) return false;
+  const left = parseGrowth(a);
+  const right = parseGrowth(b);
+  if (left && right) return compareGrowth(left, right) === 0;
+  const text = (tex: string) => normalizeBound(tex).replace(/[\s()]/g, '').toLowerCase();
+  return text(a) === text(b);
+};
+
+const check = (label: string, expected: string[] | undefined, actual: string | undefined): RegressionCheck[] => {
+  if (!expected) return [];
+  const verdict: CheckVerdict = !actual ? 'missing' : expected.some(e => sameBound(e, actual)) ? 'pass' : 'fail';
+  return [{ label, expected, actual, verdict }];
+};
+
+export const checkExpectations = (expected: ExpectedBounds, report: AnalysisReport): RegressionCheck[] => {
+  const { complexity, cases } = report.complexity_analysis;
+  return [
+    ...check('Peor caso', expected.worst, cases?.worst?.complexity ?? complexity.time.theta ?? complexity.time.big_o),
+    ...check('Mejor caso', expected.best, cases?.best?.complexity ?? complexity.time.omega),
+    ...check('Espacio', expected.space, complexity.space.theta ?? complexity.space.big_o),
+  ];
+};
+
+export const regressionPassed = (checks: RegressionCheck[]) => checks.every(c => c.verdict === 'pass');
+
+// "Peor caso: esperado Θ(n), obtenido O(n^2)" for each failing check
+export const describeFailures = (checks: RegressionCheck[]): string[] =>
+  checks
+    .filter(c => c.verdict !== 'pass')
+    .map(c => `${c.label}: esperado ${c.expected.join(' o ')}, ${c.actual ? `obtenido ${c.actual}` : 'sin resultado'}`);
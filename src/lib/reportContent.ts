@@ -0,0 +1,42 @@
+import type { AnalysisReport } from '../api';
+
+// Report content shared by the on-screen view and the exporters
+
+export interface ReportDiagram {
+  title: string;
+  description?: string;
+  type?: string;
+  source: string;
+}
+
+export interface RenderedDiagram extends ReportDiagram {
+  // null when Mermaid could not render the source
+  svg: string | null;
+}
+
+// Every valid Mermaid diagram: diagram.diagram, diagram.diagrams and legacy artifacts
+export const collectDiagrams = (report: AnalysisReport): ReportDiagram[] => {
+  const diagrams: ReportDiagram[] = [];
+  const main = report.diagram?.diagram;
+  if (main?.mermaid && main.syntax_valid) {
+    diagrams.push({ title: main.name || 'Diagrama Principal', description: main.description, type: main.type, source: main.mermaid });
+  }
+  report.diagram?.diagrams?.forEach((diag, index) => {
+    if (diag.mermaid && diag.syntax_valid) {
+      diagrams.push({ title: diag.name || `Diagrama ${index + 1}`, description: diag.description, type: diag.type, source: diag.mermaid });
+    }
+  });
+  Object.entries(report.artifacts ?? {}).forEach(([key, artifact]) => {
+    if (artifact.artifact_type === 'mermaid' && artifact.content) {
+      diagrams.push({ title: key.replace(/_/g, ' '), source: artifact.content });
+    }
+  });
+  return diagrams;
+};
+
+// "2. Apply arithmetic series sum: c * n(n+1)/2" → prose label and its formula
+export const splitStep = (step: string): { label: string; math?: string } => {
+  const text = step.replace(/^\s*\d+[.)]\s*/, '');
+  const colon = text.indexOf(': ');
+  return colon < 0 ? { label: text } : { label: text.slice(0, colon), math: text.slice(colon + 2) };
+};
@@ -0,0 +1,141 @@
+import type { AstNode } from '../api';
+import { mapAstToLines } from './ast';
+import type { LineRange } from './ast';
+import { buildArguments, entryFunction, inferParameters, seededRandom } from './benchmark';
+import { createArray, describeValue, executeProgram, isArrayValue } from './interpreter';
+import type { ArrayValue, Frame, Value } from './interpreter';
+import { parsePseudocode } from './parser';
+
+// Records an execution step by step for the visualizer. A step is one
+// statement or loop check, with the state right after it and the cells of
+// the watched array it touched.
+
+export interface TraceStep {
+  node: AstNode;
+  lines: LineRange | null;
+  // Call stack, outermost first
+  stack: string[];
+  variables: Array<[string, string]>;
+  // Watched array after the step, index `base` first
+  values: Array<number | null>;
+  // Index variables (i, j, low, …) pointing into the watched array
+  pointers: Array<[string, number]>;
+  compared: number[];
+  read: number[];
+  written: number[];
+}
+
+export interface Trace {
+  code: string;
+  arrayName: string | null;
+  base: number;
+  steps: TraceStep[];
+  result?: string;
+  error?: string;
+  // Stopped at MAX_TRACE_STEPS
+  truncated: boolean;
+}
+
+export const MAX_TRACE_STEPS = 5000;
+
+const POINTER_NAMES = /^(i|j|k|low|high|lo|hi|mid|left|right|minidx|maxidx|min_idx|max_idx)$/i;
+
+class TraceTruncated extends Error {}
+
+const preview = (value: Value): string => {
+  if (!isArrayValue(value)) return describeValue(value);
+  const keys = [...value.cells.keys()];
+  const shown = keys.slice(0, 12).map(key => describeValue(value.cells.get(key)!));
+  return `[${shown.join(', ')}${keys.length > 12 ? ', …' : ''}]`;
+};
+
+const indexOf = (key: string): number | null => (/^-?\d+$/.test(key) ? Number(key) : null);
+
+export const traceExecution = (code: string, input: number[], target?: number): Trace => {
+  const trace: Trace = { code, arrayName: null, base: 1, steps: [], truncated: false };
+  const { ast, diagnostics } = parsePseudocode(code);
+  if (!ast) return { ...trace, error: `Error de sintaxis en la línea ${diagnostics[0].line + 1}: ${diagnostics[0].message}` };
+  const fn = entryFunction(ast);
+  if (!fn) return { ...trace, error: 'No hay ninguna FUNCTION que ejecutar' };
+
+  // Generated arguments, with the user's array and searched value swapped in
+  const parameters = inferParameters(ast, fn);
+  const args = buildArguments(parameters, input.length, 'random', seededRandom(input.length));
+  let watched: ArrayValue | null = null;
+  for (const [i, parameter] of parameters.entries()) {
+    if (parameter.kind === 'array' && !watched) {
+      watched = createArray(input);
+      args[i] = watched;
+      trace.arrayName = parameter.name;
+    } else if (parameter.kind === 'absent' && target !== undefined) {
+      args[i] = target;
+    }
+  }
+
+  const ranges = mapAstToLines(ast, code);
+  const snapshot = (): Array<number | null> =>
+    input.map((_, i) => {
+      const value = watched?.cells.get(String(i + trace.base));
+      return typeof value === 'number' ? value : null;
+    });
+
+  // Effects are collected until the next step starts, then frozen
+  let pending: { node: AstNode; frame: Frame; stack: string[]; read: Set<number>; written: Set<number>; compared: boolean } | null = null;
+  const finish = () => {
+    if (!pending) return;
+    const { node, frame, stack, read, written, compared } = pending;
+    const values = snapshot();
+    trace.steps.push({
+      node,
+      lines: ranges.get(node) ?? null,
+      stack,
+      variables: [...frame.scope].map(([name, value]) => [name, value === watched ? '(ver barras)' : preview(value)]),
+      values,
+      pointers: [...frame.scope]
+        .filter(([name, value]) => POINTER_NAMES.test(name) && typeof value === 'number' && value >= trace.base && value < trace.base + values.length)
+        .map(([name, value]) => [name, value as number]),
+      compared: compared ? [...read] : [],
+      read: compared ? [] : [...read],
+      written: [...written],
+    });
+    pending = null;
+  };
+
+  try {
+    const { value } = executeProgram(ast, String(fn.name), args, {
+      maxOperations: 1_000_000,
+      observer: {
+        statement: (node, frame, stack) => {
+          finish();
+          if (trace.steps.length >= MAX_TRACE_STEPS) throw new TraceTruncated();
+          pending = { node, frame, stack: stack.map(f => f.fn), read: new Set(), written: new Set(), compared: false };
+        },
+        arrayRead: (array, key) => {
+          const index = indexOf(key);
+          if (pending && array === watched && index !== null) pending.read.add(index);
+        },
+        arrayWrite: (array, key) => {
+          const index = indexOf(key);
+          if (pending && array === watched && index !== null) pending.written.add(index);
+        },
+        compare: () => {
+          if (pending) pending.compared = true;
+        },
+      },
+    });
+    finish();
+    trace.result = value === watched ? `${trace.arrayName} (ver barras)` : preview(value);
+  } catch (err) {
+    finish();
+    if (err instanceof TraceTruncated) trace.truncated = true;
+    else trace.error = err instanceof Error ? err.message : String(err);
+  }
+  return trace;
+};
+
+export const parseInputArray = (text: string): number[] | null => {
+  const parts = text.split(/[\s,;]+/).filter(Boolean);
+  if (parts.length === 0) return null;
+  const values = parts.map(Number);
+  return values.every(Number.isFinite) ? values : null;
+};
@@ -1,18 +1,20 @@
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
+import { mockBackend } from "./mock/mockBackend";
 
-import { defineConfig } from "vite";
-import react from "@vitejs/plugin-react";
-
-export default defineConfig({
-  plugins: [react()],
+export default defineConfig(({ mode }) => ({
+  // `vite --mode mock` serves /api from recorded fixtures instead of Flask
+  plugins: [react(), mode === "mock" && mockBackend()],
   server: {
-    proxy: {
-      "/api": {
-        target: "http://127.0.0.1:5000", // Apunta a tu Flask
-        changeOrigin: true,
-        secure: false,
-      },
-    },
+    proxy:
+      mode === "mock"
+        ? undefined
+        : {
+            "/api": {
+              target: "http://127.0.0.1:5000", // Apunta a tu Flask
+              changeOrigin: true,
+              secure: false,
+            },
+          },
   },
-});
+}));